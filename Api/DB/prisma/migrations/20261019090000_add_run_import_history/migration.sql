@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE `RunImport` (
+    `id` VARCHAR(191) NOT NULL,
+    `companyId` VARCHAR(191) NOT NULL,
+    `uploadedBy` VARCHAR(191) NULL,
+    `runId` VARCHAR(191) NULL,
+    `status` ENUM('PROCESSING', 'SUCCEEDED', 'FAILED', 'PREVIEWED') NOT NULL DEFAULT 'PROCESSING',
+    `dryRun` BOOLEAN NOT NULL DEFAULT false,
+    `fileName` VARCHAR(191) NOT NULL,
+    `fileSize` INTEGER NOT NULL,
+    `fileHash` VARCHAR(64) NOT NULL,
+    `storageKey` VARCHAR(191) NULL,
+    `summary` JSON NULL,
+    `issues` JSON NULL,
+    `error` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `completedAt` DATETIME(3) NULL,
+
+    INDEX `RunImport_companyId_createdAt_idx`(`companyId`, `createdAt`),
+    INDEX `RunImport_uploadedBy_idx`(`uploadedBy`),
+    INDEX `RunImport_runId_idx`(`runId`),
+    INDEX `RunImport_fileHash_idx`(`fileHash`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `RunImport` ADD CONSTRAINT `RunImport_companyId_fkey` FOREIGN KEY (`companyId`) REFERENCES `Company`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RunImport` ADD CONSTRAINT `RunImport_uploadedBy_fkey` FOREIGN KEY (`uploadedBy`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RunImport` ADD CONSTRAINT `RunImport_runId_fkey` FOREIGN KEY (`runId`) REFERENCES `Run`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
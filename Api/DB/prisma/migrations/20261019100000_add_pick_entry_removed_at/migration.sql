@@ -0,0 +1,3 @@
+-- Flag pick entries that disappeared from a re-imported workbook
+ALTER TABLE `PickEntry`
+  ADD COLUMN `removedAt` DATETIME(3) NULL;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE `SkuCategoryMapping` (
+    `id` VARCHAR(191) NOT NULL,
+    `companyId` VARCHAR(191) NOT NULL,
+    `skuCode` VARCHAR(191) NOT NULL,
+    `category` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `SkuCategoryMapping_companyId_category_idx`(`companyId`, `category`),
+    UNIQUE INDEX `SkuCategoryMapping_companyId_skuCode_key`(`companyId`, `skuCode`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `SkuCategoryMapping` ADD CONSTRAINT `SkuCategoryMapping_companyId_fkey` FOREIGN KEY (`companyId`) REFERENCES `Company`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
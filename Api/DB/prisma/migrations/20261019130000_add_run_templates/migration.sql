@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE `Run` ADD COLUMN `templateId` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `RunTemplate` (
+    `id` VARCHAR(191) NOT NULL,
+    `companyId` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `runnerId` VARCHAR(191) NULL,
+    `weekdays` JSON NOT NULL,
+    `daysAhead` INTEGER NOT NULL DEFAULT 7,
+    `pickSource` ENUM('PAR', 'IMPORT') NOT NULL DEFAULT 'IMPORT',
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `generatedThrough` VARCHAR(10) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `RunTemplate_runnerId_idx`(`runnerId`),
+    UNIQUE INDEX `RunTemplate_companyId_name_key`(`companyId`, `name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `RunTemplateLocation` (
+    `id` VARCHAR(191) NOT NULL,
+    `templateId` VARCHAR(191) NOT NULL,
+    `locationId` VARCHAR(191) NOT NULL,
+    `position` INTEGER NOT NULL,
+
+    INDEX `RunTemplateLocation_locationId_idx`(`locationId`),
+    UNIQUE INDEX `RunTemplateLocation_templateId_locationId_key`(`templateId`, `locationId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `Run_templateId_scheduledFor_idx` ON `Run`(`templateId`, `scheduledFor`);
+
+-- AddForeignKey
+ALTER TABLE `Run` ADD CONSTRAINT `Run_templateId_fkey` FOREIGN KEY (`templateId`) REFERENCES `RunTemplate`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RunTemplate` ADD CONSTRAINT `RunTemplate_companyId_fkey` FOREIGN KEY (`companyId`) REFERENCES `Company`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RunTemplate` ADD CONSTRAINT `RunTemplate_runnerId_fkey` FOREIGN KEY (`runnerId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RunTemplateLocation` ADD CONSTRAINT `RunTemplateLocation_templateId_fkey` FOREIGN KEY (`templateId`) REFERENCES `RunTemplate`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RunTemplateLocation` ADD CONSTRAINT `RunTemplateLocation_locationId_fkey` FOREIGN KEY (`locationId`) REFERENCES `Location`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
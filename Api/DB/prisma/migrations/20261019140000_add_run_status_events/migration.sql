@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE `RunStatusEvent` (
+    `id` VARCHAR(191) NOT NULL,
+    `runId` VARCHAR(191) NOT NULL,
+    `actorId` VARCHAR(191) NULL,
+    `fromStatus` ENUM('CREATED', 'PENDING_FRESH', 'PICKING', 'READY') NOT NULL,
+    `toStatus` ENUM('CREATED', 'PENDING_FRESH', 'PICKING', 'READY') NOT NULL,
+    `reason` VARCHAR(500) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `RunStatusEvent_runId_createdAt_idx`(`runId`, `createdAt`),
+    INDEX `RunStatusEvent_actorId_idx`(`actorId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `RunStatusEvent` ADD CONSTRAINT `RunStatusEvent_runId_fkey` FOREIGN KEY (`runId`) REFERENCES `Run`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RunStatusEvent` ADD CONSTRAINT `RunStatusEvent_actorId_fkey` FOREIGN KEY (`actorId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE `RunActivityEvent` (
+    `id` VARCHAR(191) NOT NULL,
+    `runId` VARCHAR(191) NOT NULL,
+    `pickEntryId` VARCHAR(191) NULL,
+    `userId` VARCHAR(191) NULL,
+    `packingSessionId` VARCHAR(191) NULL,
+    `type` ENUM('PICK_STATUS_CHANGED', 'OVERRIDE_SET', 'SKU_SUBSTITUTED', 'EXPIRY_OVERRIDES_CHANGED', 'PICK_ENTRY_ADDED', 'PICK_ENTRY_DELETED', 'CHOCOLATE_BOX_CREATED', 'CHOCOLATE_BOX_UPDATED', 'CHOCOLATE_BOX_DELETED') NOT NULL,
+    `before` JSON NULL,
+    `after` JSON NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `RunActivityEvent_runId_createdAt_idx`(`runId`, `createdAt`),
+    INDEX `RunActivityEvent_pickEntryId_createdAt_idx`(`pickEntryId`, `createdAt`),
+    INDEX `RunActivityEvent_userId_idx`(`userId`),
+    INDEX `RunActivityEvent_packingSessionId_idx`(`packingSessionId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `RunActivityEvent` ADD CONSTRAINT `RunActivityEvent_runId_fkey` FOREIGN KEY (`runId`) REFERENCES `Run`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RunActivityEvent` ADD CONSTRAINT `RunActivityEvent_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RunActivityEvent` ADD CONSTRAINT `RunActivityEvent_packingSessionId_fkey` FOREIGN KEY (`packingSessionId`) REFERENCES `PackingSession`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE `RunParticipant` (
+    `id` VARCHAR(191) NOT NULL,
+    `runId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `role` ENUM('RUNNER', 'PACKER', 'FRESH_PACKER') NOT NULL,
+    `assignedById` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `RunParticipant_runId_role_idx`(`runId`, `role`),
+    INDEX `RunParticipant_userId_idx`(`userId`),
+    INDEX `RunParticipant_assignedById_idx`(`assignedById`),
+    UNIQUE INDEX `RunParticipant_runId_userId_role_key`(`runId`, `userId`, `role`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `RunParticipant` ADD CONSTRAINT `RunParticipant_runId_fkey` FOREIGN KEY (`runId`) REFERENCES `Run`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RunParticipant` ADD CONSTRAINT `RunParticipant_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RunParticipant` ADD CONSTRAINT `RunParticipant_assignedById_fkey` FOREIGN KEY (`assignedById`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill existing runners as RUNNER participants
+INSERT INTO `RunParticipant` (`id`, `runId`, `userId`, `role`, `createdAt`)
+SELECT UUID(), `id`, `runnerId`, 'RUNNER', CURRENT_TIMESTAMP(3)
+FROM `Run`
+WHERE `runnerId` IS NOT NULL;
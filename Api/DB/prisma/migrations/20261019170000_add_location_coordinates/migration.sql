@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE `Location` ADD COLUMN `latitude` DOUBLE NULL,
+    ADD COLUMN `longitude` DOUBLE NULL;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE `RunLocationVisit` (
+    `id` VARCHAR(191) NOT NULL,
+    `runId` VARCHAR(191) NOT NULL,
+    `locationId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NULL,
+    `departedById` VARCHAR(191) NULL,
+    `arrivedAt` DATETIME(3) NOT NULL,
+    `departedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `RunLocationVisit_locationId_idx`(`locationId`),
+    INDEX `RunLocationVisit_userId_idx`(`userId`),
+    INDEX `RunLocationVisit_departedById_idx`(`departedById`),
+    UNIQUE INDEX `RunLocationVisit_runId_locationId_key`(`runId`, `locationId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `RunLocationVisit` ADD CONSTRAINT `RunLocationVisit_runId_fkey` FOREIGN KEY (`runId`) REFERENCES `Run`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RunLocationVisit` ADD CONSTRAINT `RunLocationVisit_locationId_fkey` FOREIGN KEY (`locationId`) REFERENCES `Location`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RunLocationVisit` ADD CONSTRAINT `RunLocationVisit_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RunLocationVisit` ADD CONSTRAINT `RunLocationVisit_departedById_fkey` FOREIGN KEY (`departedById`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `RunActivityEvent` MODIFY `type` ENUM('PICK_STATUS_CHANGED', 'OVERRIDE_SET', 'SKU_SUBSTITUTED', 'EXPIRY_OVERRIDES_CHANGED', 'PICK_ENTRY_ADDED', 'PICK_ENTRY_DELETED', 'CHOCOLATE_BOX_CREATED', 'CHOCOLATE_BOX_UPDATED', 'CHOCOLATE_BOX_DELETED', 'RUN_SPLIT', 'RUN_MERGED') NOT NULL;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE `PickEntry` ADD COLUMN `pickedCount` INTEGER NULL,
+    ADD COLUMN `shortageCount` INTEGER NULL,
+    ADD COLUMN `shortageReason` ENUM('OUT_OF_STOCK', 'DAMAGED', 'EXPIRED', 'SUBSTITUTED_ELSEWHERE') NULL;
+
+-- CreateIndex
+CREATE INDEX `PickEntry_shortageReason_idx` ON `PickEntry`(`shortageReason`);
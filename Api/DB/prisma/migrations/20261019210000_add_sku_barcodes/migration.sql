@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE `SkuBarcode` (
+    `id` VARCHAR(191) NOT NULL,
+    `skuId` VARCHAR(191) NOT NULL,
+    `code` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `SkuBarcode_code_idx`(`code`),
+    UNIQUE INDEX `SkuBarcode_skuId_code_key`(`skuId`, `code`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `SkuBarcode` ADD CONSTRAINT `SkuBarcode_skuId_fkey` FOREIGN KEY (`skuId`) REFERENCES `SKU`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE `PackingClaim` (
+    `id` VARCHAR(191) NOT NULL,
+    `runId` VARCHAR(191) NOT NULL,
+    `packingSessionId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `machineId` VARCHAR(191) NOT NULL,
+    `claimedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `expiresAt` DATETIME(3) NOT NULL,
+
+    INDEX `PackingClaim_packingSessionId_idx`(`packingSessionId`),
+    INDEX `PackingClaim_userId_idx`(`userId`),
+    INDEX `PackingClaim_machineId_idx`(`machineId`),
+    UNIQUE INDEX `PackingClaim_runId_machineId_key`(`runId`, `machineId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `PackingClaim` ADD CONSTRAINT `PackingClaim_runId_fkey` FOREIGN KEY (`runId`) REFERENCES `Run`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PackingClaim` ADD CONSTRAINT `PackingClaim_packingSessionId_fkey` FOREIGN KEY (`packingSessionId`) REFERENCES `PackingSession`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PackingClaim` ADD CONSTRAINT `PackingClaim_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PackingClaim` ADD CONSTRAINT `PackingClaim_machineId_fkey` FOREIGN KEY (`machineId`) REFERENCES `Machine`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
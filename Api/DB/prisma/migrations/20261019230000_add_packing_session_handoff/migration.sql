@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE `PackingSession` ADD COLUMN `cursorOrder` INTEGER NULL,
+    ADD COLUMN `cursorUpdatedAt` DATETIME(3) NULL,
+    ADD COLUMN `handedOffFromId` VARCHAR(191) NULL,
+    MODIFY `status` ENUM('STARTED', 'FINISHED', 'ABANDONED', 'HANDED_OFF') NOT NULL DEFAULT 'STARTED';
+
+-- AlterTable
+ALTER TABLE `RunActivityEvent` MODIFY `type` ENUM('PICK_STATUS_CHANGED', 'OVERRIDE_SET', 'SKU_SUBSTITUTED', 'EXPIRY_OVERRIDES_CHANGED', 'PICK_ENTRY_ADDED', 'PICK_ENTRY_DELETED', 'CHOCOLATE_BOX_CREATED', 'CHOCOLATE_BOX_UPDATED', 'CHOCOLATE_BOX_DELETED', 'RUN_SPLIT', 'RUN_MERGED', 'PACKING_SESSION_HANDED_OFF') NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `PackingSession_handedOffFromId_key` ON `PackingSession`(`handedOffFromId`);
+
+-- AddForeignKey
+ALTER TABLE `PackingSession` ADD CONSTRAINT `PackingSession_handedOffFromId_fkey` FOREIGN KEY (`handedOffFromId`) REFERENCES `PackingSession`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
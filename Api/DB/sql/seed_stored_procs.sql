@@ -153,11 +153,27 @@ BEGIN
 
   SET v_effective_user_id = NULLIF(p_user_id, '');
 
-  IF v_role = 'RUNNER' THEN
-    UPDATE `Run`
-    SET runnerId = v_effective_user_id
-    WHERE id = p_run_id
-      AND companyId = p_company_id;
+  IF v_role IN ('RUNNER', 'PACKER', 'FRESH_PACKER')
+    AND EXISTS (SELECT 1 FROM `Run` WHERE id = p_run_id AND companyId = p_company_id) THEN
+    -- A run has one runner, so assigning one replaces the other; clearing a role removes everyone in it.
+    IF v_role = 'RUNNER' OR v_effective_user_id IS NULL THEN
+      DELETE FROM `RunParticipant`
+      WHERE runId = p_run_id
+        AND role = v_role
+        AND (v_effective_user_id IS NULL OR userId <> v_effective_user_id);
+    END IF;
+
+    IF v_effective_user_id IS NOT NULL THEN
+      INSERT IGNORE INTO `RunParticipant` (id, runId, userId, role, createdAt)
+      VALUES (UUID(), p_run_id, v_effective_user_id, v_role, CURRENT_TIMESTAMP(3));
+    END IF;
+
+    IF v_role = 'RUNNER' THEN
+      UPDATE `Run`
+      SET runnerId = v_effective_user_id
+      WHERE id = p_run_id
+        AND companyId = p_company_id;
+    END IF;
   END IF;
 
   SELECT
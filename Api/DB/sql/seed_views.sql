@@ -172,6 +172,9 @@ SELECT
   pe.total,
   pe.isPicked as is_picked,
   pe.pickedAt,
+  pe.pickedCount as picked_count,
+  pe.shortageCount as shortage_count,
+  pe.shortageReason as shortage_reason,
   r.scheduledFor,
   r.companyId,
   r.status as run_status,
@@ -17,6 +17,8 @@ import { machinesRouter } from './routes/machines.js';
 import { locationsRouter } from './routes/locations.js';
 import { notesRouter } from './routes/notes.js';
 import { expiriesRouter } from './routes/expiries.js';
+import { runTemplatesRouter } from './routes/run-templates.js';
+import { startRunTemplateScheduler } from './routes/helpers/run-templates.js';
 
 const app = express();
 const defaultOrigins = ['http://localhost:4200'];
@@ -59,6 +61,7 @@ app.use('/api/analytics', analyticsRouter);
 app.use('/api/admin', adminRouter);
 app.use('/api/notes', notesRouter);
 app.use('/api/expiries', expiriesRouter);
+app.use('/api/run-templates', runTemplatesRouter);
 
 if (process.env.NODE_ENV !== 'production') {
   const { debugRouter } = await import('./routes/debug.js');
@@ -67,6 +70,7 @@ if (process.env.NODE_ENV !== 'production') {
 
 const port = process.env.PORT ? Number(process.env.PORT) : 3000;
 let server: ReturnType<typeof app.listen> | undefined;
+let stopRunTemplateScheduler: (() => void) | undefined;
 
 const start = async () => {
   try {
@@ -76,6 +80,7 @@ const start = async () => {
     server = app.listen(port, () => {
       console.log(`API listening on http://localhost:${port}`);
     });
+    stopRunTemplateScheduler = startRunTemplateScheduler();
   } catch (error) {
     console.error('Failed to connect to the database. Shutting down.');
     console.error(error);
@@ -86,6 +91,7 @@ const start = async () => {
 
 const shutdown = async () => {
   console.log('Shutting down API...');
+  stopRunTemplateScheduler?.();
   await prisma.$disconnect();
   if (server) {
     server.close(() => process.exit(0));
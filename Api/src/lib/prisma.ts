@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
 
 declare global {
   // eslint-disable-next-line no-var
@@ -15,3 +16,6 @@ export const prisma =
 if (process.env.NODE_ENV !== 'production') {
   globalThis.prisma = prisma;
 }
+
+// The client passed to interactive transaction callbacks.
+export type TransactionClient = Prisma.TransactionClient;
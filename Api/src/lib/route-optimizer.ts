@@ -0,0 +1,220 @@
+const EARTH_RADIUS_KM = 6371;
+const DEFAULT_AVERAGE_SPEED_KMH = 40;
+// Each minute of lateness costs as much as this many minutes of driving, so the optimiser only accepts a late
+// visit when every other order is worse.
+const LATE_PENALTY_WEIGHT = 100;
+const MAX_TWO_OPT_PASSES = 50;
+
+export type RoutePoint = {
+  latitude: number;
+  longitude: number;
+};
+
+export type RouteStop = RoutePoint & {
+  id: string;
+  // Minutes after local midnight; null when the location has no window on that side.
+  openingTimeMinutes: number | null;
+  closingTimeMinutes: number | null;
+  dwellTimeMinutes: number | null;
+};
+
+export type TravelMatrix = {
+  distanceKm: number[][];
+  durationMinutes: number[][];
+};
+
+// Supplies travel distances and times between points, indexed in the order given. The straight-line provider
+// below is the default; a road-distance service can implement the same interface.
+export interface TravelMatrixProvider {
+  buildMatrix(points: RoutePoint[]): Promise<TravelMatrix>;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const haversineDistanceKm = (from: RoutePoint, to: RoutePoint) => {
+  const latitudeDelta = toRadians(to.latitude - from.latitude);
+  const longitudeDelta = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(latitudeDelta / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(longitudeDelta / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+export const createStraightLineMatrixProvider = (
+  averageSpeedKmh = DEFAULT_AVERAGE_SPEED_KMH,
+): TravelMatrixProvider => ({
+  async buildMatrix(points) {
+    const distanceKm = points.map((from) => points.map((to) => haversineDistanceKm(from, to)));
+    return {
+      distanceKm,
+      durationMinutes: distanceKm.map((row) => row.map((distance) => (distance / averageSpeedKmh) * 60)),
+    };
+  },
+});
+
+export type RouteStopSchedule = {
+  id: string;
+  distanceKm: number;
+  travelMinutes: number;
+  arrivalMinutes: number;
+  waitMinutes: number;
+  serviceStartMinutes: number;
+  departureMinutes: number;
+  // Minutes past closing time that the visit finishes; 0 when it fits the window.
+  lateMinutes: number;
+};
+
+export type RoutePlan = {
+  stops: RouteStopSchedule[];
+  totalDistanceKm: number;
+  totalTravelMinutes: number;
+  totalWaitMinutes: number;
+  totalLateMinutes: number;
+  // Back at the depot when returnToDepot is set, otherwise leaving the last stop.
+  finishMinutes: number;
+  returnDistanceKm: number;
+};
+
+export type RouteOptimizationInput = {
+  depot: RoutePoint;
+  stops: RouteStop[];
+  departureMinutes: number;
+  returnToDepot?: boolean;
+  matrixProvider?: TravelMatrixProvider;
+};
+
+// Matrix indexes: 0 is the depot and stop i is i + 1.
+const scheduleRoute = (
+  order: number[],
+  stops: RouteStop[],
+  matrix: TravelMatrix,
+  departureMinutes: number,
+  returnToDepot: boolean,
+): RoutePlan => {
+  const scheduled: RouteStopSchedule[] = [];
+  let clock = departureMinutes;
+  let previous = 0;
+  let totalDistanceKm = 0;
+  let totalTravelMinutes = 0;
+  let totalWaitMinutes = 0;
+  let totalLateMinutes = 0;
+
+  for (const stopIndex of order) {
+    const stop = stops[stopIndex]!;
+    const matrixIndex = stopIndex + 1;
+    const distanceKm = matrix.distanceKm[previous]![matrixIndex]!;
+    const travelMinutes = matrix.durationMinutes[previous]![matrixIndex]!;
+    const arrivalMinutes = clock + travelMinutes;
+    const serviceStartMinutes = Math.max(arrivalMinutes, stop.openingTimeMinutes ?? arrivalMinutes);
+    const departure = serviceStartMinutes + (stop.dwellTimeMinutes ?? 0);
+    const lateMinutes = stop.closingTimeMinutes == null ? 0 : Math.max(0, departure - stop.closingTimeMinutes);
+
+    scheduled.push({
+      id: stop.id,
+      distanceKm,
+      travelMinutes,
+      arrivalMinutes,
+      waitMinutes: serviceStartMinutes - arrivalMinutes,
+      serviceStartMinutes,
+      departureMinutes: departure,
+      lateMinutes,
+    });
+    totalDistanceKm += distanceKm;
+    totalTravelMinutes += travelMinutes;
+    totalWaitMinutes += serviceStartMinutes - arrivalMinutes;
+    totalLateMinutes += lateMinutes;
+    clock = departure;
+    previous = matrixIndex;
+  }
+
+  const returnDistanceKm = returnToDepot && order.length ? matrix.distanceKm[previous]![0]! : 0;
+  if (returnToDepot && order.length) {
+    totalDistanceKm += returnDistanceKm;
+    totalTravelMinutes += matrix.durationMinutes[previous]![0]!;
+    clock += matrix.durationMinutes[previous]![0]!;
+  }
+
+  return {
+    stops: scheduled,
+    totalDistanceKm,
+    totalTravelMinutes,
+    totalWaitMinutes,
+    totalLateMinutes,
+    finishMinutes: clock,
+    returnDistanceKm,
+  };
+};
+
+// Waiting for a location to open counts like driving: both keep the runner from the next stop.
+const routeCost = (plan: RoutePlan) =>
+  plan.totalTravelMinutes + plan.totalWaitMinutes + plan.totalLateMinutes * LATE_PENALTY_WEIGHT;
+
+// Builds a starting order by always visiting whichever stop can be finished soonest from where the runner is,
+// with lateness penalised the same way as in routeCost.
+const nearestNeighbourOrder = (stops: RouteStop[], matrix: TravelMatrix, departureMinutes: number) => {
+  const remaining = new Set(stops.map((_, index) => index));
+  const order: number[] = [];
+  let clock = departureMinutes;
+  let previous = 0;
+
+  while (remaining.size) {
+    let best: { index: number; cost: number; departure: number } | null = null;
+    for (const index of remaining) {
+      const stop = stops[index]!;
+      const travel = matrix.durationMinutes[previous]![index + 1]!;
+      const arrival = clock + travel;
+      const serviceStart = Math.max(arrival, stop.openingTimeMinutes ?? arrival);
+      const departure = serviceStart + (stop.dwellTimeMinutes ?? 0);
+      const late = stop.closingTimeMinutes == null ? 0 : Math.max(0, departure - stop.closingTimeMinutes);
+      const cost = serviceStart - clock + late * LATE_PENALTY_WEIGHT;
+      if (!best || cost < best.cost) {
+        best = { index, cost, departure };
+      }
+    }
+    order.push(best!.index);
+    remaining.delete(best!.index);
+    clock = best!.departure;
+    previous = best!.index + 1;
+  }
+
+  return order;
+};
+
+// Orders stops to visit from the depot using nearest neighbour followed by 2-opt segment reversals. Time windows
+// are soft: an order that misses a window is returned with its lateness rather than rejected.
+export const optimizeRoute = async ({
+  depot,
+  stops,
+  departureMinutes,
+  returnToDepot = false,
+  matrixProvider = createStraightLineMatrixProvider(),
+}: RouteOptimizationInput): Promise<RoutePlan> => {
+  const matrix = await matrixProvider.buildMatrix([depot, ...stops]);
+
+  let order = nearestNeighbourOrder(stops, matrix, departureMinutes);
+  let bestPlan = scheduleRoute(order, stops, matrix, departureMinutes, returnToDepot);
+  let bestCost = routeCost(bestPlan);
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass += 1) {
+    let improved = false;
+    for (let i = 0; i < order.length - 1; i += 1) {
+      for (let j = i + 1; j < order.length; j += 1) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        const plan = scheduleRoute(candidate, stops, matrix, departureMinutes, returnToDepot);
+        const cost = routeCost(plan);
+        // The epsilon stops floating-point noise from swapping equivalent orders forever.
+        if (cost < bestCost - 1e-6) {
+          order = candidate;
+          bestPlan = plan;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) {
+      break;
+    }
+  }
+
+  return bestPlan;
+};
@@ -0,0 +1,64 @@
+import { EventEmitter } from 'node:events';
+
+export type RunEventType =
+  | 'pick.status'
+  | 'pick.override'
+  | 'pick.substituted'
+  | 'packing-session.started'
+  | 'packing-session.finished'
+  | 'packing-session.abandoned'
+  | 'packing-session.handed-off'
+  | 'packing-claims.changed'
+  | 'location.checked-in'
+  | 'location.checked-out'
+  | 'run.status';
+
+export type RunEvent = {
+  type: RunEventType;
+  runId: string;
+  occurredAt: string;
+  data: Record<string, unknown>;
+};
+
+export type RunEventListener = (event: RunEvent) => void;
+
+// Fan-out of run changes to live subscribers. Events are published after the change is committed and are not
+// stored, so a subscriber only sees what happens while it is connected.
+export interface RunEventBus {
+  publish(event: RunEvent): void;
+  // Returns a function that removes the listener.
+  subscribe(runId: string, listener: RunEventListener): () => void;
+}
+
+// Delivers events within this process only. Running several API instances needs a shared backend (e.g. Redis
+// pub/sub) behind the same interface.
+export const createInProcessRunEventBus = (): RunEventBus => {
+  const emitter = new EventEmitter();
+  // One listener per open stream; many packers can watch the same run.
+  emitter.setMaxListeners(0);
+
+  return {
+    publish(event) {
+      emitter.emit(event.runId, event);
+    },
+    subscribe(runId, listener) {
+      const safeListener: RunEventListener = (event) => {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error('Run event listener failed', error);
+        }
+      };
+      emitter.on(runId, safeListener);
+      return () => {
+        emitter.off(runId, safeListener);
+      };
+    },
+  };
+};
+
+export const runEventBus = createInProcessRunEventBus();
+
+export const publishRunEvent = (runId: string, type: RunEventType, data: Record<string, unknown>) => {
+  runEventBus.publish({ type, runId, occurredAt: new Date().toISOString(), data });
+};
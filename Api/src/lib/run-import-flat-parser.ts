@@ -0,0 +1,360 @@
+import pkg from 'exceljs';
+import { Readable } from 'stream';
+import {
+  deriveRunDate,
+  flattenCoilItems,
+  flattenPickEntries,
+  normalizeString,
+  parseDate,
+  parseOptionalNumber,
+} from './run-import-parser.js';
+import type {
+  ParsedCoilItemRow,
+  ParsedRunLocation,
+  ParsedRunMachine,
+  ParsedRunWorkbook,
+  RunImportIssue,
+  RunImportIssueSeverity,
+} from '../types/run-import.js';
+
+const { Workbook } = pkg;
+type Worksheet = pkg.Worksheet;
+
+export type FlatRunTableFormat = 'csv' | 'xlsx';
+
+type FlatColumn =
+  | 'location'
+  | 'address'
+  | 'machineCode'
+  | 'machineDescription'
+  | 'machineType'
+  | 'coil'
+  | 'skuCode'
+  | 'skuName'
+  | 'skuType'
+  | 'category'
+  | 'current'
+  | 'par'
+  | 'need'
+  | 'forecast'
+  | 'total'
+  | 'notes'
+  | 'runDate';
+
+// Accepted header spellings, compared after lower-casing and stripping everything but letters and digits.
+const COLUMN_ALIASES: Record<FlatColumn, string[]> = {
+  location: ['location', 'locationname'],
+  address: ['address', 'locationaddress'],
+  machineCode: ['machinecode', 'machine'],
+  machineDescription: ['machinedescription', 'machinename', 'description'],
+  machineType: ['machinetype'],
+  coil: ['coil', 'coilcode'],
+  skuCode: ['skucode', 'sku', 'itemcode'],
+  skuName: ['skuname', 'itemname', 'name'],
+  skuType: ['type', 'skutype', 'itemtype'],
+  category: ['category', 'skucategory'],
+  current: ['current'],
+  par: ['par'],
+  need: ['need'],
+  forecast: ['forecast'],
+  total: ['total'],
+  notes: ['notes', 'note'],
+  runDate: ['rundate', 'date'],
+};
+
+const REQUIRED_COLUMNS: Partial<Record<FlatColumn, string>> = {
+  location: 'Location',
+  machineCode: 'Machine Code',
+  coil: 'Coil',
+  skuCode: 'SKU Code',
+  total: 'Total',
+};
+
+type FlatCell = string | number | Date | null;
+type FlatRow = FlatCell[];
+
+type LocationGroup = {
+  location: ParsedRunLocation;
+  machines: Map<string, ParsedRunMachine>;
+};
+
+// Parses a single table with one row per coil item into the same shape as the multi-sheet workbook parser.
+export const parseFlatRunTable = async (
+  buffer: Buffer,
+  format: FlatRunTableFormat,
+  { skuCategories = new Map() }: { skuCategories?: Map<string, string> } = {},
+): Promise<ParsedRunWorkbook> => {
+  const issues: RunImportIssue[] = [];
+  const workbook = new Workbook();
+  let worksheet: Worksheet | undefined;
+
+  try {
+    if (format === 'csv') {
+      // Keep every value as text; the default mapper guesses numbers and US-style dates.
+      worksheet = await workbook.csv.read(Readable.from(buffer), {
+        sheetName: 'CSV',
+        map: (value: unknown) => value,
+      });
+    } else {
+      await workbook.xlsx.read(Readable.from(buffer));
+      worksheet = workbook.worksheets[0];
+    }
+  } catch (error) {
+    issues.push({
+      severity: 'error',
+      sheetName: null,
+      row: null,
+      column: null,
+      message: `Unable to read ${format === 'csv' ? 'CSV file' : 'workbook'}: ${(error as Error).message}`,
+    });
+    return { run: null, issues, skuCategories: [], planogram: [] };
+  }
+
+  if (!worksheet) {
+    return { run: null, issues, skuCategories: [], planogram: [] };
+  }
+
+  const sheetName = worksheet.name || null;
+  const rows = readFlatRows(worksheet);
+  const header = rows[0];
+  if (!header) {
+    return { run: null, issues, skuCategories: [], planogram: [] };
+  }
+
+  const columns = resolveColumns(header.cells);
+  const missingColumns = Object.entries(REQUIRED_COLUMNS)
+    .filter(([column]) => columns[column as FlatColumn] === undefined)
+    .map(([, label]) => label);
+  if (missingColumns.length) {
+    issues.push({
+      severity: 'error',
+      sheetName,
+      row: header.rowNumber,
+      column: null,
+      message: `Missing required column(s): ${missingColumns.join(', ')}.`,
+    });
+    return { run: null, issues, skuCategories: [], planogram: [] };
+  }
+
+  const groups = new Map<string, LocationGroup>();
+
+  rows.slice(1).forEach(({ cells, rowNumber }) => {
+    const report = (column: FlatColumn | null, severity: RunImportIssueSeverity, message: string) => {
+      const index = column === null ? undefined : columns[column];
+      issues.push({
+        severity,
+        sheetName,
+        row: rowNumber,
+        column: index === undefined ? null : index + 1,
+        message,
+      });
+    };
+    const readText = (column: FlatColumn) => {
+      const index = columns[column];
+      const value = index === undefined ? null : cells[index];
+      return value instanceof Date ? null : normalizeString(value);
+    };
+    const readNumber = (column: FlatColumn, label: string, severity: RunImportIssueSeverity) => {
+      const index = columns[column];
+      const value = index === undefined ? null : cells[index];
+      return parseOptionalNumber(value instanceof Date ? null : value, (raw) => {
+        report(column, severity, `${label} value "${raw}" is not a number.`);
+      });
+    };
+
+    if (cells.every((cell) => cell === null || (typeof cell === 'string' && !cell.trim()))) {
+      return;
+    }
+
+    const total = readNumber('total', 'Total', 'error');
+    // Rows without a count never become pick entries, so missing identifiers only block the import when it matters.
+    const missingSeverity: RunImportIssueSeverity = total ? 'error' : 'warning';
+
+    const locationName = readText('location');
+    const machineCode = readText('machineCode');
+    const coilCode = readText('coil');
+    const skuCode = readText('skuCode');
+    const missing = [
+      locationName ? null : 'location',
+      machineCode ? null : 'machine code',
+      coilCode ? null : 'coil',
+      skuCode ? null : 'SKU code',
+    ].filter((label): label is string => label !== null);
+    if (!locationName || !machineCode || !coilCode || !skuCode) {
+      report(null, missingSeverity, `Row is missing ${missing.join(', ')}.`);
+      return;
+    }
+
+    const runDate = readRunDate(columns.runDate === undefined ? null : cells[columns.runDate] ?? null, (raw) => {
+      report('runDate', 'warning', `Unable to read run date "${raw}".`);
+    });
+
+    const group = getLocationGroup(groups, locationName, readText('address'), runDate);
+    const machine = getMachine(group, {
+      machineCode,
+      machineName: readText('machineDescription') ?? '',
+      machineTypeName: readText('machineType'),
+      runDate,
+    });
+
+    const coilItem: ParsedCoilItemRow = {
+      coilCode,
+      sku: {
+        code: skuCode,
+        name: readText('skuName') ?? '',
+        type: readText('skuType'),
+        // Stored company mappings win over the row, matching the workbook parser.
+        category: skuCategories.get(skuCode.toLowerCase()) ?? readText('category'),
+      },
+      current: readNumber('current', 'Current', 'warning'),
+      par: readNumber('par', 'Par', 'error'),
+      need: readNumber('need', 'Need', 'warning'),
+      forecast: readNumber('forecast', 'Forecast', 'warning'),
+      total,
+      notes: readText('notes'),
+    };
+    machine.coilItems.push(coilItem);
+  });
+
+  const locations = Array.from(groups.values()).map((group) => ({
+    ...group.location,
+    machines: Array.from(group.machines.values()),
+  }));
+
+  if (!locations.length) {
+    return { run: null, issues, skuCategories: [], planogram: [] };
+  }
+
+  const machines = locations.flatMap((location) => location.machines);
+  return {
+    run: {
+      runDate: deriveRunDate(locations),
+      pickEntries: flattenPickEntries(machines),
+    },
+    issues,
+    skuCategories: [],
+    planogram: flattenCoilItems(machines),
+  };
+};
+
+const readFlatRows = (worksheet: Worksheet): Array<{ cells: FlatRow; rowNumber: number }> => {
+  const rows: Array<{ cells: FlatRow; rowNumber: number }> = [];
+  worksheet.eachRow((row: any, rowNumber: number) => {
+    const cells: FlatRow = [];
+    row.eachCell((cell: any, colNumber: number) => {
+      const value = cell.value;
+      if (value instanceof Date || typeof value === 'number') {
+        cells[colNumber - 1] = value;
+      } else {
+        cells[colNumber - 1] = value === null || value === undefined ? null : cell.text ?? String(value);
+      }
+    });
+    for (let index = 0; index < cells.length; index += 1) {
+      if (cells[index] === undefined) {
+        cells[index] = null;
+      }
+    }
+    rows.push({ cells, rowNumber });
+  });
+  return rows;
+};
+
+const normalizeHeader = (value: FlatCell): string =>
+  typeof value === 'string' ? value.toLowerCase().replace(/[^a-z0-9]/g, '') : '';
+
+const resolveColumns = (header: FlatRow): Partial<Record<FlatColumn, number>> => {
+  const columns: Partial<Record<FlatColumn, number>> = {};
+  const normalized = header.map(normalizeHeader);
+  (Object.keys(COLUMN_ALIASES) as FlatColumn[]).forEach((column) => {
+    const index = normalized.findIndex((value) => value && COLUMN_ALIASES[column].includes(value));
+    if (index !== -1) {
+      columns[column] = index;
+    }
+  });
+  return columns;
+};
+
+const readRunDate = (value: FlatCell, onInvalid: (raw: string) => void): Date | null => {
+  if (value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime())
+      ? null
+      : new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+  }
+
+  const raw = String(value).trim();
+  if (!raw) {
+    return null;
+  }
+
+  const isoMatch = raw.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (isoMatch) {
+    const [, year = '', month = '', day = ''] = isoMatch;
+    return parseDate(`${day}/${month}/${year}`, () => onInvalid(raw));
+  }
+  return parseDate(raw, () => onInvalid(raw));
+};
+
+const getLocationGroup = (
+  groups: Map<string, LocationGroup>,
+  name: string,
+  address: string | null,
+  runDate: Date | null,
+): LocationGroup => {
+  const key = name.toLowerCase();
+  let group = groups.get(key);
+  if (!group) {
+    group = {
+      location: { sheetName: name, name, address: address ?? '', runDate, machines: [] },
+      machines: new Map(),
+    };
+    groups.set(key, group);
+    return group;
+  }
+
+  if (!group.location.address && address) {
+    group.location.address = address;
+    group.machines.forEach((machine) => {
+      if (machine.location) {
+        machine.location.address = address;
+      }
+    });
+  }
+  if (runDate && (!group.location.runDate || runDate.getTime() < group.location.runDate.getTime())) {
+    group.location.runDate = runDate;
+  }
+  return group;
+};
+
+const getMachine = (
+  group: LocationGroup,
+  {
+    machineCode,
+    machineName,
+    machineTypeName,
+    runDate,
+  }: { machineCode: string; machineName: string; machineTypeName: string | null; runDate: Date | null },
+): ParsedRunMachine => {
+  const existing = group.machines.get(machineCode);
+  if (existing) {
+    return existing;
+  }
+
+  const { name, address } = group.location;
+  const machine: ParsedRunMachine = {
+    locationName: name,
+    machineCode,
+    machineName,
+    runDate,
+    location: {
+      name,
+      address: address ? address : null,
+    },
+    machineType: machineTypeName ? { name: machineTypeName, category: null } : null,
+    coilItems: [],
+  };
+  group.machines.set(machineCode, machine);
+  return machine;
+};
@@ -16,51 +16,138 @@ import type {
   ParsedMachineLocation,
   ParsedMachineType,
   ParsedCoil,
+  RunImportColumn,
+  RunImportIssue,
+  RunImportIssueSeverity,
+  RunImportLayout,
+  ParsedSkuCategoryMapping,
 } from '../types/run-import.js';
 
-const MACHINE_HEADER_MARKER = ' - Machine ';
-const LOCATION_PREFIX = 'Location:';
+// The layout of the vending management export the importer was first built for.
+export const DEFAULT_RUN_IMPORT_LAYOUT: RunImportLayout = {
+  locationPrefix: 'Location:',
+  machineHeaderMarker: ' - Machine ',
+  coilHeaderLabel: 'Coil',
+  referenceSheetCount: 1,
+  columns: {
+    coil: 5,
+    sku: 6,
+    current: 7,
+    par: 8,
+    need: 9,
+    forecast: 10,
+    total: 11,
+    notes: 12,
+  },
+};
 
 type SheetRow = Array<string | number | null | undefined>;
 
-export const parseRunWorkbook = async (workbookBuffer: Buffer): Promise<ParsedRunWorkbook> => {
+type IssueReporter = (severity: RunImportIssueSeverity, message: string) => void;
+
+// Zero-based positions of the coil table columns.
+type ColumnIndexes = Record<Exclude<RunImportColumn, 'notes'>, number> & { notes: number | null };
+
+type SheetContext = {
+  sheetName: string;
+  // Worksheet row numbers for each collected row; exceljs skips empty rows so indices drift.
+  rowNumbers: number[];
+  issues: RunImportIssue[];
+  layout: RunImportLayout;
+  columns: ColumnIndexes;
+  // Lower-cased SKU code to category, from the company's stored mappings and the workbook's category sheet.
+  categoryMap: Map<string, string>;
+};
+
+export type ParseRunWorkbookOptions = {
+  layout?: RunImportLayout;
+  /** Stored company mappings keyed by lower-cased SKU code; these win over the workbook's category sheet. */
+  skuCategories?: Map<string, string>;
+};
+
+const toColumnIndexes = ({ columns }: RunImportLayout): ColumnIndexes => ({
+  coil: columns.coil - 1,
+  sku: columns.sku - 1,
+  current: columns.current - 1,
+  par: columns.par - 1,
+  need: columns.need - 1,
+  forecast: columns.forecast - 1,
+  total: columns.total - 1,
+  notes: columns.notes === null ? null : columns.notes - 1,
+});
+
+export const getBlockingIssues = (issues: RunImportIssue[]): RunImportIssue[] =>
+  issues.filter((issue) => issue.severity === 'error');
+
+export const parseRunWorkbook = async (
+  workbookBuffer: Buffer,
+  { layout = DEFAULT_RUN_IMPORT_LAYOUT, skuCategories = new Map() }: ParseRunWorkbookOptions = {},
+): Promise<ParsedRunWorkbook> => {
   const workbook = new Workbook();
-  const stream = Readable.from(workbookBuffer);
-  await workbook.xlsx.read(stream);
+  const issues: RunImportIssue[] = [];
+  try {
+    const stream = Readable.from(workbookBuffer);
+    await workbook.xlsx.read(stream);
+  } catch (error) {
+    issues.push({
+      severity: 'error',
+      sheetName: null,
+      row: null,
+      column: null,
+      message: `Unable to read workbook: ${(error as Error).message}`,
+    });
+    return { run: null, issues, skuCategories: [], planogram: [] };
+  }
   const locations: ParsedRunLocation[] = [];
-  
-  // Extract category from first sheet
-  const firstWorksheet = workbook.worksheets[0];
-  const globalCategory = firstWorksheet ? await extractCategoryFromSheet(firstWorksheet) : null;
 
-  workbook.worksheets.slice(1).forEach((worksheet: Worksheet) => {
+  // Extract category from first sheet
+  const firstWorksheet = layout.referenceSheetCount > 0 ? workbook.worksheets[0] : undefined;
+  const { mappings: sheetCategories, defaultCategory: globalCategory } = firstWorksheet
+    ? extractCategoryFromSheet(firstWorksheet)
+    : { mappings: [], defaultCategory: null };
+  const categoryMap = new Map<string, string>([
+    ...sheetCategories.map((mapping): [string, string] => [mapping.skuCode.toLowerCase(), mapping.category]),
+    ...skuCategories,
+  ]);
+  const columns = toColumnIndexes(layout);
+
+  workbook.worksheets.slice(layout.referenceSheetCount).forEach((worksheet: Worksheet) => {
     if (!worksheet) {
       return;
     }
-    const location = parseLocationSheet(worksheet, worksheet.name || '', globalCategory);
+    const context: SheetContext = {
+      sheetName: worksheet.name || '',
+      rowNumbers: [],
+      issues,
+      layout,
+      columns,
+      categoryMap,
+    };
+    const location = parseLocationSheet(worksheet, globalCategory, context);
     if (location) {
       locations.push(location);
     }
   });
 
   if (!locations.length) {
-    return { run: null };
+    return { run: null, issues, skuCategories: sheetCategories, planogram: [] };
   }
 
   const machines = locations.flatMap((location) => location.machines);
-  const pickEntries = flattenPickEntries(machines);
+  const planogram = flattenCoilItems(machines);
   const runDate = deriveRunDate(locations);
 
   const run: ParsedRun = {
     runDate,
-    pickEntries,
+    pickEntries: toPickEntries(planogram),
   };
 
-  return { run };
+  return { run, issues, skuCategories: sheetCategories, planogram };
 };
 
-const parseLocationSheet = (worksheet: Worksheet, sheetName: string, globalCategory: string | null): ParsedRunLocation | null => {
+const readSheetRows = (worksheet: Worksheet): { rows: SheetRow[]; rowNumbers: number[] } => {
   const rows: SheetRow[] = [];
+  const rowNumbers: number[] = [];
   worksheet.eachRow((row: any, rowNumber: number) => {
     if (rowNumber > 0) { // Skip header row in exceljs
       const rowData: SheetRow = [];
@@ -72,19 +159,44 @@ const parseLocationSheet = (worksheet: Worksheet, sheetName: string, globalCateg
         rowData.push('');
       }
       rows.push(rowData);
+      rowNumbers.push(rowNumber);
     }
   });
+  return { rows, rowNumbers };
+};
+
+const reportAt =
+  (context: SheetContext, rowIndex: number, columnIndex: number | null): IssueReporter =>
+  (severity, message) => {
+    context.issues.push({
+      severity,
+      sheetName: context.sheetName,
+      row: context.rowNumbers[rowIndex] ?? rowIndex + 1,
+      column: columnIndex === null ? null : columnIndex + 1,
+      message,
+    });
+  };
+
+const parseLocationSheet = (
+  worksheet: Worksheet,
+  globalCategory: string | null,
+  context: SheetContext,
+): ParsedRunLocation | null => {
+  const { rows, rowNumbers } = readSheetRows(worksheet);
+  context.rowNumbers = rowNumbers;
+  const { locationPrefix, machineHeaderMarker } = context.layout;
 
   if (!rows.length) {
     return null;
   }
 
   const locationHeader = getCellAsString(rows[0], 0);
-  if (!locationHeader.startsWith(LOCATION_PREFIX)) {
+  if (!locationHeader.startsWith(locationPrefix)) {
+    reportAt(context, 0, 0)('warning', `Sheet was skipped because it does not start with a "${locationPrefix}" header.`);
     return null;
   }
 
-  const { locationName, runDate } = parseLocationHeader(locationHeader);
+  const { locationName, runDate } = parseLocationHeader(locationHeader, locationPrefix, reportAt(context, 0, 0));
   const address = getCellAsString(rows[1], 0);
 
   const machines: ParsedRunMachine[] = [];
@@ -99,15 +211,19 @@ const parseLocationSheet = (worksheet: Worksheet, sheetName: string, globalCateg
       continue;
     }
 
-    if (headerValue.includes(MACHINE_HEADER_MARKER)) {
+    if (headerValue.includes(machineHeaderMarker)) {
       const { machine, nextIndex } = parseMachineBlock({
         rows,
         startIndex: index,
         locationName,
         locationAddress: address,
         globalCategory,
+        context,
       });
-      machines.push(machine);
+      if (machine) {
+        // Machines without their own date are serviced on the location's run date.
+        machines.push({ ...machine, runDate: machine.runDate ?? runDate });
+      }
       index = nextIndex;
       continue;
     }
@@ -116,7 +232,7 @@ const parseLocationSheet = (worksheet: Worksheet, sheetName: string, globalCateg
   }
 
   return {
-    sheetName,
+    sheetName: context.sheetName,
     name: locationName,
     address,
     runDate,
@@ -124,27 +240,52 @@ const parseLocationSheet = (worksheet: Worksheet, sheetName: string, globalCateg
   };
 };
 
+const skipToNextMachineHeader = (rows: SheetRow[], startIndex: number, marker: string): number => {
+  let cursor = startIndex;
+  while (cursor < rows.length && !getCellAsString(rows[cursor], 0).includes(marker)) {
+    cursor += 1;
+  }
+  return cursor;
+};
+
 const parseMachineBlock = ({
   rows,
   startIndex,
   locationName,
   locationAddress,
   globalCategory,
+  context,
 }: {
   rows: SheetRow[];
   startIndex: number;
   locationName: string;
   locationAddress: string;
   globalCategory: string | null;
-}): { machine: ParsedRunMachine; nextIndex: number } => {
+  context: SheetContext;
+}): { machine: ParsedRunMachine | null; nextIndex: number } => {
   const machineHeaderRow = rows[startIndex];
   const machineInfoRow = rows[startIndex + 1] ?? [];
 
   const machineHeaderValue = getCellAsString(machineHeaderRow, 0);
   const machineInfoValue = getCellAsString(machineInfoRow, 0);
 
-  const machineCode = parseMachineCode(machineHeaderValue, locationName);
-  const { machineName, category, machineTypeName, runDate } = parseMachineInfo(machineInfoValue, globalCategory);
+  const { machineHeaderMarker, coilHeaderLabel } = context.layout;
+  const { columns } = context;
+
+  const machineCode = parseMachineCode(
+    machineHeaderValue,
+    machineHeaderMarker,
+    locationName,
+    reportAt(context, startIndex, 0),
+  );
+  if (!machineCode) {
+    return { machine: null, nextIndex: skipToNextMachineHeader(rows, startIndex + 1, machineHeaderMarker) };
+  }
+  const { machineName, category, machineTypeName, runDate } = parseMachineInfo(
+    machineInfoValue,
+    globalCategory,
+    reportAt(context, startIndex + 1, 0),
+  );
 
   let cursor = startIndex + 2;
 
@@ -155,9 +296,14 @@ const parseMachineBlock = ({
 
   // Expect the coil header row with known column headings
   const columnsRow: SheetRow = rows[cursor] ?? [];
-  const isCoilHeaderRow = getCellAsString(columnsRow, 4).toLowerCase() === 'coil';
+  const isCoilHeaderRow =
+    getCellAsString(columnsRow, columns.coil).toLowerCase() === coilHeaderLabel.trim().toLowerCase();
   if (!isCoilHeaderRow) {
-    throw new Error(`Unexpected sheet format: missing coil header near row ${cursor + 1}`);
+    reportAt(context, cursor, columns.coil)(
+      'error',
+      `Unexpected sheet format: missing coil header for machine ${machineCode}.`,
+    );
+    return { machine: null, nextIndex: skipToNextMachineHeader(rows, cursor, machineHeaderMarker) };
   }
   cursor += 1;
 
@@ -168,14 +314,14 @@ const parseMachineBlock = ({
     const firstCell = getCellAsString(row, 0);
 
     // A new machine block begins
-    if (firstCell.includes(MACHINE_HEADER_MARKER)) {
+    if (firstCell.includes(machineHeaderMarker)) {
       break;
     }
 
-    const coilCode = getCellAsString(row, 4);
-    const skuRaw = getCellAsString(row, 5);
+    const coilCode = getCellAsString(row, columns.coil);
+    const skuRaw = getCellAsString(row, columns.sku);
 
-    const isEndOfSection = !coilCode && !skuRaw && isRowMostlyEmpty(row);
+    const isEndOfSection = !coilCode && !skuRaw && isRowMostlyEmpty(row, getLastColumnIndex(columns));
     if (isEndOfSection) {
       cursor += 1;
       // Skip any blank rows before the next section
@@ -186,7 +332,10 @@ const parseMachineBlock = ({
     }
 
     if (coilCode || skuRaw) {
-      coilItems.push(parseCoilItem(row, globalCategory));
+      const coilItem = parseCoilItem(row, cursor, globalCategory, context);
+      if (coilItem) {
+        coilItems.push(coilItem);
+      }
     }
 
     cursor += 1;
@@ -215,66 +364,94 @@ const parseMachineBlock = ({
   };
 };
 
-const parseCoilItem = (row: SheetRow, globalCategory: string | null): ParsedCoilItemRow => {
-  const coilCode = getCellAsString(row, 4);
-  const sku = parseSku(getCellAsString(row, 5), globalCategory);
+const parseCoilItem = (
+  row: SheetRow,
+  rowIndex: number,
+  globalCategory: string | null,
+  context: SheetContext,
+): ParsedCoilItemRow | null => {
+  const readNumber = (columnIndex: number, label: string, severity: RunImportIssueSeverity) =>
+    parseOptionalNumber(row[columnIndex], (raw) => {
+      reportAt(context, rowIndex, columnIndex)(severity, `${label} value "${raw}" is not a number.`);
+    });
+
+  const { columns } = context;
+  const coilCode = getCellAsString(row, columns.coil);
+  const skuRaw = getCellAsString(row, columns.sku);
+  const sku = parseSku(skuRaw, globalCategory, context.categoryMap, reportAt(context, rowIndex, columns.sku));
+  const total = readNumber(columns.total, 'Total', 'error');
+
+  // Rows without a count never become pick entries, so a missing code only blocks the import when it matters.
+  const missingCodeSeverity: RunImportIssueSeverity = total ? 'error' : 'warning';
+  if (!coilCode) {
+    reportAt(context, rowIndex, columns.coil)(missingCodeSeverity, `SKU "${skuRaw}" has no coil code.`);
+    return null;
+  }
+  if (!sku.code) {
+    if (!skuRaw) {
+      reportAt(context, rowIndex, columns.sku)(missingCodeSeverity, `Coil ${coilCode} has no SKU.`);
+    }
+    return null;
+  }
 
   return {
     coilCode,
     sku,
-    current: parseOptionalNumber(row[6]),
-    par: parseOptionalNumber(row[7]),
-    need: parseOptionalNumber(row[8]),
-    forecast: parseOptionalNumber(row[9]),
-    total: parseOptionalNumber(row[10]),
-    notes: normalizeString(row[11]),
+    current: readNumber(columns.current, 'Current', 'warning'),
+    par: readNumber(columns.par, 'Par', 'error'),
+    need: readNumber(columns.need, 'Need', 'warning'),
+    forecast: readNumber(columns.forecast, 'Forecast', 'warning'),
+    total,
+    notes: columns.notes === null ? null : normalizeString(row[columns.notes]),
   };
 };
 
-const flattenPickEntries = (machines: ParsedRunMachine[]): ParsedPickEntry[] => {
+// Keeps only the coil items that have something to pick.
+const toPickEntries = (coilItems: ParsedPickEntry[]): ParsedPickEntry[] =>
+  coilItems.filter((entry) => entry.total !== null && entry.total !== 0);
+
+export const flattenPickEntries = (machines: ParsedRunMachine[]): ParsedPickEntry[] =>
+  toPickEntries(flattenCoilItems(machines));
+
+export const flattenCoilItems = (machines: ParsedRunMachine[]): ParsedPickEntry[] => {
   return machines.flatMap((machine) =>
-    machine.coilItems
-      .filter((coilItem) => {
-        const count = coilItem.total ?? null;
-        return count !== null && count !== 0;
-      })
-      .map((coilItem) => {
-        const machineType: ParsedMachineType | null = machine.machineType
-          ? { ...machine.machineType }
-          : null;
-        const location: ParsedMachineLocation | null = machine.location
-          ? { ...machine.location }
-          : null;
-        const machineSummary: ParsedMachine = {
-          code: machine.machineCode,
-          name: machine.machineName,
-          runDate: machine.runDate,
-          machineType,
-          location,
-        };
-        const coil: ParsedCoil = {
-          code: coilItem.coilCode,
-          machine: machineSummary,
-        };
-        const coilItemSummary: ParsedCoilItem = {
-          sku: { ...coilItem.sku },
-          coil,
-        };
-        return {
-          coilItem: coilItemSummary,
-          count: coilItem.total ?? null,
-          current: coilItem.current ?? null,
-          par: coilItem.par ?? null,
-          need: coilItem.need ?? null,
-          forecast: coilItem.forecast ?? null,
-          total: coilItem.total ?? null,
-          notes: coilItem.notes ?? null,
-        };
-      }),
+    machine.coilItems.map((coilItem) => {
+      const machineType: ParsedMachineType | null = machine.machineType
+        ? { ...machine.machineType }
+        : null;
+      const location: ParsedMachineLocation | null = machine.location
+        ? { ...machine.location }
+        : null;
+      const machineSummary: ParsedMachine = {
+        code: machine.machineCode,
+        name: machine.machineName,
+        runDate: machine.runDate,
+        machineType,
+        location,
+      };
+      const coil: ParsedCoil = {
+        code: coilItem.coilCode,
+        machine: machineSummary,
+      };
+      const coilItemSummary: ParsedCoilItem = {
+        sku: { ...coilItem.sku },
+        coil,
+      };
+      return {
+        coilItem: coilItemSummary,
+        count: coilItem.total ?? null,
+        current: coilItem.current ?? null,
+        par: coilItem.par ?? null,
+        need: coilItem.need ?? null,
+        forecast: coilItem.forecast ?? null,
+        total: coilItem.total ?? null,
+        notes: coilItem.notes ?? null,
+      };
+    }),
   );
 };
 
-const deriveRunDate = (locations: ParsedRunLocation[]): Date | null => {
+export const deriveRunDate = (locations: ParsedRunLocation[]): Date | null => {
   const dates = locations
     .map((location) => location.runDate)
     .concat(locations.flatMap((location) => location.machines.map((machine) => machine.runDate)))
@@ -288,7 +465,43 @@ const deriveRunDate = (locations: ParsedRunLocation[]): Date | null => {
   return earliest ?? null;
 };
 
-const parseSku = (value: string, globalCategory: string | null): ParsedSku => {
+// Splits a parsed run into one run per machine run date. Entries without any date join the earliest run,
+// which is the date the whole workbook would have been scheduled for before splitting.
+export const splitRunByDate = (run: ParsedRun): ParsedRun[] => {
+  const toKey = (date: Date | null) =>
+    date && !Number.isNaN(date.getTime()) ? date.toISOString().slice(0, 10) : null;
+
+  const keys = run.pickEntries
+    .map((entry) => toKey(entry.coilItem.coil.machine.runDate))
+    .filter((key): key is string => key !== null)
+    .sort();
+  const earliestKey = keys[0];
+  if (!earliestKey) {
+    return [run];
+  }
+
+  const groups = new Map<string, ParsedRun>();
+  run.pickEntries.forEach((entry) => {
+    const key = toKey(entry.coilItem.coil.machine.runDate) ?? earliestKey;
+    const group = groups.get(key);
+    if (group) {
+      group.pickEntries.push(entry);
+    } else {
+      groups.set(key, { runDate: new Date(`${key}T00:00:00.000Z`), pickEntries: [entry] });
+    }
+  });
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, group]) => group);
+};
+
+const parseSku = (
+  value: string,
+  globalCategory: string | null,
+  categoryMap: Map<string, string>,
+  report?: IssueReporter,
+): ParsedSku => {
   if (!value) {
     return { code: '', name: '', type: null, category: globalCategory };
   }
@@ -296,20 +509,18 @@ const parseSku = (value: string, globalCategory: string | null): ParsedSku => {
   const parts = value.split(' - ').map((item) => item.trim()).filter(Boolean);
 
   if (!parts.length) {
+    report?.('error', `Unable to read a SKU code from "${value}".`);
     return { code: '', name: '', type: null, category: globalCategory };
   }
 
   const [codeSegment, ...others] = parts;
   const code = codeSegment ?? '';
 
-  // Try to get category from the global mapping first
-  let category = globalCategory;
-  const categoryMap = (global as any).categoryMap as Map<string, string>;
-  if (categoryMap && categoryMap.has(code.toLowerCase())) {
-    category = categoryMap.get(code.toLowerCase())!;
-  }
+  // Try to get category from the SKU mapping first
+  const category = categoryMap.get(code.toLowerCase()) ?? globalCategory;
 
   if (!others.length) {
+    report?.('warning', `SKU "${code}" has no name; expected "code - name - type".`);
     return { code, name: '', type: null, category };
   }
 
@@ -326,8 +537,12 @@ const parseSku = (value: string, globalCategory: string | null): ParsedSku => {
   return { code, name, type, category };
 };
 
-const parseLocationHeader = (value: string): { locationName: string; runDate: Date | null } => {
-  const trimmed = value.replace(LOCATION_PREFIX, '').trim();
+const parseLocationHeader = (
+  value: string,
+  prefix: string,
+  report?: IssueReporter,
+): { locationName: string; runDate: Date | null } => {
+  const trimmed = value.replace(prefix, '').trim();
   const match = trimmed.match(/^(?<name>.+?)\s*\((?<date>[^)]+)\)$/);
 
   if (!match || !match.groups) {
@@ -336,14 +551,25 @@ const parseLocationHeader = (value: string): { locationName: string; runDate: Da
 
   const locationName = (match.groups.name ?? '').trim();
   const runDateString = match.groups.date ?? '';
-  return { locationName, runDate: parseDate(runDateString) };
+  return {
+    locationName,
+    runDate: parseDate(runDateString, () => {
+      report?.('warning', `Unable to read run date "${runDateString}" for location "${locationName}".`);
+    }),
+  };
 };
 
-const parseMachineCode = (value: string, locationName: string): string => {
-  const [, afterMarker = ''] = value.split(MACHINE_HEADER_MARKER);
+const parseMachineCode = (
+  value: string,
+  marker: string,
+  locationName: string,
+  report?: IssueReporter,
+): string | null => {
+  const [, afterMarker = ''] = value.split(marker);
   const code = afterMarker.trim();
   if (!code) {
-    throw new Error(`Unable to parse machine code for location "${locationName}" from "${value}"`);
+    report?.('error', `Unable to parse machine code for location "${locationName}" from "${value}".`);
+    return null;
   }
   return code;
 };
@@ -351,6 +577,7 @@ const parseMachineCode = (value: string, locationName: string): string => {
 const parseMachineInfo = (
   value: string,
   globalCategory: string | null,
+  report?: IssueReporter,
 ): {
   machineName: string;
   category: string | null;
@@ -369,7 +596,11 @@ const parseMachineInfo = (
   const runDateMatch = value.match(/\((\d{1,2}\/\d{1,2}\/\d{4})\)\s*$/);
   const runDateIndex = runDateMatch && typeof runDateMatch.index === 'number' ? runDateMatch.index : null;
   const runDateString = runDateMatch && runDateMatch[1] ? runDateMatch[1] : null;
-  const runDate = runDateString ? parseDate(runDateString) : null;
+  const runDate = runDateString
+    ? parseDate(runDateString, () => {
+        report?.('warning', `Unable to read machine run date "${runDateString}".`);
+      })
+    : null;
   let remaining = runDateIndex !== null ? value.slice(0, runDateIndex).trim() : value.trim();
 
   let machineTypeName: string | null = null;
@@ -391,9 +622,10 @@ const parseMachineInfo = (
   };
 };
 
-const parseDate = (value: string): Date | null => {
+export const parseDate = (value: string, onInvalid?: () => void): Date | null => {
   const parts = value.split('/');
   if (parts.length !== 3) {
+    onInvalid?.();
     return null;
   }
   const dayRaw = parts[0] ?? '';
@@ -403,16 +635,25 @@ const parseDate = (value: string): Date | null => {
   const month = Number.parseInt(monthRaw, 10);
   const year = Number.parseInt(yearRaw, 10);
   if (!Number.isFinite(day) || !Number.isFinite(month) || !Number.isFinite(year)) {
+    onInvalid?.();
     return null;
   }
   const isoString = `${year.toString().padStart(4, '0')}-${month.toString().padStart(2, '0')}-${day
     .toString()
     .padStart(2, '0')}T00:00:00.000Z`;
   const date = new Date(isoString);
-  return Number.isNaN(date.getTime()) ? null : date;
+  // Reject impossible calendar days such as 31/02 instead of letting them roll into the next month.
+  if (Number.isNaN(date.getTime()) || date.getUTCDate() !== day || date.getUTCMonth() + 1 !== month) {
+    onInvalid?.();
+    return null;
+  }
+  return date;
 };
 
-const parseOptionalNumber = (value: string | number | null | undefined): number | null => {
+export const parseOptionalNumber = (
+  value: string | number | null | undefined,
+  onInvalid?: (raw: string) => void,
+): number | null => {
   if (value === undefined || value === null) {
     return null;
   }
@@ -427,10 +668,14 @@ const parseOptionalNumber = (value: string | number | null | undefined): number
   }
 
   const parsed = Number(normalized.replace(/,/g, ''));
-  return Number.isFinite(parsed) ? parsed : null;
+  if (!Number.isFinite(parsed)) {
+    onInvalid?.(normalized);
+    return null;
+  }
+  return parsed;
 };
 
-const normalizeString = (value: string | number | null | undefined): string | null => {
+export const normalizeString = (value: string | number | null | undefined): string | null => {
   if (value === undefined || value === null) {
     return null;
   }
@@ -452,38 +697,31 @@ const isRowEmpty = (row: SheetRow | undefined): boolean => {
   return row.every((cell) => !normalizeString(cell));
 };
 
-const isRowMostlyEmpty = (row: SheetRow | undefined): boolean => {
+const isRowMostlyEmpty = (row: SheetRow | undefined, lastColumnIndex: number): boolean => {
   if (!row) {
     return true;
   }
-  const significantCells = row.filter((cell, idx) => idx <= 11).filter((cell) => normalizeString(cell));
+  const significantCells = row.filter((cell, idx) => idx <= lastColumnIndex).filter((cell) => normalizeString(cell));
   return significantCells.length === 0;
 };
 
-const extractCategoryFromSheet = async (worksheet: Worksheet): Promise<string | null> => {
-  const rows: SheetRow[] = [];
-  worksheet.eachRow((row: any, rowNumber: number) => {
-    if (rowNumber > 0) { // Skip header row in exceljs
-      const rowData: SheetRow = [];
-      row.eachCell((cell: any, colNumber: number) => {
-        rowData[colNumber - 1] = cell.value?.toString() || '';
-      });
-      // Fill empty cells to maintain consistent row length
-      while (rowData.length < worksheet.columnCount) {
-        rowData.push('');
-      }
-      rows.push(rowData);
-    }
-  });
+const getLastColumnIndex = (columns: ColumnIndexes): number =>
+  Math.max(...Object.values(columns).filter((index): index is number => index !== null));
+
+const extractCategoryFromSheet = (
+  worksheet: Worksheet,
+): { mappings: ParsedSkuCategoryMapping[]; defaultCategory: string | null } => {
+  const { rows, rowNumbers } = readSheetRows(worksheet);
+  const empty = { mappings: [], defaultCategory: null };
 
   if (!rows.length) {
-    return null;
+    return empty;
   }
 
   // Look for header row to find column indices
   let headerRow: SheetRow | null = null;
   let headerRowIndex = -1;
-  
+
   for (let i = 0; i < rows.length; i++) {
     const row = rows[i];
     const firstCell = getCellAsString(row, 0);
@@ -495,13 +733,13 @@ const extractCategoryFromSheet = async (worksheet: Worksheet): Promise<string |
   }
 
   if (!headerRow) {
-    return null;
+    return empty;
   }
 
   // Find column indices
   let itemCodeCol = -1;
   let categoryCol = -1;
-  
+
   for (let i = 0; i < headerRow.length; i++) {
     const cell = getCellAsString(headerRow, i).toLowerCase();
     if (cell.includes('item code')) {
@@ -512,26 +750,29 @@ const extractCategoryFromSheet = async (worksheet: Worksheet): Promise<string |
   }
 
   if (itemCodeCol === -1 || categoryCol === -1) {
-    return null;
+    return empty;
   }
 
-  // Create category mapping from all data rows
-  const categoryMap = new Map<string, string>();
-  
+  // Create category mapping from all data rows; a later row for the same code replaces an earlier one
+  const mappingsByCode = new Map<string, ParsedSkuCategoryMapping>();
+
   for (let i = headerRowIndex + 1; i < rows.length; i++) {
     const row = rows[i];
     const itemCode = getCellAsString(row, itemCodeCol);
     const category = getCellAsString(row, categoryCol);
-    
+
     if (itemCode && category) {
-      categoryMap.set(itemCode.trim().toLowerCase(), category.trim());
+      mappingsByCode.set(itemCode.toLowerCase(), {
+        skuCode: itemCode,
+        category,
+        sheetName: worksheet.name || '',
+        row: rowNumbers[i] ?? i + 1,
+      });
     }
   }
 
-  // Store the mapping globally for use during SKU parsing
-  (global as any).categoryMap = categoryMap;
-  
+  const mappings = Array.from(mappingsByCode.values());
+
   // Return a default category (first one found) for fallback
-  const categories = Array.from(categoryMap.values());
-  return categories.length > 0 ? (categories[0] || null) : null;
+  return { mappings, defaultCategory: mappings[0]?.category ?? null };
 };
@@ -0,0 +1,59 @@
+export type QueuedTask = () => Promise<void>;
+
+export interface CompanyTaskQueue {
+  enqueue(companyId: string, task: QueuedTask): void;
+  pendingCount(companyId: string): number;
+}
+
+// Runs tasks in-process with at most `concurrency` running per company; a busy company never holds up another.
+// Tasks are detached from the request that queued them, so they keep running after the client disconnects.
+export const createCompanyTaskQueue = (concurrency: number): CompanyTaskQueue => {
+  const pending = new Map<string, QueuedTask[]>();
+  const running = new Map<string, number>();
+
+  const drain = (companyId: string) => {
+    const queue = pending.get(companyId);
+    while (queue?.length && (running.get(companyId) ?? 0) < concurrency) {
+      const task = queue.shift()!;
+      running.set(companyId, (running.get(companyId) ?? 0) + 1);
+      // Start on the next tick so the caller can respond before any work begins.
+      setImmediate(() => {
+        task()
+          .catch((error) => {
+            console.error('Queued task failed', error);
+          })
+          .finally(() => {
+            const remaining = (running.get(companyId) ?? 1) - 1;
+            if (remaining > 0) {
+              running.set(companyId, remaining);
+            } else {
+              running.delete(companyId);
+            }
+            drain(companyId);
+          });
+      });
+    }
+    if (queue && !queue.length) {
+      pending.delete(companyId);
+    }
+  };
+
+  return {
+    enqueue(companyId, task) {
+      const queue = pending.get(companyId) ?? [];
+      queue.push(task);
+      pending.set(companyId, queue);
+      drain(companyId);
+    },
+    pendingCount(companyId) {
+      return pending.get(companyId)?.length ?? 0;
+    },
+  };
+};
+
+const readConcurrency = (value: string | undefined, fallback: number) => {
+  const parsed = value ? Number.parseInt(value, 10) : Number.NaN;
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const runImportQueue = createCompanyTaskQueue(readConcurrency(process.env.RUN_IMPORT_CONCURRENCY, 2));
@@ -0,0 +1,93 @@
+export type WorkUnit = {
+  // Units with different groups never share a package when keepGroupsApart is set.
+  group: string;
+  load: number;
+};
+
+export type WorkPackage<T extends WorkUnit> = {
+  group: string | null;
+  units: T[];
+  load: number;
+};
+
+export type WorkBalanceInput<T extends WorkUnit> = {
+  units: T[];
+  packageCount: number;
+  keepGroupsApart?: boolean;
+};
+
+// Shares packages out between groups by load: each group gets one, then every remaining package goes to whichever
+// group currently has the most load per package. A group never gets more packages than it has units.
+const allocatePackagesToGroups = <T extends WorkUnit>(groups: Map<string, T[]>, packageCount: number) => {
+  const allocation = new Map<string, number>();
+  const loads = new Map<string, number>();
+  groups.forEach((units, group) => {
+    allocation.set(group, 1);
+    loads.set(group, units.reduce((total, unit) => total + unit.load, 0));
+  });
+
+  for (let remaining = packageCount - groups.size; remaining > 0; remaining -= 1) {
+    let best: { group: string; share: number } | null = null;
+    for (const [group, count] of allocation) {
+      if (count >= groups.get(group)!.length) {
+        continue;
+      }
+      const share = loads.get(group)! / count;
+      if (!best || share > best.share) {
+        best = { group, share };
+      }
+    }
+    if (!best) {
+      break;
+    }
+    allocation.set(best.group, allocation.get(best.group)! + 1);
+  }
+
+  return allocation;
+};
+
+// Longest-processing-time-first: the heaviest unit goes to the lightest package. Ties go to the package with fewer
+// units, which spreads zero-load units (e.g. SKUs without a weight) instead of piling them into one package.
+const fillPackages = <T extends WorkUnit>(units: T[], packageCount: number, group: string | null) => {
+  const packages: WorkPackage<T>[] = Array.from({ length: packageCount }, () => ({ group, units: [], load: 0 }));
+  [...units]
+    .sort((a, b) => b.load - a.load)
+    .forEach((unit) => {
+      const target = packages.reduce((lightest, candidate) =>
+        candidate.load < lightest.load ||
+        (candidate.load === lightest.load && candidate.units.length < lightest.units.length)
+          ? candidate
+          : lightest,
+      );
+      target.units.push(unit);
+      target.load += unit.load;
+    });
+  return packages.filter((candidate) => candidate.units.length > 0);
+};
+
+// Splits indivisible units of work into up to packageCount packages of similar load. With keepGroupsApart each
+// package holds a single group, so packageCount must be at least the number of groups.
+export const balanceWorkPackages = <T extends WorkUnit>({
+  units,
+  packageCount,
+  keepGroupsApart = false,
+}: WorkBalanceInput<T>): WorkPackage<T>[] => {
+  if (!keepGroupsApart) {
+    return fillPackages(units, packageCount, null);
+  }
+
+  const groups = new Map<string, T[]>();
+  units.forEach((unit) => {
+    const list = groups.get(unit.group) ?? [];
+    list.push(unit);
+    groups.set(unit.group, list);
+  });
+  if (groups.size > packageCount) {
+    throw new RangeError(`Cannot keep ${groups.size} groups apart in ${packageCount} packages`);
+  }
+
+  const allocation = allocatePackagesToGroups(groups, packageCount);
+  return Array.from(groups.entries()).flatMap(([group, groupUnits]) =>
+    fillPackages(groupUnits, allocation.get(group)!, group),
+  );
+};
@@ -0,0 +1,39 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+export interface WorkbookStorage {
+  save(key: string, contents: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer | null>;
+}
+
+export const createLocalWorkbookStorage = (rootDir: string): WorkbookStorage => {
+  const resolveKey = (key: string) => {
+    const resolved = path.resolve(rootDir, key);
+    if (!resolved.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid workbook storage key: ${key}`);
+    }
+    return resolved;
+  };
+
+  return {
+    async save(key, contents) {
+      const target = resolveKey(key);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, contents);
+    },
+    async read(key) {
+      try {
+        return await readFile(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+  };
+};
+
+export const workbookStorage = createLocalWorkbookStorage(
+  process.env.RUN_IMPORT_STORAGE_DIR ?? path.resolve(process.cwd(), 'storage', 'run-imports'),
+);
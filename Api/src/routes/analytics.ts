@@ -27,6 +27,9 @@ const TOP_SKU_LIMIT_DEFAULT = 6;
 const TOP_SKU_LIMIT_MIN = 3;
 const TOP_SKU_LIMIT_MAX = 12;
 const MACHINE_PICK_LOOKBACK_DEFAULT = 14;
+const SHORTAGE_LOOKBACK_DEFAULT = 90;
+const SHORTAGE_LOOKBACK_MIN = 7;
+const SHORTAGE_LOOKBACK_MAX = 365;
 const DASHBOARD_MACHINE_TOUCH_WEEKS = 6;
 const DAY_IN_MS = 24 * 60 * 60 * 1000;
 const WEEK_IN_MS = 7 * DAY_IN_MS;
@@ -197,6 +200,21 @@ type WeeklyPickTotalRow = {
   total_items: bigint | number | string | null;
 };
 
+type SkuShortageRow = {
+  sku_id: string | null;
+  sku_code: string | null;
+  sku_name: string | null;
+  shortage_reason: string | null;
+  pick_count: bigint | number | string | null;
+  total_shortage: bigint | number | string | null;
+};
+
+type WeeklyShortageRow = {
+  week_start: string | Date | null;
+  shortage_reason: string | null;
+  total_shortage: bigint | number | string | null;
+};
+
 type DashboardAnalyticsSummary = {
   skuComparison: DashboardAnalyticsSkuComparison | null;
 };
@@ -560,6 +578,101 @@ router.get('/machines/pick-totals', setLogConfig({ level: 'minimal' }), async (r
   });
 });
 
+router.get('/shortages/summary', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  const context = await buildTimezoneContext(req, res);
+  if (!context) {
+    return;
+  }
+
+  const lookbackDays = parseShortageLookbackDays(req.query.lookbackDays);
+  const { rangeStart, rangeEnd } = buildTopSkuRange(context.timeZone, context.now, lookbackDays);
+  const rows = await fetchSkuShortageRows(context.companyId, rangeStart, rangeEnd);
+
+  const skus = new Map<
+    string,
+    {
+      skuId: string;
+      skuCode: string;
+      skuName: string;
+      shortPicks: number;
+      totalShortage: number;
+      reasons: Record<string, number>;
+    }
+  >();
+  const reasons = new Map<string, { reason: string; shortPicks: number; totalShortage: number }>();
+  rows
+    .filter((row) => row.sku_id && row.shortage_reason)
+    .forEach((row) => {
+      const shortPicks = Math.max(toNumber(row.pick_count), 0);
+      const totalShortage = Math.max(toNumber(row.total_shortage), 0);
+      const sku = skus.get(row.sku_id!) ?? {
+        skuId: row.sku_id!,
+        skuCode: row.sku_code ?? 'SKU',
+        skuName: row.sku_name ?? row.sku_code ?? 'SKU',
+        shortPicks: 0,
+        totalShortage: 0,
+        reasons: {},
+      };
+      sku.shortPicks += shortPicks;
+      sku.totalShortage += totalShortage;
+      sku.reasons[row.shortage_reason!] = (sku.reasons[row.shortage_reason!] ?? 0) + totalShortage;
+      skus.set(sku.skuId, sku);
+
+      const reason = reasons.get(row.shortage_reason!) ?? { reason: row.shortage_reason!, shortPicks: 0, totalShortage: 0 };
+      reason.shortPicks += shortPicks;
+      reason.totalShortage += totalShortage;
+      reasons.set(reason.reason, reason);
+    });
+
+  const responseRange = formatAppExclusiveRange({ start: rangeStart, end: rangeEnd }, context.timeZone);
+
+  res.json({
+    generatedAt: new Date().toISOString(),
+    timeZone: context.timeZone,
+    lookbackDays,
+    rangeStart: responseRange.start,
+    rangeEnd: responseRange.end,
+    totalShortage: Array.from(reasons.values()).reduce((total, reason) => total + reason.totalShortage, 0),
+    reasons: Array.from(reasons.values()).sort((a, b) => b.totalShortage - a.totalShortage),
+    skus: Array.from(skus.values()).sort((a, b) => b.totalShortage - a.totalShortage || a.skuCode.localeCompare(b.skuCode)),
+  });
+});
+
+router.get('/shortages/weekly', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  const context = await buildTimezoneContext(req, res);
+  if (!context) {
+    return;
+  }
+
+  const lookbackDays = parseShortageLookbackDays(req.query.lookbackDays);
+  const { rangeStart, rangeEnd } = buildTopSkuRange(context.timeZone, context.now, lookbackDays);
+  const rows = await fetchWeeklyShortageRows(context.companyId, context.timeZone, rangeStart, rangeEnd);
+
+  const weeks = new Map<string, { weekStart: string; totalShortage: number; reasons: Record<string, number> }>();
+  rows.forEach((row) => {
+    const weekStart = normalizeDayLabel(row.week_start, context.timeZone);
+    if (!weekStart || !row.shortage_reason) {
+      return;
+    }
+    const totalShortage = Math.max(toNumber(row.total_shortage), 0);
+    const week = weeks.get(weekStart) ?? { weekStart, totalShortage: 0, reasons: {} };
+    week.totalShortage += totalShortage;
+    week.reasons[row.shortage_reason] = (week.reasons[row.shortage_reason] ?? 0) + totalShortage;
+    weeks.set(weekStart, week);
+  });
+
+  const responseRange = formatAppExclusiveRange({ start: rangeStart, end: rangeEnd }, context.timeZone);
+
+  res.json({
+    generatedAt: new Date().toISOString(),
+    timeZone: context.timeZone,
+    lookbackDays,
+    rangeStart: responseRange.start,
+    rangeEnd: responseRange.end,
+    weeks: Array.from(weeks.values()).sort((a, b) => a.weekStart.localeCompare(b.weekStart)),
+  });
+});
+
 
 router.get('/search', setLogConfig({ level: 'minimal' }), async (req, res) => {
   const context = await buildTimezoneContext(req, res);
@@ -1146,6 +1259,19 @@ function parseMachinePickLookbackDays(value: unknown): number {
   return MACHINE_PICK_LOOKBACK_DEFAULT;
 }
 
+function parseShortageLookbackDays(value: unknown): number {
+  if (typeof value === 'string' && value.trim().length > 0) {
+    const parsed = Number.parseInt(value, 10);
+    if (Number.isFinite(parsed)) {
+      return clamp(parsed, SHORTAGE_LOOKBACK_MIN, SHORTAGE_LOOKBACK_MAX);
+    }
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return clamp(Math.trunc(value), SHORTAGE_LOOKBACK_MIN, SHORTAGE_LOOKBACK_MAX);
+  }
+  return SHORTAGE_LOOKBACK_DEFAULT;
+}
+
 function parseTopSkuLimit(value: unknown): number {
   if (typeof value === 'string' && value.trim().length > 0) {
     const parsed = Number.parseInt(value, 10);
@@ -1455,6 +1581,58 @@ async function fetchMachinePickTotals(companyId: string, rangeStart: Date, range
   );
 }
 
+async function fetchSkuShortageRows(companyId: string, rangeStart: Date, rangeEnd: Date) {
+  return prisma.$queryRaw<SkuShortageRow[]>(
+    Prisma.sql`
+      SELECT
+        sku_id,
+        sku_code,
+        sku_name,
+        shortage_reason,
+        COUNT(*) AS pick_count,
+        SUM(shortage_count) AS total_shortage
+      FROM v_pick_entry_details
+      WHERE companyId = ${companyId}
+        AND shortage_count > 0
+        AND scheduledFor IS NOT NULL
+        AND scheduledFor >= ${rangeStart}
+        AND scheduledFor < ${rangeEnd}
+      GROUP BY sku_id, sku_code, sku_name, shortage_reason
+      ORDER BY total_shortage DESC
+    `,
+  );
+}
+
+async function fetchWeeklyShortageRows(
+  companyId: string,
+  timeZone: string,
+  rangeStart: Date,
+  rangeEnd: Date,
+) {
+  return prisma.$queryRaw<WeeklyShortageRow[]>(
+    Prisma.sql`
+      SELECT
+        DATE_FORMAT(
+          DATE_SUB(
+            CONVERT_TZ(scheduledFor, 'UTC', ${timeZone}),
+            INTERVAL WEEKDAY(CONVERT_TZ(scheduledFor, 'UTC', ${timeZone})) DAY
+          ),
+          '%Y-%m-%d'
+        ) AS week_start,
+        shortage_reason,
+        SUM(shortage_count) AS total_shortage
+      FROM v_pick_entry_details
+      WHERE companyId = ${companyId}
+        AND shortage_count > 0
+        AND scheduledFor IS NOT NULL
+        AND scheduledFor >= ${rangeStart}
+        AND scheduledFor < ${rangeEnd}
+      GROUP BY week_start, shortage_reason
+      ORDER BY week_start ASC
+    `,
+  );
+}
+
 async function fetchTopPackedLocations(
   companyId: string,
   rangeStart: Date,
@@ -21,6 +21,7 @@ import {
   buildAuthCookieOptions,
   type MembershipSummary,
 } from './helpers/auth.js';
+import { listUpcomingRunParticipations } from './helpers/run-participants.js';
 
 const router = Router();
 const FALLBACK_ROLE = UserRole.PICKER;
@@ -889,6 +890,7 @@ router.get('/me', authenticate, setLogConfig({ level: 'minimal' }), async (req,
         platformAdmin: false,
       },
       platformAdminCompanyId: null,
+      runParticipations: [],
     });
   }
 
@@ -952,6 +954,7 @@ router.get('/me', authenticate, setLogConfig({ level: 'minimal' }), async (req,
         platformAdmin: standalonePlatformAdmin,
       },
       platformAdminCompanyId: standalonePlatformAdminCompanyId,
+      runParticipations: [],
     });
   }
 
@@ -984,6 +987,11 @@ router.get('/me', authenticate, setLogConfig({ level: 'minimal' }), async (req,
       ? memberships.find((m) => m.companyId === currentCompany.id)?.role ?? baseMembership.role
       : baseMembership?.role ?? FALLBACK_ROLE;
 
+  // Upcoming runs in the current company and the user's roles on each.
+  const runParticipations = currentCompany
+    ? await listUpcomingRunParticipations(currentCompany.id, user.id)
+    : [];
+
   return res.json({
     companies,
     currentCompany,
@@ -999,6 +1007,7 @@ router.get('/me', authenticate, setLogConfig({ level: 'minimal' }), async (req,
       platformAdmin,
     },
     platformAdminCompanyId,
+    runParticipations,
   });
 });
 
@@ -1,11 +1,18 @@
 import { Router } from 'express';
 import { readFile } from 'node:fs/promises';
 import path from 'node:path';
-import { parseRunWorkbook } from '../lib/run-import-parser.js';
+import { getBlockingIssues, parseRunWorkbook, splitRunByDate } from '../lib/run-import-parser.js';
 import { prisma } from '../lib/prisma.js';
 import { setLogConfig } from '../middleware/logging.js';
-import { RunImportError, persistRunFromWorkbook } from './helpers/run-imports.js';
+import { RunImportError } from './helpers/run-import-entities.js';
+import { persistRunsFromWorkbook } from './helpers/run-imports.js';
 import { isValidTimezone } from '../lib/timezone.js';
+import {
+  findSkuCategoryConflicts,
+  loadSkuCategoryLookup,
+  mergeSkuCategoryMappings,
+  toParserSkuCategories,
+} from './helpers/sku-category-mappings.js';
 
 const router = Router();
 
@@ -118,36 +125,49 @@ router.post('/run-imports', setLogConfig({ level: 'minimal' }), async (req, res)
   }
 
   try {
-    const parsed = await parseRunWorkbook(workbookBuffer);
+    const categoryLookup = await loadSkuCategoryLookup(companyId);
+    const parsed = await parseRunWorkbook(workbookBuffer, { skuCategories: toParserSkuCategories(categoryLookup) });
+    parsed.issues.push(...findSkuCategoryConflicts(categoryLookup, parsed.skuCategories));
     const run = parsed.run;
 
+    if (getBlockingIssues(parsed.issues).length) {
+      return res.status(400).json({
+        error: 'Workbook contains errors.',
+        issues: parsed.issues,
+      });
+    }
+
     if (!run || !run.pickEntries.length) {
       return res.status(400).json({
         error: 'Workbook did not contain any pick entries to import.',
+        issues: parsed.issues,
       });
     }
 
-    const createdRun = await persistRunFromWorkbook({
-      run,
+    const createdRuns = await persistRunsFromWorkbook({
+      runs: splitRunByDate(run),
       companyId,
       timezone: timezoneRaw,
     });
 
+    await mergeSkuCategoryMappings(companyId, categoryLookup, parsed.skuCategories);
+
     const pickEntryCount = run.pickEntries.length;
     const machineCount = new Set(run.pickEntries.map((entry) => entry.coilItem.coil.machine.code)).size;
 
     return res.status(201).json({
       summary: {
-        runs: 1,
+        runs: createdRuns.length,
         machines: machineCount,
         pickEntries: pickEntryCount,
       },
-      run: {
+      issues: parsed.issues,
+      runs: createdRuns.map((createdRun) => ({
         id: createdRun.id,
         status: createdRun.status,
         scheduledFor: createdRun.scheduledFor,
         createdAt: createdRun.createdAt,
-      },
+      })),
     });
   } catch (error) {
     console.error('Debug run import failed', error);
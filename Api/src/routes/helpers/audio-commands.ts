@@ -0,0 +1,255 @@
+import { prisma } from '../../lib/prisma.js';
+import { resolvePickEntryCount } from './runs.js';
+
+export const UNASSIGNED_LOCATION_KEY = '__unassigned__';
+
+export interface AudioCommand {
+  id: string;
+  audioCommand: string;
+  pickEntryIds: string[];
+  type: 'location' | 'machine' | 'item';
+  locationId?: string | null;
+  locationName?: string;
+  locationAddress?: string | null;
+  machineName?: string;
+  machineId?: string | null;
+  machineCode?: string | null;
+  machineDescription?: string | null;
+  machineTypeName?: string | null;
+  skuId?: string;
+  skuName?: string;
+  skuCode?: string;
+  count: number;
+  coilCode?: string;
+  coilCodes?: string[]; // Array of all coil codes for UI display
+  order: number;
+}
+
+// Builds the spoken packing order for a session: locations in reverse run order, each followed by its machines and
+// the SKUs to pack for them. Barcode scans are matched against the same order.
+export const buildPackingSessionAudioCommands = async (
+  run: { id: string; locationOrders: Array<{ locationId: string | null; position: number }> },
+  sessionId: string,
+): Promise<AudioCommand[]> => {
+  const runId = run.id;
+  const locationOrderMap = new Map<string, number>();
+  run.locationOrders.forEach((order) => {
+    const key = order.locationId ?? UNASSIGNED_LOCATION_KEY;
+    locationOrderMap.set(key, order.position);
+  });
+
+  // Get pick entries for this packing session (including already packed), ordered by location, then machine, then coil (largest to smallest)
+  const pickEntries = await prisma.pickEntry.findMany({
+    where: {
+      runId: runId,
+      packingSessionId: sessionId,
+      count: { gt: 0 },
+      removedAt: null
+    },
+    include: {
+      coilItem: {
+        include: {
+          coil: {
+            include: {
+              machine: {
+                include: {
+                  location: true,
+                  machineType: true
+                }
+              }
+            }
+          },
+          sku: true
+        }
+      }
+    },
+    orderBy: [
+      { coilItem: { coil: { machine: { location: { name: 'asc' } } } } },
+      { coilItem: { coil: { machine: { code: 'asc' } } } },
+      { coilItem: { par: 'desc' } }, // Largest par first (largest coil)
+      { coilItem: { coil: { code: 'asc' } } },
+      { coilItem: { sku: { name: 'asc' } } }
+    ]
+  });
+
+  // Group by location and machine to create audio commands
+  const audioCommands: AudioCommand[] = [];
+
+  // Track unique locations and machines to avoid duplicates
+  const uniqueLocations = new Set<string>();
+  const uniqueMachines = new Set<string>();
+
+  // Group entries by location and machine
+  const groupedEntries = pickEntries.reduce((acc, entry) => {
+    const location = entry.coilItem.coil.machine.location;
+    const machine = entry.coilItem.coil.machine;
+    
+    const locationKey = location?.id || UNASSIGNED_LOCATION_KEY;
+    const machineKey = machine?.id || 'no-machine';
+    
+    if (!acc[locationKey]) {
+      acc[locationKey] = {
+        location: location,
+        machines: {}
+      };
+    }
+    
+    if (!acc[locationKey].machines[machineKey]) {
+      acc[locationKey].machines[machineKey] = {
+        machine: machine,
+        entries: []
+      };
+    }
+    
+    acc[locationKey].machines[machineKey].entries.push(entry);
+    return acc;
+  }, {} as Record<string, { location: any, machines: Record<string, { machine: any, entries: any[] }> }>);
+
+  // Generate audio commands in the correct order
+  let orderCounter = 0;
+  const sortedLocationGroups = Object.values(groupedEntries).sort((a, b) => {
+    const aKey = a.location?.id ?? UNASSIGNED_LOCATION_KEY;
+    const bKey = b.location?.id ?? UNASSIGNED_LOCATION_KEY;
+    const aOrder = locationOrderMap.has(aKey) ? locationOrderMap.get(aKey)! : Number.MAX_SAFE_INTEGER;
+    const bOrder = locationOrderMap.has(bKey) ? locationOrderMap.get(bKey)! : Number.MAX_SAFE_INTEGER;
+
+    if (aOrder !== bOrder) {
+      return aOrder - bOrder;
+    }
+
+    const aName = (a.location?.name ?? '').toLowerCase();
+    const bName = (b.location?.name ?? '').toLowerCase();
+    if (aName === bName) {
+      return 0;
+    }
+    return aName < bName ? -1 : 1;
+  });
+
+  const locationGroupsInReverseOrder = [...sortedLocationGroups].reverse();
+  locationGroupsInReverseOrder.forEach(locationGroup => {
+    // Add location announcement
+    const location = locationGroup.location;
+    const locationKey = location?.id || UNASSIGNED_LOCATION_KEY;
+    if (location && !uniqueLocations.has(locationKey)) {
+      uniqueLocations.add(locationKey);
+      audioCommands.push({
+        id: `location-${locationKey}`,
+        audioCommand: `Location ${location.name || 'Unknown'}`,
+        pickEntryIds: [],
+        type: 'location',
+        locationId: location.id ?? null,
+        locationName: location.name || 'Unknown',
+        locationAddress: location.address ?? null,
+        count: 0,
+        order: orderCounter++
+      });
+    }
+    
+    // Add machine announcements and items for each machine in this location
+    Object.values(locationGroup.machines).forEach(machineGroup => {
+      const machine = machineGroup.machine;
+      const machineKey = machine?.id || 'no-machine';
+      
+      // Add machine announcement
+      if (machine && !uniqueMachines.has(machineKey)) {
+        uniqueMachines.add(machineKey);
+        audioCommands.push({
+          id: `machine-${machineKey}`,
+          audioCommand: `Machine ${machine.description || machine.code || 'Unknown'}`,
+          pickEntryIds: [],
+          type: 'machine',
+          locationId: machine.location?.id ?? null,
+          locationName: machine.location?.name || location?.name || 'Unknown',
+          locationAddress: machine.location?.address ?? null,
+          machineId: machine.id ?? null,
+          machineName: machine.description || machine.code || 'Unknown',
+          machineCode: machine.code ?? null,
+          machineDescription: machine.description ?? null,
+          machineTypeName: machine.machineType?.description || machine.machineType?.name || null,
+          count: 0,
+          order: orderCounter++
+        });
+      }
+      
+      // Sort entries by coil code lexicographically (E7 -> E6 -> D2 -> D1, etc.)
+      const sortedEntries = machineGroup.entries.sort((a, b) => {
+        const coilCodeA = a.coilItem.coil?.code || '';
+        const coilCodeB = b.coilItem.coil?.code || '';
+        
+        // Sort lexicographically (E7 -> E6 -> D2 -> D1)
+        return coilCodeB.localeCompare(coilCodeA);
+      });
+      
+      // Group entries by SKU within this machine
+      const skuGroups = new Map<string, typeof sortedEntries>();
+      
+      sortedEntries.forEach(entry => {
+        const sku = entry.coilItem.sku;
+        if (sku) {
+          const skuKey = sku.id;
+          if (!skuGroups.has(skuKey)) {
+            skuGroups.set(skuKey, []);
+          }
+          skuGroups.get(skuKey)!.push(entry);
+        }
+      });
+      
+      // Generate audio commands for each SKU group
+      skuGroups.forEach((entries, skuKey) => {
+        const firstEntry = entries[0];
+        const sku = firstEntry.coilItem.sku;
+        const coil = firstEntry.coilItem.coil;
+        
+        if (sku) {
+          const totalCount = entries.reduce((acc, entry) => acc + resolvePickEntryCount(entry), 0);
+          
+          const skuName = sku.name || 'Unknown item';
+          const skuCode = sku.code || '';
+          
+          // Collect all unique coil codes for this SKU group
+          const uniqueCoilCodes = [...new Set(entries.map(entry => entry.coilItem.coil?.code || '').filter(code => code))];
+          const coilCount = uniqueCoilCodes.length;
+          
+          // Build audio command similar to RunDaddy app
+          let audioCommand = `${skuName}`;
+          if (sku.type && sku.type.trim() && sku.type.toLowerCase() !== 'general') {
+            audioCommand += `, ${sku.type}`;
+          }
+          audioCommand += `. Need ${totalCount}`;
+          
+          // Announce coil count instead of individual coils
+          if (coilCount > 1) {
+            audioCommand += `. For ${coilCount} coils`;
+          }
+          
+          // Collect all pick entry IDs for this group
+          const pickEntryIds = entries.map(entry => entry.id);
+          
+          audioCommands.push({
+            id: `sku-${skuKey}-${machineKey}`,
+            audioCommand: audioCommand,
+            pickEntryIds: pickEntryIds,
+            type: 'item',
+            locationId: machine?.location?.id ?? location?.id ?? null,
+            locationName: machine?.location?.name || location?.name || null,
+            locationAddress: machine?.location?.address ?? location?.address ?? null,
+            machineId: machine?.id ?? null,
+            machineName: machine?.description || machine?.code || 'Unknown',
+            machineCode: machine?.code ?? null,
+            machineDescription: machine?.description ?? null,
+            machineTypeName: machine?.machineType?.description || machine?.machineType?.name || null,
+            skuId: sku.id,
+            skuName: skuName,
+            skuCode: skuCode,
+            count: totalCount,
+            coilCode: coilCount > 1 ? `${coilCount} coils` : (uniqueCoilCodes[0] || ''),
+            coilCodes: uniqueCoilCodes, // Add array of all coil codes for UI display
+            order: orderCounter++
+          });
+        }
+      });
+    });
+  });
+
+  return audioCommands;
+};
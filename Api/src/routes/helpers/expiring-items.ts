@@ -1,5 +1,8 @@
+import { RunActivityType } from '@prisma/client';
 import { prisma } from '../../lib/prisma.js';
+import { publishRunEvent } from '../../lib/run-event-bus.js';
 import { getTimezoneDayRange } from '../../lib/timezone.js';
+import { recordRunActivity } from './run-activity.js';
 import { ensureRun } from './runs.js';
 import { resolveCompanyTimezone } from './timezone.js';
 
@@ -1181,17 +1184,40 @@ export async function addNeededForRunDayExpiry({
   const overrideCount = Math.max(0, plannedCount) + remainingExpiringQuantity;
   const addedQuantity = remainingExpiringQuantity;
 
-  await prisma.pickEntry.update({
-    where: {
-      runId_coilItemId: {
-        runId,
-        coilItemId,
+  await prisma.$transaction(async (tx) => {
+    await tx.pickEntry.update({
+      where: {
+        runId_coilItemId: {
+          runId,
+          coilItemId,
+        },
       },
-    },
-    data: {
-      override: overrideCount,
-      count: overrideCount,
-    },
+      data: {
+        override: overrideCount,
+        count: overrideCount,
+      },
+    });
+
+    await recordRunActivity(tx, {
+      runId,
+      userId,
+      events: [
+        {
+          type: RunActivityType.OVERRIDE_SET,
+          pickEntryId: pickEntry.id,
+          packingSessionId: pickEntry.packingSessionId,
+          before: { override: pickEntry.override, count: pickEntry.count },
+          after: { override: overrideCount, count: overrideCount },
+        },
+      ],
+    });
+  });
+
+  publishRunEvent(runId, 'pick.override', {
+    pickEntryId: pickEntry.id,
+    override: overrideCount,
+    count: overrideCount,
+    userId,
   });
 
   await prisma.note.create({
@@ -0,0 +1,419 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { PackingSessionStatus, Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+import type { TransactionClient } from '../../lib/prisma.js';
+import { publishRunEvent } from '../../lib/run-event-bus.js';
+import type { UserRole } from '../../types/enums.js';
+import { isCompanyManager } from './authorization.js';
+import { ensureRun } from './runs.js';
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_CLAIM_TTL_MINUTES = 15;
+
+export const resolvePackingClaimTtlMinutes = () => {
+  const configured = Number.parseInt(process.env.PACKING_CLAIM_TTL_MINUTES ?? '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_CLAIM_TTL_MINUTES;
+};
+
+const claimExpiry = (from: Date) => new Date(from.getTime() + resolvePackingClaimTtlMinutes() * MINUTE_MS);
+
+export const packingClaimTargetsSchema = z
+  .object({
+    machineIds: z.array(z.string().trim().min(1)).max(200).optional(),
+    // Claims every machine at these locations that still has picks on the run.
+    locationIds: z.array(z.string().trim().min(1)).max(100).optional(),
+    // Take over stale claims; managers may also take over live ones.
+    steal: z.boolean().optional(),
+  })
+  .refine((value) => Boolean(value.machineIds?.length || value.locationIds?.length), {
+    message: 'Choose at least one machine or location to claim.',
+    path: ['machineIds'],
+  });
+
+export type PackingClaimTargets = z.infer<typeof packingClaimTargetsSchema>;
+
+export class PackingClaimError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+    readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'PackingClaimError';
+  }
+}
+
+const packingClaimInclude = {
+  user: { select: { id: true, firstName: true, lastName: true } },
+  machine: {
+    select: {
+      id: true,
+      code: true,
+      description: true,
+      location: { select: { id: true, name: true } },
+    },
+  },
+  packingSession: { select: { id: true, status: true } },
+} satisfies Prisma.PackingClaimInclude;
+
+type PackingClaimWithRelations = Prisma.PackingClaimGetPayload<{ include: typeof packingClaimInclude }>;
+
+// A claim stops protecting its machine once it has expired or its session has ended.
+const isClaimStale = (claim: { expiresAt: Date; packingSession: { status: PackingSessionStatus } }, now: Date) =>
+  claim.expiresAt <= now || claim.packingSession.status !== PackingSessionStatus.STARTED;
+
+export const serializePackingClaim = (claim: PackingClaimWithRelations, now = new Date()) => ({
+  id: claim.id,
+  runId: claim.runId,
+  packingSessionId: claim.packingSessionId,
+  userId: claim.userId,
+  firstName: claim.user.firstName,
+  lastName: claim.user.lastName,
+  machineId: claim.machineId,
+  machineCode: claim.machine.code,
+  machineDescription: claim.machine.description,
+  locationId: claim.machine.location?.id ?? null,
+  locationName: claim.machine.location?.name ?? null,
+  claimedAt: claim.claimedAt,
+  expiresAt: claim.expiresAt,
+  isStale: isClaimStale(claim, now),
+});
+
+// Pick entries nobody is working on: never assigned, or left behind by a session that has ended.
+const unheldPickEntryConditions: Prisma.PickEntryWhereInput[] = [
+  { packingSessionId: null },
+  { packingSession: { status: { in: [PackingSessionStatus.FINISHED, PackingSessionStatus.ABANDONED] } } },
+];
+
+// Claims machines of a run for a packing session and assigns their outstanding pick entries to it. Machines the
+// session already holds are refreshed. A machine held by another session is only taken over with `steal`, and
+// only while that claim is stale unless the actor is a manager; the other session's unpicked entries there move
+// across with the claim. Machines with entries in a live session that holds no claim on them are refused.
+export const claimPackingMachines = async (
+  tx: TransactionClient,
+  {
+    runId,
+    session,
+    targets,
+    actorRole,
+  }: {
+    runId: string;
+    session: { id: string; userId: string };
+    targets: PackingClaimTargets;
+    actorRole: UserRole;
+  },
+) => {
+  const now = new Date();
+  const machineFilters: Prisma.MachineWhereInput[] = [
+    ...(targets.machineIds?.length ? [{ id: { in: targets.machineIds } }] : []),
+    ...(targets.locationIds?.length ? [{ locationId: { in: targets.locationIds } }] : []),
+  ];
+  const machines = await tx.machine.findMany({
+    where: {
+      OR: machineFilters,
+      coils: { some: { coilItems: { some: { pickEntries: { some: { runId, isPicked: false, removedAt: null } } } } } },
+    },
+    select: { id: true },
+  });
+  const machineIds = machines.map((machine) => machine.id);
+  if (!machineIds.length) {
+    throw new PackingClaimError('None of those machines have anything left to pick on this run', 404);
+  }
+
+  const existing = await tx.packingClaim.findMany({
+    where: { runId, machineId: { in: machineIds } },
+    include: packingClaimInclude,
+  });
+  const heldElsewhere = existing.filter((claim) => claim.packingSessionId !== session.id);
+  const blocked = heldElsewhere.filter(
+    (claim) => !targets.steal || (!isClaimStale(claim, now) && !isCompanyManager(actorRole)),
+  );
+  if (blocked.length) {
+    throw new PackingClaimError('Some machines are already claimed', 409, {
+      claims: blocked.map((claim) => serializePackingClaim(claim, now)),
+    });
+  }
+
+  // Sessions started without claims (a package or category session) hold their entries just as firmly.
+  const stolenSessionIds = Array.from(new Set(heldElsewhere.map((claim) => claim.packingSessionId)));
+  const heldWithoutClaim = await tx.pickEntry.findMany({
+    where: {
+      runId,
+      isPicked: false,
+      removedAt: null,
+      coilItem: { coil: { machineId: { in: machineIds } } },
+      packingSessionId: { notIn: [session.id, ...stolenSessionIds] },
+      packingSession: { status: PackingSessionStatus.STARTED },
+    },
+    select: { packingSessionId: true, coilItem: { select: { coil: { select: { machineId: true } } } } },
+  });
+  if (heldWithoutClaim.length) {
+    throw new PackingClaimError('Some machines are being packed in another session', 409, {
+      machineIds: Array.from(new Set(heldWithoutClaim.map((entry) => entry.coilItem.coil.machineId))),
+      packingSessionIds: Array.from(new Set(heldWithoutClaim.map((entry) => entry.packingSessionId))),
+    });
+  }
+
+  const expiresAt = claimExpiry(now);
+  const existingByMachine = new Map(existing.map((claim) => [claim.machineId, claim]));
+  for (const machineId of machineIds) {
+    const claim = existingByMachine.get(machineId);
+    if (!claim) {
+      await tx.packingClaim.create({
+        data: { runId, packingSessionId: session.id, userId: session.userId, machineId, expiresAt },
+      });
+    } else if (claim.packingSessionId === session.id) {
+      await tx.packingClaim.update({ where: { id: claim.id }, data: { expiresAt } });
+    } else {
+      await tx.packingClaim.update({
+        where: { id: claim.id },
+        data: { packingSessionId: session.id, userId: session.userId, claimedAt: now, expiresAt },
+      });
+    }
+  }
+
+  const assigned = await tx.pickEntry.updateMany({
+    where: {
+      runId,
+      isPicked: false,
+      removedAt: null,
+      coilItem: { coil: { machineId: { in: machineIds } } },
+      OR: [...unheldPickEntryConditions, { packingSessionId: { in: stolenSessionIds } }],
+    },
+    data: { packingSessionId: session.id },
+  });
+
+  const claims = await tx.packingClaim.findMany({
+    where: { runId, machineId: { in: machineIds } },
+    include: packingClaimInclude,
+  });
+
+  return {
+    claims: claims.map((claim) => serializePackingClaim(claim, now)),
+    assignedPickEntries: assigned.count,
+    stolen: heldElsewhere.map((claim) => ({
+      machineId: claim.machineId,
+      packingSessionId: claim.packingSessionId,
+      userId: claim.userId,
+    })),
+  };
+};
+
+// Drops a claim and hands its machine's unpicked entries back to the pool.
+const releasePackingClaimInTx = async (
+  tx: TransactionClient,
+  claim: { id: string; runId: string; packingSessionId: string; machineId: string },
+) => {
+  await tx.packingClaim.delete({ where: { id: claim.id } });
+  const released = await tx.pickEntry.updateMany({
+    where: {
+      runId: claim.runId,
+      packingSessionId: claim.packingSessionId,
+      isPicked: false,
+      coilItem: { coil: { machineId: claim.machineId } },
+    },
+    data: { packingSessionId: null },
+  });
+  return released.count;
+};
+
+// Pushes back the expiry of every claim a session holds; called as the packer works through their machines.
+export const refreshSessionClaims = async (client: TransactionClient | typeof prisma, packingSessionId: string) => {
+  const expiresAt = claimExpiry(new Date());
+  const refreshed = await client.packingClaim.updateMany({
+    where: { packingSessionId },
+    data: { expiresAt },
+  });
+  return { refreshed: refreshed.count, expiresAt };
+};
+
+const resolveClaimRun = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    res.status(403).json({ error: 'Company membership required to access packing sessions' });
+    return null;
+  }
+
+  const runId = req.params.runId?.trim();
+  if (!runId) {
+    res.status(400).json({ error: 'Run ID is required' });
+    return null;
+  }
+
+  const run = await ensureRun(req.auth.companyId, runId);
+  if (!run) {
+    res.status(404).json({ error: 'Run not found' });
+    return null;
+  }
+
+  return { run, userId: req.auth.userId, role: req.auth.role };
+};
+
+// Resolves the caller's own active packing session on the run.
+const resolveOwnSession = async (req: Request, res: Response) => {
+  const target = await resolveClaimRun(req, res);
+  if (!target) {
+    return null;
+  }
+
+  const packingSessionId = req.params.packingSessionId?.trim();
+  const session = packingSessionId
+    ? await prisma.packingSession.findUnique({ where: { id: packingSessionId } })
+    : null;
+  if (!session || session.runId !== target.run.id) {
+    res.status(404).json({ error: 'Packing session not found for this run' });
+    return null;
+  }
+  if (session.userId !== target.userId) {
+    res.status(403).json({ error: 'Only the packer who started this session can change its claims' });
+    return null;
+  }
+  if (session.status !== PackingSessionStatus.STARTED) {
+    res.status(409).json({ error: 'Packing session is no longer active' });
+    return null;
+  }
+
+  return { ...target, session };
+};
+
+// Who holds which machine on the run, with what is left to pick on each machine and how much of it is unclaimed.
+export const listPackingClaims = async (req: Request, res: Response) => {
+  const target = await resolveClaimRun(req, res);
+  if (!target) {
+    return;
+  }
+  const { run } = target;
+
+  const now = new Date();
+  const claims = await prisma.packingClaim.findMany({
+    where: { runId: run.id },
+    include: packingClaimInclude,
+    orderBy: { claimedAt: 'asc' },
+  });
+  const claimsByMachine = new Map(claims.map((claim) => [claim.machineId, serializePackingClaim(claim, now)]));
+
+  const machines = new Map<
+    string,
+    {
+      machineId: string;
+      machineCode: string;
+      machineDescription: string | null;
+      locationId: string | null;
+      locationName: string | null;
+      pendingPickEntries: number;
+      unassignedPickEntries: number;
+    }
+  >();
+  run.pickEntries
+    .filter((entry) => !entry.isPicked && !entry.removedAt)
+    .forEach((entry) => {
+      const machine = entry.coilItem.coil.machine;
+      const summary = machines.get(machine.id) ?? {
+        machineId: machine.id,
+        machineCode: machine.code,
+        machineDescription: machine.description,
+        locationId: machine.location?.id ?? null,
+        locationName: machine.location?.name ?? null,
+        pendingPickEntries: 0,
+        unassignedPickEntries: 0,
+      };
+      summary.pendingPickEntries += 1;
+      if (!entry.packingSessionId) {
+        summary.unassignedPickEntries += 1;
+      }
+      machines.set(machine.id, summary);
+    });
+
+  return res.json({
+    runId: run.id,
+    claimTtlMinutes: resolvePackingClaimTtlMinutes(),
+    claims: Array.from(claimsByMachine.values()),
+    machines: Array.from(machines.values()).map((machine) => ({
+      ...machine,
+      claim: claimsByMachine.get(machine.machineId) ?? null,
+    })),
+  });
+};
+
+// Claims more machines or locations for the caller's session.
+export const addPackingClaims = async (req: Request, res: Response) => {
+  const target = await resolveOwnSession(req, res);
+  if (!target) {
+    return;
+  }
+  const { run, session, role } = target;
+
+  const parsed = packingClaimTargetsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+
+  try {
+    const result = await prisma.$transaction((tx) =>
+      claimPackingMachines(tx, { runId: run.id, session, targets: parsed.data, actorRole: role }),
+    );
+
+    publishRunEvent(run.id, 'packing-claims.changed', {
+      action: 'claimed',
+      packingSessionId: session.id,
+      userId: session.userId,
+      machineIds: result.claims.map((claim) => claim.machineId),
+      stolen: result.stolen,
+    });
+
+    return res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof PackingClaimError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    // Another packer claimed one of the machines between our read and write.
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'Some machines are already claimed' });
+    }
+    throw error;
+  }
+};
+
+// Heartbeat for a packing session's claims.
+export const refreshPackingClaims = async (req: Request, res: Response) => {
+  const target = await resolveOwnSession(req, res);
+  if (!target) {
+    return;
+  }
+
+  const result = await refreshSessionClaims(prisma, target.session.id);
+  return res.json({ packingSessionId: target.session.id, ...result });
+};
+
+// The holder or a manager can release a claim at any time; anyone on the company can clear a stale one.
+export const releasePackingClaim = async (req: Request, res: Response) => {
+  const target = await resolveClaimRun(req, res);
+  if (!target) {
+    return;
+  }
+  const { run, userId, role } = target;
+
+  const claimId = req.params.claimId?.trim();
+  const claim = claimId
+    ? await prisma.packingClaim.findUnique({ where: { id: claimId }, include: packingClaimInclude })
+    : null;
+  if (!claim || claim.runId !== run.id) {
+    return res.status(404).json({ error: 'Packing claim not found for this run' });
+  }
+
+  if (claim.userId !== userId && !isCompanyManager(role) && !isClaimStale(claim, new Date())) {
+    return res.status(403).json({ error: 'Only the holder or a manager can release a live claim' });
+  }
+
+  const releasedPickEntries = await prisma.$transaction((tx) => releasePackingClaimInTx(tx, claim));
+
+  publishRunEvent(run.id, 'packing-claims.changed', {
+    action: 'released',
+    packingSessionId: claim.packingSessionId,
+    userId: claim.userId,
+    releasedById: userId,
+    machineIds: [claim.machineId],
+  });
+
+  return res.json({ id: claim.id, machineId: claim.machineId, releasedPickEntries });
+};
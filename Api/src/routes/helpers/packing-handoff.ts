@@ -0,0 +1,201 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { PackingSessionStatus, Prisma, RunActivityType } from '@prisma/client';
+import type { PackingSession } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+import { publishRunEvent } from '../../lib/run-event-bus.js';
+import { isCompanyManager } from './authorization.js';
+import { refreshSessionClaims } from './packing-claims.js';
+import { recordRunActivity } from './run-activity.js';
+import { ensureMembership, ensureRun } from './runs.js';
+
+const handOffPackingSessionSchema = z.object({
+  userId: z.string().trim().min(1),
+});
+
+const packingSessionCursorSchema = z.object({
+  // The `order` of the audio command the packer has reached.
+  order: z.number().int().min(0),
+});
+
+export const serializePackingSession = (session: PackingSession) => ({
+  id: session.id,
+  runId: session.runId,
+  userId: session.userId,
+  startedAt: session.startedAt,
+  finishedAt: session.finishedAt,
+  status: session.status,
+  cursorOrder: session.cursorOrder,
+  cursorUpdatedAt: session.cursorUpdatedAt,
+  handedOffFromId: session.handedOffFromId,
+});
+
+const resolveActiveSession = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    res.status(403).json({ error: 'Company membership required to access packing sessions' });
+    return null;
+  }
+
+  const runId = req.params.runId?.trim();
+  const packingSessionId = req.params.packingSessionId?.trim();
+  if (!runId || !packingSessionId) {
+    res.status(400).json({ error: 'Run ID and packingSessionId are required' });
+    return null;
+  }
+
+  const run = await ensureRun(req.auth.companyId, runId);
+  if (!run) {
+    res.status(404).json({ error: 'Run not found' });
+    return null;
+  }
+
+  const session = await prisma.packingSession.findUnique({ where: { id: packingSessionId } });
+  if (!session || session.runId !== run.id) {
+    res.status(404).json({ error: 'Packing session not found for this run' });
+    return null;
+  }
+  if (session.status !== PackingSessionStatus.STARTED) {
+    res.status(409).json({ error: 'Packing session is no longer active' });
+    return null;
+  }
+
+  return { run, session, companyId: req.auth.companyId, userId: req.auth.userId, role: req.auth.role };
+};
+
+// Hands a session's unpicked entries and claims to another member in a new session. The original session ends as
+// HANDED_OFF and keeps its picked entries, so what was picked stays attributed to the first packer. The new
+// session starts without a cursor: its audio commands only cover the remaining entries, so their orders no longer
+// line up with the old cursor. The packer can hand off their own session; a manager can reassign anyone's.
+export const handOffPackingSession = async (req: Request, res: Response) => {
+  const target = await resolveActiveSession(req, res);
+  if (!target) {
+    return;
+  }
+  const { run, session, companyId, userId, role } = target;
+
+  if (session.userId !== userId && !isCompanyManager(role)) {
+    return res.status(403).json({ error: 'Only the packer or a manager can hand off this session' });
+  }
+
+  const parsed = handOffPackingSessionSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+  const recipientId = parsed.data.userId;
+  if (recipientId === session.userId) {
+    return res.status(400).json({ error: 'The session already belongs to that user' });
+  }
+
+  const recipient = await ensureMembership(companyId, recipientId);
+  if (!recipient) {
+    return res.status(404).json({ error: 'User is not a member of this company' });
+  }
+
+  const recipientSession = await prisma.packingSession.findFirst({
+    where: { runId: run.id, userId: recipientId, status: PackingSessionStatus.STARTED },
+    select: { id: true },
+  });
+  if (recipientSession) {
+    return res.status(409).json({
+      error: 'That user already has an active packing session on this run',
+      packingSessionId: recipientSession.id,
+    });
+  }
+
+  const actorId = userId ?? null;
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const handedOff = await tx.packingSession.update({
+        where: { id: session.id },
+        data: { status: PackingSessionStatus.HANDED_OFF, finishedAt: now },
+      });
+      const nextSession = await tx.packingSession.create({
+        data: {
+          runId: run.id,
+          userId: recipientId,
+          handedOffFromId: session.id,
+        },
+      });
+
+      const transferred = await tx.pickEntry.updateMany({
+        where: { packingSessionId: session.id, isPicked: false },
+        data: { packingSessionId: nextSession.id },
+      });
+      const claims = await tx.packingClaim.updateMany({
+        where: { packingSessionId: session.id },
+        data: { packingSessionId: nextSession.id, userId: recipientId },
+      });
+      await refreshSessionClaims(tx, nextSession.id);
+
+      await recordRunActivity(tx, {
+        runId: run.id,
+        userId: actorId,
+        events: [
+          {
+            type: RunActivityType.PACKING_SESSION_HANDED_OFF,
+            packingSessionId: session.id,
+            before: { packingSessionId: session.id, userId: session.userId },
+            after: {
+              packingSessionId: nextSession.id,
+              userId: recipientId,
+              transferredPickEntries: transferred.count,
+              claims: claims.count,
+              cursorOrder: session.cursorOrder,
+            },
+          },
+        ],
+      });
+
+      return { handedOff, nextSession, transferred: transferred.count, claims: claims.count };
+    });
+
+    publishRunEvent(run.id, 'packing-session.handed-off', {
+      packingSessionId: result.handedOff.id,
+      fromUserId: result.handedOff.userId,
+      toPackingSessionId: result.nextSession.id,
+      toUserId: result.nextSession.userId,
+      transferredPickEntries: result.transferred,
+      actorId,
+    });
+
+    return res.status(201).json({
+      handedOff: serializePackingSession(result.handedOff),
+      packingSession: serializePackingSession(result.nextSession),
+      transferredPickEntries: result.transferred,
+      transferredClaims: result.claims,
+    });
+  } catch (error) {
+    // A second handoff of the same session raced this one.
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'Packing session has already been handed off' });
+    }
+    throw error;
+  }
+};
+
+// Stores how far through the audio commands the packer has got; also keeps the session's claims alive.
+export const updatePackingSessionCursor = async (req: Request, res: Response) => {
+  const target = await resolveActiveSession(req, res);
+  if (!target) {
+    return;
+  }
+  const { session, userId } = target;
+
+  if (session.userId !== userId) {
+    return res.status(403).json({ error: 'Only the packer can move this session along' });
+  }
+
+  const parsed = packingSessionCursorSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+
+  const updated = await prisma.packingSession.update({
+    where: { id: session.id },
+    data: { cursorOrder: parsed.data.order, cursorUpdatedAt: new Date() },
+  });
+  await refreshSessionClaims(prisma, session.id);
+
+  return res.json(serializePackingSession(updated));
+};
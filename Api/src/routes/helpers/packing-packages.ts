@@ -0,0 +1,190 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { PackingSessionStatus } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+import { balanceWorkPackages } from '../../lib/work-balancer.js';
+import { roundTo } from './run-routing.js';
+import { ensureRun, resolvePickEntryCount } from './runs.js';
+import { loadSkuCategoryLookup } from './sku-category-mappings.js';
+
+// Rough packing effort used when balancing by time: walking to and setting up for a machine, pulling each coil's
+// stock, then each item.
+const SECONDS_PER_MACHINE = 60;
+const SECONDS_PER_PICK_ENTRY = 10;
+const SECONDS_PER_ITEM = 3;
+
+const COLD_CHEST_GROUP = 'Cold chest';
+const AMBIENT_GROUP = 'Ambient';
+const UNCATEGORIZED_GROUP = 'Uncategorized';
+
+const proposePackingPackagesSchema = z.object({
+  packageCount: z.number().int().min(2).max(20),
+  balanceBy: z.enum(['ITEMS', 'WEIGHT', 'TIME']).default('ITEMS'),
+  // COLD_CHEST keeps fresh and frozen SKUs apart from the rest; CATEGORY keeps each SKU category apart.
+  groupBy: z.enum(['COLD_CHEST', 'CATEGORY', 'NONE']).default('COLD_CHEST'),
+});
+
+type PackingUnit = {
+  group: string;
+  load: number;
+  machineId: string;
+  machineCode: string;
+  machineDescription: string | null;
+  locationId: string | null;
+  locationName: string | null;
+  pickEntryIds: string[];
+  itemCount: number;
+  weight: number;
+  estimatedSeconds: number;
+};
+
+// Proposes packing work packages for a run's outstanding picks without starting anything. Each package is started
+// by passing its pickEntryIds to POST /:runId/packing-sessions. A machine's items for one group are never split, so
+// the packer who takes a package finishes that machine's share of it.
+export const proposePackingPackages = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to plan packing sessions' });
+  }
+
+  const runId = req.params.runId?.trim();
+  if (!runId) {
+    return res.status(400).json({ error: 'Run ID is required' });
+  }
+
+  const parsed = proposePackingPackagesSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+  const { packageCount, balanceBy, groupBy } = parsed.data;
+
+  const run = await ensureRun(req.auth.companyId, runId);
+  if (!run) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+
+  const company = await prisma.company.findUnique({
+    where: { id: run.companyId },
+    select: { tier: { select: { canBreakDownRun: true } } },
+  });
+  if (!company?.tier.canBreakDownRun) {
+    return res.status(403).json({ error: 'Your plan does not include breaking runs down for several packers' });
+  }
+
+  const entries = await prisma.pickEntry.findMany({
+    where: {
+      runId: run.id,
+      isPicked: false,
+      removedAt: null,
+      OR: [
+        { packingSessionId: null },
+        { packingSession: { status: { in: [PackingSessionStatus.FINISHED, PackingSessionStatus.ABANDONED] } } },
+      ],
+    },
+    include: {
+      coilItem: {
+        include: {
+          sku: true,
+          coil: { include: { machine: { include: { location: true } } } },
+        },
+      },
+    },
+  });
+
+  const categoryLookup = groupBy === 'CATEGORY' ? await loadSkuCategoryLookup(run.companyId) : null;
+  const resolveGroup = (sku: (typeof entries)[number]['coilItem']['sku']) => {
+    if (groupBy === 'COLD_CHEST') {
+      return sku?.isFreshOrFrozen ? COLD_CHEST_GROUP : AMBIENT_GROUP;
+    }
+    if (groupBy === 'CATEGORY') {
+      const mapped = sku ? categoryLookup?.get(sku.code.toLowerCase())?.category : undefined;
+      return mapped ?? sku?.category ?? UNCATEGORIZED_GROUP;
+    }
+    return AMBIENT_GROUP;
+  };
+
+  const units = new Map<string, PackingUnit>();
+  const skusWithoutWeight = new Set<string>();
+  entries.forEach((entry) => {
+    const count = resolvePickEntryCount(entry);
+    if (count <= 0) {
+      return;
+    }
+    const { sku, coil } = entry.coilItem;
+    const machine = coil.machine;
+    const group = resolveGroup(sku);
+    const key = `${machine.id}:${group}`;
+    const unit = units.get(key) ?? {
+      group,
+      load: 0,
+      machineId: machine.id,
+      machineCode: machine.code,
+      machineDescription: machine.description,
+      locationId: machine.location?.id ?? null,
+      locationName: machine.location?.name ?? null,
+      pickEntryIds: [],
+      itemCount: 0,
+      weight: 0,
+      estimatedSeconds: SECONDS_PER_MACHINE,
+    };
+    if (sku && sku.weight === null) {
+      skusWithoutWeight.add(sku.id);
+    }
+    unit.pickEntryIds.push(entry.id);
+    unit.itemCount += count;
+    unit.weight += count * (sku?.weight ?? 0);
+    unit.estimatedSeconds += SECONDS_PER_PICK_ENTRY + count * SECONDS_PER_ITEM;
+    units.set(key, unit);
+  });
+
+  units.forEach((unit) => {
+    unit.load = balanceBy === 'WEIGHT' ? unit.weight : balanceBy === 'TIME' ? unit.estimatedSeconds : unit.itemCount;
+  });
+
+  const groupCount = new Set(Array.from(units.values(), (unit) => unit.group)).size;
+  if (groupBy !== 'NONE' && groupCount > packageCount) {
+    return res.status(400).json({
+      error: `These picks fall into ${groupCount} groups; ask for at least that many packages or group them differently`,
+    });
+  }
+
+  const packages = balanceWorkPackages({
+    units: Array.from(units.values()),
+    packageCount,
+    keepGroupsApart: groupBy !== 'NONE',
+  }).map((workPackage, index) => {
+    const pickEntryIds = workPackage.units.flatMap((unit) => unit.pickEntryIds);
+    return {
+      index,
+      group: workPackage.group,
+      itemCount: workPackage.units.reduce((total, unit) => total + unit.itemCount, 0),
+      weight: roundTo(workPackage.units.reduce((total, unit) => total + unit.weight, 0), 2),
+      estimatedMinutes: Math.round(workPackage.units.reduce((total, unit) => total + unit.estimatedSeconds, 0) / 60),
+      machines: workPackage.units.map(({ load: _load, pickEntryIds: unitPickEntryIds, ...unit }) => ({
+        ...unit,
+        weight: roundTo(unit.weight, 2),
+        pickEntryCount: unitPickEntryIds.length,
+      })),
+      pickEntryIds,
+    };
+  });
+
+  const loads = packages.map((workPackage) =>
+    balanceBy === 'WEIGHT'
+      ? workPackage.weight
+      : balanceBy === 'TIME'
+        ? workPackage.estimatedMinutes
+        : workPackage.itemCount,
+  );
+  const meanLoad = loads.length ? loads.reduce((total, load) => total + load, 0) / loads.length : 0;
+
+  return res.json({
+    runId: run.id,
+    balanceBy,
+    groupBy,
+    requestedPackages: packageCount,
+    packages,
+    // Spread between the heaviest and lightest package relative to the average; 0 is perfectly even.
+    imbalance: meanLoad > 0 ? roundTo((Math.max(...loads) - Math.min(...loads)) / meanLoad, 3) : 0,
+    ...(balanceBy === 'WEIGHT' ? { skusWithoutWeight: skusWithoutWeight.size } : {}),
+  });
+};
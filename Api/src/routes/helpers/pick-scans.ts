@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import type { AudioCommand } from './audio-commands.js';
+import { barcodeSchema, findSkusByBarcode } from './sku-barcodes.js';
+
+export const scanPickSchema = z.object({
+  code: barcodeSchema,
+});
+
+export class PickScanError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+    readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'PickScanError';
+  }
+}
+
+type ScannableEntry = {
+  id: string;
+  isPicked: boolean;
+};
+
+const describeItem = (command: AudioCommand) => ({
+  commandId: command.id,
+  skuId: command.skuId ?? null,
+  skuCode: command.skuCode ?? null,
+  skuName: command.skuName ?? null,
+  machineId: command.machineId ?? null,
+  machineCode: command.machineCode ?? null,
+  machineName: command.machineName ?? null,
+  locationId: command.locationId ?? null,
+  locationName: command.locationName ?? null,
+  count: command.count,
+});
+
+// Resolves a scanned barcode to the pick entries it confirms. The packer is taken to be at the machine of the first
+// item still pending in audio-command order; the scan must match a pending SKU at that machine, so a lookalike
+// flavour picked for the wrong machine or not on the session at all is rejected before it is marked picked.
+export const resolveScannedPick = async ({
+  companyId,
+  code,
+  commands,
+  entries,
+}: {
+  companyId: string;
+  code: string;
+  commands: AudioCommand[];
+  entries: ScannableEntry[];
+}) => {
+  const scannedSkus = await findSkusByBarcode(companyId, code);
+  if (!scannedSkus.length) {
+    throw new PickScanError('Barcode is not linked to any SKU', 404, { reason: 'UNKNOWN_BARCODE', code });
+  }
+
+  const pendingById = new Map(entries.filter((entry) => !entry.isPicked).map((entry) => [entry.id, entry]));
+  const pendingItems = commands
+    .filter((command) => command.type === 'item')
+    .map((command) => ({
+      command,
+      pickEntryIds: command.pickEntryIds.filter((id) => pendingById.has(id)),
+    }))
+    .filter((item) => item.pickEntryIds.length > 0);
+
+  const current = pendingItems[0];
+  if (!current) {
+    throw new PickScanError('Everything in this packing session has been picked', 409, {
+      reason: 'NOTHING_PENDING',
+      code,
+    });
+  }
+
+  const scannedSkuIds = new Set(scannedSkus.map((sku) => sku.id));
+  const currentMachineId = current.command.machineId ?? null;
+  const atCurrentMachine = pendingItems.filter((item) => (item.command.machineId ?? null) === currentMachineId);
+  const match = atCurrentMachine.find((item) => item.command.skuId && scannedSkuIds.has(item.command.skuId));
+  if (match) {
+    const matchedSku = scannedSkus.find((sku) => sku.id === match.command.skuId)!;
+    return { command: match.command, pickEntryIds: match.pickEntryIds, sku: matchedSku };
+  }
+
+  const expectedElsewhere = pendingItems.find(
+    (item) => item.command.skuId && scannedSkuIds.has(item.command.skuId),
+  );
+  throw new PickScanError(
+    expectedElsewhere
+      ? 'Scanned SKU is not expected at this machine'
+      : 'Scanned SKU is not part of this packing session',
+    409,
+    {
+      reason: expectedElsewhere ? 'WRONG_MACHINE' : 'NOT_IN_SESSION',
+      code,
+      scanned: scannedSkus,
+      expected: atCurrentMachine.map((item) => describeItem(item.command)),
+      ...(expectedElsewhere ? { expectedAt: describeItem(expectedElsewhere.command) } : {}),
+    },
+  );
+};
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import { PickShortageReason, RunActivityType } from '@prisma/client';
+import type { TransactionClient } from '../../lib/prisma.js';
+import { recordRunActivity } from './run-activity.js';
+import { resolvePickEntryCount } from './runs.js';
+import type { PickEntryCountSource } from './runs.js';
+
+export const pickQuantitySchema = z.object({
+  pickedCount: z.number().int().min(0),
+  // Required when fewer than the needed count were picked.
+  shortageReason: z.nativeEnum(PickShortageReason).nullable().optional(),
+});
+
+export const pickQuantitiesSchema = z.object({
+  picks: z
+    .array(pickQuantitySchema.extend({ pickId: z.string().trim().min(1) }))
+    .min(1)
+    .max(500),
+});
+
+export type PickQuantityInput = z.infer<typeof pickQuantitiesSchema>['picks'][number];
+
+export class PickQuantityError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+    readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'PickQuantityError';
+  }
+}
+
+type PickEntryForQuantity = PickEntryCountSource & {
+  id: string;
+  packingSessionId: string | null;
+  isPicked: boolean;
+  pickedAt: Date | null;
+  pickedCount: number | null;
+  shortageCount: number | null;
+  shortageReason: PickShortageReason | null;
+};
+
+const snapshotPickQuantity = (entry: {
+  isPicked: boolean;
+  pickedAt: Date | null;
+  pickedCount: number | null;
+  shortageCount: number | null;
+  shortageReason: PickShortageReason | null;
+}) => ({
+  isPicked: entry.isPicked,
+  pickedAt: entry.pickedAt?.toISOString() ?? null,
+  pickedCount: entry.pickedCount,
+  shortageCount: entry.shortageCount,
+  shortageReason: entry.shortageReason,
+});
+
+// Marks pick entries as picked with the quantity the packer actually found. A pick below the needed count is a
+// short pick and must say why; the shortage is stored against the needed count at the time so later overrides do
+// not rewrite what purchasing sees.
+export const recordPickQuantities = async (
+  tx: TransactionClient,
+  {
+    runId,
+    entries,
+    picks,
+    userId,
+  }: {
+    runId: string;
+    entries: PickEntryForQuantity[];
+    picks: PickQuantityInput[];
+    userId: string | null;
+  },
+) => {
+  const entriesById = new Map(entries.map((entry) => [entry.id, entry]));
+  const missingPickIds = picks.filter((pick) => !entriesById.has(pick.pickId)).map((pick) => pick.pickId);
+  if (missingPickIds.length) {
+    throw new PickQuantityError('Pick entries not found on this run', 404, { pickIds: missingPickIds });
+  }
+
+  const updates = picks.map((pick) => {
+    const entry = entriesById.get(pick.pickId)!;
+    const shortageCount = Math.max(0, resolvePickEntryCount(entry) - pick.pickedCount);
+    return { pick, entry, shortageCount };
+  });
+  const unexplained = updates.filter(({ pick, shortageCount }) => shortageCount > 0 && !pick.shortageReason);
+  if (unexplained.length) {
+    throw new PickQuantityError('A shortage reason is required for short picks', 400, {
+      pickIds: unexplained.map(({ pick }) => pick.pickId),
+    });
+  }
+
+  const pickedAt = new Date();
+  const results = [];
+  for (const { pick, entry, shortageCount } of updates) {
+    const data = {
+      isPicked: true,
+      pickedAt: entry.isPicked && entry.pickedAt ? entry.pickedAt : pickedAt,
+      pickedCount: pick.pickedCount,
+      shortageCount: shortageCount > 0 ? shortageCount : null,
+      shortageReason: shortageCount > 0 ? pick.shortageReason ?? null : null,
+    };
+    await tx.pickEntry.update({ where: { id: entry.id }, data });
+    results.push({ entry, data });
+  }
+
+  await recordRunActivity(tx, {
+    runId,
+    userId,
+    events: results.map(({ entry, data }) => ({
+      type: RunActivityType.PICK_STATUS_CHANGED,
+      pickEntryId: entry.id,
+      packingSessionId: entry.packingSessionId,
+      before: snapshotPickQuantity(entry),
+      after: snapshotPickQuantity(data),
+    })),
+  });
+
+  return results.map(({ entry, data }) => ({ id: entry.id, ...data }));
+};
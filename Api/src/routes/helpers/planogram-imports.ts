@@ -0,0 +1,195 @@
+import { prisma } from '../../lib/prisma.js';
+import type { TransactionClient } from '../../lib/prisma.js';
+import type { ParsedPickEntry } from '../../types/run-import.js';
+import { IMPORT_BATCH_SIZE, normalizeInteger, resolveImportEntities } from './run-import-entities.js';
+
+type PlanogramCount = {
+  created: number;
+  matched: number;
+};
+
+export type PlanogramSkuChange = {
+  machineCode: string;
+  coilCode: string;
+  previousSkuCodes: string[];
+  skuCode: string;
+};
+
+export type PlanogramParChange = {
+  machineCode: string;
+  coilCode: string;
+  skuCode: string;
+  previousPar: number;
+  par: number;
+};
+
+export type PlanogramRemovedCoil = {
+  machineCode: string;
+  coilCode: string;
+  skuCodes: string[];
+};
+
+type WorkbookCoil = {
+  code: string;
+  items: Map<string, ParsedPickEntry>;
+};
+
+type WorkbookMachine = {
+  code: string;
+  coils: Map<string, WorkbookCoil>;
+};
+
+export type PlanogramSyncReport = {
+  machines: PlanogramCount;
+  coils: PlanogramCount;
+  coilItems: PlanogramCount;
+  skuChanges: PlanogramSkuChange[];
+  parChanges: PlanogramParChange[];
+  removedCoils: PlanogramRemovedCoil[];
+};
+
+// Syncs machines, coils and coil item par from a workbook without touching runs or pick entries, and reports
+// how the stored planogram differed. Coils missing from the workbook and coil items whose SKU was replaced are
+// reported but kept, since earlier runs' pick entries still point at them.
+export const syncPlanogramFromWorkbook = async ({
+  entries,
+  companyId,
+  dryRun,
+}: {
+  entries: ParsedPickEntry[];
+  companyId: string;
+  dryRun: boolean;
+}): Promise<PlanogramSyncReport> => {
+  return prisma.$transaction(
+    async (tx) => {
+      const report = await diffPlanogram(tx, companyId, entries);
+      if (!dryRun) {
+        await resolveImportEntities(tx, companyId, entries);
+      }
+      return report;
+    },
+    {
+      timeout: 200000,
+      maxWait: 5000,
+    },
+  );
+};
+
+const diffPlanogram = async (
+  tx: TransactionClient,
+  companyId: string,
+  entries: ParsedPickEntry[],
+): Promise<PlanogramSyncReport> => {
+  const report: PlanogramSyncReport = {
+    machines: { created: 0, matched: 0 },
+    coils: { created: 0, matched: 0 },
+    coilItems: { created: 0, matched: 0 },
+    skuChanges: [],
+    parChanges: [],
+    removedCoils: [],
+  };
+
+  // Workbook coil items grouped by machine, then coil; the first row for a coil item wins, as on import.
+  const wanted = new Map<string, WorkbookMachine>();
+  entries.forEach((entry) => {
+    const machineCode = entry.coilItem.coil.machine.code.trim();
+    const coilCode = entry.coilItem.coil.code.trim();
+    const skuCode = entry.coilItem.sku.code.trim();
+    const machine: WorkbookMachine = wanted.get(machineCode.toLowerCase()) ?? { code: machineCode, coils: new Map() };
+    wanted.set(machineCode.toLowerCase(), machine);
+    const coil: WorkbookCoil = machine.coils.get(coilCode.toLowerCase()) ?? { code: coilCode, items: new Map() };
+    machine.coils.set(coilCode.toLowerCase(), coil);
+    if (!coil.items.has(skuCode.toLowerCase())) {
+      coil.items.set(skuCode.toLowerCase(), entry);
+    }
+  });
+
+  const codes = Array.from(wanted.values(), (machine) => machine.code);
+  const existingMachines = [];
+  for (let index = 0; index < codes.length; index += IMPORT_BATCH_SIZE) {
+    existingMachines.push(
+      ...(await tx.machine.findMany({
+        where: { companyId, code: { in: codes.slice(index, index + IMPORT_BATCH_SIZE) } },
+        select: {
+          code: true,
+          coils: {
+            select: {
+              code: true,
+              coilItems: {
+                select: {
+                  par: true,
+                  sku: { select: { code: true } },
+                },
+              },
+            },
+          },
+        },
+      })),
+    );
+  }
+  const machinesByCode = new Map(existingMachines.map((machine) => [machine.code.trim().toLowerCase(), machine]));
+
+  for (const [machineKey, machine] of wanted) {
+    const existingMachine = machinesByCode.get(machineKey);
+    if (!existingMachine) {
+      report.machines.created += 1;
+      report.coils.created += machine.coils.size;
+      machine.coils.forEach((coil) => {
+        report.coilItems.created += coil.items.size;
+      });
+      continue;
+    }
+    report.machines.matched += 1;
+
+    const coilsByCode = new Map(existingMachine.coils.map((coil) => [coil.code.trim().toLowerCase(), coil]));
+    for (const [coilKey, coil] of machine.coils) {
+      const existingCoil = coilsByCode.get(coilKey);
+      if (!existingCoil) {
+        report.coils.created += 1;
+        report.coilItems.created += coil.items.size;
+        continue;
+      }
+      report.coils.matched += 1;
+
+      const itemsBySku = new Map(existingCoil.coilItems.map((item) => [item.sku.code.trim().toLowerCase(), item]));
+      for (const [skuKey, entry] of coil.items) {
+        const existingItem = itemsBySku.get(skuKey);
+        const skuCode = entry.coilItem.sku.code.trim();
+        if (!existingItem) {
+          report.coilItems.created += 1;
+          const previousSkuCodes = existingCoil.coilItems
+            .map((item) => item.sku.code)
+            .filter((code) => !coil.items.has(code.trim().toLowerCase()));
+          if (previousSkuCodes.length) {
+            report.skuChanges.push({ machineCode: machine.code, coilCode: coil.code, previousSkuCodes, skuCode });
+          }
+          continue;
+        }
+
+        report.coilItems.matched += 1;
+        const par = normalizeInteger(entry.par, 0);
+        if (existingItem.par !== par) {
+          report.parChanges.push({
+            machineCode: machine.code,
+            coilCode: coil.code,
+            skuCode,
+            previousPar: existingItem.par,
+            par,
+          });
+        }
+      }
+    }
+
+    existingMachine.coils
+      .filter((coil) => !machine.coils.has(coil.code.trim().toLowerCase()))
+      .forEach((coil) => {
+        report.removedCoils.push({
+          machineCode: machine.code,
+          coilCode: coil.code,
+          skuCodes: coil.coilItems.map((item) => item.sku.code),
+        });
+      });
+  }
+
+  return report;
+};
@@ -0,0 +1,140 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { PackingSessionStatus } from '@prisma/client';
+import type { Prisma, RunActivityType } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+import type { TransactionClient } from '../../lib/prisma.js';
+
+const DEFAULT_ACTIVITY_LIMIT = 50;
+const MAX_ACTIVITY_LIMIT = 200;
+
+const listRunActivitySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_ACTIVITY_LIMIT).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+export type RunActivityInput = {
+  type: RunActivityType;
+  pickEntryId?: string | null;
+  // Defaults to the session the pick entry is assigned to, then the user's open session on the run.
+  packingSessionId?: string | null;
+  before?: Prisma.InputJsonValue | null;
+  after?: Prisma.InputJsonValue | null;
+};
+
+// The fields of a pick entry worth keeping once it has been deleted.
+export const snapshotPickEntry = (entry: {
+  coilItemId: string;
+  count: number;
+  override: number | null;
+  isPicked: boolean;
+  expiryDate: string | null;
+}) => ({
+  coilItemId: entry.coilItemId,
+  count: entry.count,
+  override: entry.override,
+  isPicked: entry.isPicked,
+  expiryDate: entry.expiryDate,
+});
+
+// Records activity on a run. Events are only ever inserted, never updated, so they can be trusted when counts in
+// a machine need explaining after packing.
+export const recordRunActivity = async (
+  client: TransactionClient,
+  { runId, userId, events }: { runId: string; userId: string | null; events: RunActivityInput[] },
+) => {
+  if (!events.length) {
+    return;
+  }
+
+  const openSession = userId
+    ? await client.packingSession.findFirst({
+        where: { runId, userId, status: PackingSessionStatus.STARTED },
+        orderBy: { startedAt: 'desc' },
+        select: { id: true },
+      })
+    : null;
+
+  await client.runActivityEvent.createMany({
+    data: events.map((event) => ({
+      runId,
+      userId,
+      type: event.type,
+      pickEntryId: event.pickEntryId ?? null,
+      packingSessionId: event.packingSessionId ?? openSession?.id ?? null,
+      ...(event.before != null ? { before: event.before } : {}),
+      ...(event.after != null ? { after: event.after } : {}),
+    })),
+  });
+};
+
+const runActivityInclude = {
+  user: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+} satisfies Prisma.RunActivityEventInclude;
+
+type RunActivityWithUser = Prisma.RunActivityEventGetPayload<{ include: typeof runActivityInclude }>;
+
+const serializeRunActivity = (event: RunActivityWithUser) => ({
+  id: event.id,
+  type: event.type,
+  pickEntryId: event.pickEntryId,
+  packingSessionId: event.packingSessionId,
+  user: event.user,
+  before: event.before,
+  after: event.after,
+  createdAt: event.createdAt,
+});
+
+// Pages through a run's activity, newest first. Passing pickEntryId narrows the feed to one pick entry, which
+// still works after the entry itself has been deleted.
+export const listRunActivity = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to view run activity' });
+  }
+
+  const runId = req.params.runId?.trim();
+  if (!runId) {
+    return res.status(400).json({ error: 'Run ID is required' });
+  }
+  const pickEntryId = req.params.pickId?.trim();
+
+  const parsed = listRunActivitySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters', details: parsed.error.flatten() });
+  }
+
+  const run = await prisma.run.findFirst({
+    where: { id: runId, companyId: req.auth.companyId },
+    select: { id: true },
+  });
+  if (!run) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+
+  const where: Prisma.RunActivityEventWhereInput = {
+    runId: run.id,
+    ...(pickEntryId ? { pickEntryId } : {}),
+  };
+  const limit = parsed.data.limit ?? DEFAULT_ACTIVITY_LIMIT;
+  const offset = parsed.data.offset ?? 0;
+
+  const [total, events] = await prisma.$transaction([
+    prisma.runActivityEvent.count({ where }),
+    prisma.runActivityEvent.findMany({
+      where,
+      include: runActivityInclude,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit,
+      skip: offset,
+    }),
+  ]);
+
+  return res.json({
+    total,
+    limit,
+    offset,
+    events: events.map(serializeRunActivity),
+  });
+};
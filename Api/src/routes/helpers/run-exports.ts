@@ -0,0 +1,415 @@
+import pkg from 'exceljs';
+import PDFDocument from 'pdfkit';
+import { prisma } from '../../lib/prisma.js';
+import { formatAppNullableDate } from './app-dates.js';
+import { ensureRun, resolvePickEntryCount } from './runs.js';
+
+const { Workbook } = pkg;
+
+export type RunExportFormat = 'xlsx' | 'pdf';
+
+type RunExportSource = NonNullable<Awaited<ReturnType<typeof ensureRun>>>;
+
+type PickSheetItem = {
+  locationId: string | null;
+  locationName: string;
+  machineCode: string;
+  coilCode: string;
+  skuCode: string;
+  skuName: string;
+  skuType: string | null;
+  labelColour: string | null;
+  count: number;
+  expiryDates: string[];
+  isPicked: boolean;
+};
+
+type PickSheetMachine = {
+  code: string;
+  description: string | null;
+  chocolateBoxNumbers: number[];
+  items: PickSheetItem[];
+};
+
+type PickSheetLocation = {
+  name: string;
+  address: string | null;
+  machines: PickSheetMachine[];
+};
+
+export type RunPickSheet = {
+  runId: string;
+  dateLabel: string | null;
+  runnerName: string | null;
+  locations: PickSheetLocation[];
+  chocolateBoxes: Array<{ number: number; locationName: string; machineCode: string }>;
+  // Null when the company does not separate cold-chest stock, in which case it stays in the machine lists.
+  coldChest: PickSheetItem[] | null;
+};
+
+type LocationGroup = {
+  id: string | null;
+  name: string;
+  address: string | null;
+  machinesById: Map<string, PickSheetMachine>;
+};
+
+const UNASSIGNED_LOCATION_NAME = 'No location';
+
+const compareCodes = (first: string, second: string) =>
+  first.localeCompare(second, undefined, { numeric: true, sensitivity: 'base' });
+
+// Accepts the hex colours the apps store ("#1A2B3C" or "1A2B3C") and returns the bare uppercase digits.
+const normalizeLabelColour = (value: string | null | undefined): string | null => {
+  const match = value?.trim().match(/^#?([0-9a-f]{6})$/i);
+  return match?.[1] ? match[1].toUpperCase() : null;
+};
+
+const formatExpiryDates = (item: PickSheetItem) => item.expiryDates.join(', ');
+
+// Loads a run and lays out its pick sheet: locations in the run's saved order (unordered ones by name after
+// them), then machines and coils by code. Returns null when the run is not in the company.
+export const buildRunPickSheet = async (companyId: string, runId: string): Promise<RunPickSheet | null> => {
+  const [run, company] = await Promise.all([
+    ensureRun(companyId, runId),
+    prisma.company.findUnique({
+      where: { id: companyId },
+      select: { timeZone: true, showColdChest: true, showChocolateBoxes: true },
+    }),
+  ]);
+  if (!run) {
+    return null;
+  }
+
+  return layoutPickSheet(run, {
+    timeZone: company?.timeZone ?? 'UTC',
+    showColdChest: company?.showColdChest ?? false,
+    showChocolateBoxes: company?.showChocolateBoxes ?? false,
+  });
+};
+
+const layoutPickSheet = (
+  run: RunExportSource,
+  settings: { timeZone: string; showColdChest: boolean; showChocolateBoxes: boolean },
+): RunPickSheet => {
+  const positions = new Map(
+    run.locationOrders
+      .filter((order) => order.locationId)
+      .map((order) => [order.locationId as string, order.position]),
+  );
+  const boxesByMachine = new Map<string, number[]>();
+  run.chocolateBoxes.forEach((box) => {
+    boxesByMachine.set(box.machineId, [...(boxesByMachine.get(box.machineId) ?? []), box.number]);
+  });
+
+  const locations = new Map<string, LocationGroup>();
+  const coldChest: PickSheetItem[] = [];
+
+  run.pickEntries
+    .filter((entry) => !entry.removedAt)
+    .forEach((entry) => {
+      const { coil, sku } = entry.coilItem;
+      const machine = coil.machine;
+      const location = machine.location;
+      const locationKey = location?.id ?? '';
+      const locationGroup: LocationGroup = locations.get(locationKey) ?? {
+        id: location?.id ?? null,
+        name: location?.name ?? UNASSIGNED_LOCATION_NAME,
+        address: location?.address ?? null,
+        machinesById: new Map(),
+      };
+      locations.set(locationKey, locationGroup);
+
+      const expiryDates = Array.from(
+        new Set([entry.expiryDate ?? '', ...entry.expiryOverrides.map((override) => override.expiryDate)]),
+      )
+        .filter((value) => value.trim().length > 0)
+        .sort();
+      const item: PickSheetItem = {
+        locationId: locationGroup.id,
+        locationName: locationGroup.name,
+        machineCode: machine.code,
+        coilCode: coil.code,
+        skuCode: sku.code,
+        skuName: sku.name,
+        skuType: sku.type,
+        labelColour: normalizeLabelColour(sku.labelColour),
+        count: resolvePickEntryCount(entry),
+        expiryDates,
+        isPicked: entry.isPicked,
+      };
+
+      if (settings.showColdChest && sku.isFreshOrFrozen) {
+        coldChest.push(item);
+        return;
+      }
+
+      const machineGroup: PickSheetMachine = locationGroup.machinesById.get(machine.id) ?? {
+        code: machine.code,
+        description: machine.description,
+        chocolateBoxNumbers: settings.showChocolateBoxes
+          ? [...(boxesByMachine.get(machine.id) ?? [])].sort((a, b) => a - b)
+          : [],
+        items: [],
+      };
+      locationGroup.machinesById.set(machine.id, machineGroup);
+      machineGroup.items.push(item);
+    });
+
+  const orderedLocations = Array.from(locations.values()).sort((first, second) => {
+    const firstPosition = first.id ? positions.get(first.id) : undefined;
+    const secondPosition = second.id ? positions.get(second.id) : undefined;
+    if (firstPosition !== undefined || secondPosition !== undefined) {
+      return (firstPosition ?? Number.MAX_SAFE_INTEGER) - (secondPosition ?? Number.MAX_SAFE_INTEGER);
+    }
+    if (!first.id || !second.id) {
+      return first.id ? -1 : second.id ? 1 : 0;
+    }
+    return first.name.localeCompare(second.name);
+  });
+  const locationRank = new Map(orderedLocations.map((location, index) => [location.id, index]));
+
+  const chocolateBoxes = settings.showChocolateBoxes
+    ? run.chocolateBoxes
+        .map((box) => ({
+          number: box.number,
+          locationName: box.machine.location?.name ?? UNASSIGNED_LOCATION_NAME,
+          machineCode: box.machine.code,
+        }))
+        .sort((a, b) => a.number - b.number)
+    : [];
+
+  return {
+    runId: run.id,
+    dateLabel: formatAppNullableDate(run.scheduledFor, settings.timeZone),
+    runnerName: run.runner ? `${run.runner.firstName} ${run.runner.lastName}`.trim() : null,
+    locations: orderedLocations
+      .map(({ name, address, machinesById }) => ({
+        name,
+        address,
+        machines: Array.from(machinesById.values())
+          .sort((a, b) => compareCodes(a.code, b.code))
+          .map((machine) => ({
+            ...machine,
+            items: machine.items.sort((a, b) => compareCodes(a.coilCode, b.coilCode)),
+          })),
+      }))
+      .filter((location) => location.machines.length),
+    chocolateBoxes,
+    coldChest: settings.showColdChest
+      ? coldChest.sort(
+          (a, b) =>
+            (locationRank.get(a.locationId) ?? 0) - (locationRank.get(b.locationId) ?? 0) ||
+            compareCodes(a.machineCode, b.machineCode) ||
+            compareCodes(a.coilCode, b.coilCode),
+        )
+      : null,
+  };
+};
+
+export const renderRunPickSheetXlsx = async (sheet: RunPickSheet): Promise<Buffer> => {
+  const workbook = new Workbook();
+  const title = `Pick list${sheet.dateLabel ? ` – ${sheet.dateLabel}` : ''}`;
+
+  const picks = workbook.addWorksheet('Pick list', { views: [{ state: 'frozen', ySplit: 2 }] });
+  picks.columns = [
+    { key: 'coil', width: 8 },
+    { key: 'sku', width: 16 },
+    { key: 'name', width: 32 },
+    { key: 'type', width: 16 },
+    { key: 'count', width: 8 },
+    { key: 'expiry', width: 24 },
+    { key: 'picked', width: 8 },
+  ];
+  picks.addRow([title]).font = { bold: true, size: 14 };
+  const header = picks.addRow(['Coil', 'SKU', 'Name', 'Type', 'Count', 'Expiry', 'Picked']);
+  header.font = { bold: true };
+
+  const addItemRow = (worksheet: pkg.Worksheet, values: Array<string | number>, item: PickSheetItem, skuColumn: number) => {
+    const row = worksheet.addRow(values);
+    if (item.labelColour) {
+      row.getCell(skuColumn).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: `FF${item.labelColour}` } };
+    }
+    return row;
+  };
+
+  sheet.locations.forEach((location) => {
+    picks.addRow([]);
+    const locationRow = picks.addRow([location.address ? `${location.name} – ${location.address}` : location.name]);
+    locationRow.font = { bold: true, size: 12 };
+    location.machines.forEach((machine) => {
+      const boxes = machine.chocolateBoxNumbers.length ? ` (box ${machine.chocolateBoxNumbers.join(', ')})` : '';
+      const machineRow = picks.addRow([`${machine.code}${machine.description ? ` – ${machine.description}` : ''}${boxes}`]);
+      machineRow.font = { bold: true, italic: true };
+      machine.items.forEach((item) => {
+        addItemRow(
+          picks,
+          [item.coilCode, item.skuCode, item.skuName, item.skuType ?? '', item.count, formatExpiryDates(item), item.isPicked ? '✓' : ''],
+          item,
+          2,
+        );
+      });
+    });
+  });
+
+  if (sheet.chocolateBoxes.length) {
+    const boxes = workbook.addWorksheet('Chocolate boxes');
+    boxes.columns = [
+      { header: 'Box', key: 'number', width: 8 },
+      { header: 'Location', key: 'location', width: 32 },
+      { header: 'Machine', key: 'machine', width: 16 },
+    ];
+    boxes.getRow(1).font = { bold: true };
+    sheet.chocolateBoxes.forEach((box) => {
+      boxes.addRow({ number: box.number, location: box.locationName, machine: box.machineCode });
+    });
+  }
+
+  if (sheet.coldChest) {
+    const cold = workbook.addWorksheet('Cold chest');
+    cold.columns = [
+      { header: 'Location', key: 'location', width: 32 },
+      { header: 'Machine', key: 'machine', width: 16 },
+      { header: 'Coil', key: 'coil', width: 8 },
+      { header: 'SKU', key: 'sku', width: 16 },
+      { header: 'Name', key: 'name', width: 32 },
+      { header: 'Count', key: 'count', width: 8 },
+      { header: 'Expiry', key: 'expiry', width: 24 },
+      { header: 'Picked', key: 'picked', width: 8 },
+    ];
+    cold.getRow(1).font = { bold: true };
+    sheet.coldChest.forEach((item) => {
+      addItemRow(
+        cold,
+        [
+          item.locationName,
+          item.machineCode,
+          item.coilCode,
+          item.skuCode,
+          item.skuName,
+          item.count,
+          formatExpiryDates(item),
+          item.isPicked ? '✓' : '',
+        ],
+        item,
+        4,
+      );
+    });
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+const PDF_MARGIN = 36;
+const PDF_ROW_HEIGHT = 16;
+const PDF_SWATCH_SIZE = 8;
+
+// Column x offsets (from the left margin) and widths for the item rows on an A4 portrait page.
+const PDF_COLUMNS = {
+  picked: { x: 0, width: 16 },
+  coil: { x: 20, width: 40 },
+  sku: { x: 64, width: 96 },
+  name: { x: 164, width: 170 },
+  count: { x: 338, width: 40 },
+  expiry: { x: 382, width: 141 },
+};
+
+export const renderRunPickSheetPdf = (sheet: RunPickSheet): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: PDF_MARGIN });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = PDF_MARGIN;
+    const bottom = doc.page.height - PDF_MARGIN;
+    const ensureSpace = (height: number) => {
+      if (doc.y + height > bottom) {
+        doc.addPage();
+      }
+    };
+    const heading = (text: string, size: number) => {
+      ensureSpace(size + PDF_ROW_HEIGHT * 2);
+      doc.font('Helvetica-Bold').fontSize(size).text(text, left, doc.y);
+      doc.moveDown(0.3);
+    };
+    const cell = (text: string, column: { x: number; width: number }, y: number, align: 'left' | 'right' = 'left') => {
+      doc.text(text, left + column.x, y, { width: column.width, align, lineBreak: false, ellipsis: true });
+    };
+    const itemRow = (item: PickSheetItem) => {
+      ensureSpace(PDF_ROW_HEIGHT);
+      const y = doc.y;
+      doc.font('Helvetica').fontSize(9);
+      // An empty box to tick by hand; entries already picked in the app print filled in.
+      const checkbox = doc.rect(left + PDF_COLUMNS.picked.x, y, PDF_SWATCH_SIZE + 2, PDF_SWATCH_SIZE + 2);
+      if (item.isPicked) {
+        checkbox.fillAndStroke('#999999', 'black');
+      } else {
+        checkbox.stroke();
+      }
+      doc.fillColor('black');
+      cell(item.coilCode, PDF_COLUMNS.coil, y);
+      if (item.labelColour) {
+        doc
+          .save()
+          .rect(left + PDF_COLUMNS.sku.x, y + 1, PDF_SWATCH_SIZE, PDF_SWATCH_SIZE)
+          .fill(`#${item.labelColour}`)
+          .restore();
+      }
+      doc.fillColor('black');
+      cell(item.skuCode, { x: PDF_COLUMNS.sku.x + PDF_SWATCH_SIZE + 4, width: PDF_COLUMNS.sku.width - PDF_SWATCH_SIZE - 4 }, y);
+      cell(item.skuType ? `${item.skuName} (${item.skuType})` : item.skuName, PDF_COLUMNS.name, y);
+      doc.font('Helvetica-Bold');
+      cell(String(item.count), PDF_COLUMNS.count, y, 'right');
+      doc.font('Helvetica');
+      cell(formatExpiryDates(item), PDF_COLUMNS.expiry, y);
+      doc.y = y + PDF_ROW_HEIGHT;
+    };
+
+    doc.font('Helvetica-Bold').fontSize(18).text(`Pick list${sheet.dateLabel ? ` – ${sheet.dateLabel}` : ''}`);
+    if (sheet.runnerName) {
+      doc.font('Helvetica').fontSize(10).text(`Runner: ${sheet.runnerName}`);
+    }
+    doc.moveDown();
+
+    sheet.locations.forEach((location) => {
+      heading(location.name, 13);
+      if (location.address) {
+        doc.font('Helvetica').fontSize(9).fillColor('#555555').text(location.address).fillColor('black');
+        doc.moveDown(0.3);
+      }
+      location.machines.forEach((machine) => {
+        const boxes = machine.chocolateBoxNumbers.length ? `  ·  Box ${machine.chocolateBoxNumbers.join(', ')}` : '';
+        heading(`${machine.code}${machine.description ? ` – ${machine.description}` : ''}${boxes}`, 10);
+        machine.items.forEach((item) => itemRow(item));
+        doc.moveDown(0.5);
+      });
+      doc.moveDown(0.5);
+    });
+
+    if (sheet.chocolateBoxes.length) {
+      heading('Chocolate boxes', 13);
+      doc.font('Helvetica').fontSize(9);
+      sheet.chocolateBoxes.forEach((box) => {
+        ensureSpace(PDF_ROW_HEIGHT);
+        doc.text(`Box ${box.number}  –  ${box.machineCode}, ${box.locationName}`, left, doc.y);
+      });
+      doc.moveDown();
+    }
+
+    if (sheet.coldChest?.length) {
+      heading('Cold chest', 13);
+      let currentMachine = '';
+      sheet.coldChest.forEach((item) => {
+        const machineLabel = `${item.locationName} – ${item.machineCode}`;
+        if (machineLabel !== currentMachine) {
+          currentMachine = machineLabel;
+          heading(machineLabel, 10);
+        }
+        itemRow(item);
+      });
+    }
+
+    doc.end();
+  });
@@ -0,0 +1,474 @@
+import type { Prisma } from '@prisma/client';
+import type { TransactionClient } from '../../lib/prisma.js';
+import { computeExpiryDateLabel } from './app-dates.js';
+import type {
+  ParsedMachine,
+  ParsedMachineLocation,
+  ParsedMachineType,
+  ParsedPickEntry,
+} from '../../types/run-import.js';
+
+export class RunImportError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode = 400,
+  ) {
+    super(message);
+    this.name = 'RunImportError';
+  }
+}
+
+// Keeps IN lists and createMany payloads well inside MySQL's placeholder limit.
+export const IMPORT_BATCH_SIZE = 1000;
+
+const chunk = <T>(items: T[]): T[][] => {
+  const batches: T[][] = [];
+  for (let index = 0; index < items.length; index += IMPORT_BATCH_SIZE) {
+    batches.push(items.slice(index, index + IMPORT_BATCH_SIZE));
+  }
+  return batches;
+};
+
+const findInBatches = async <V, T>(values: V[], find: (batch: V[]) => Promise<T[]>): Promise<T[]> => {
+  const results: T[] = [];
+  for (const batch of chunk(values)) {
+    results.push(...(await find(batch)));
+  }
+  return results;
+};
+
+export const createInBatches = async <T>(items: T[], create: (batch: T[]) => Promise<unknown>) => {
+  for (const batch of chunk(items)) {
+    await create(batch);
+  }
+};
+
+// The first occurrence of a key wins, so the first workbook row for an entity decides what is written for it.
+const indexByKey = <T>(items: T[], toKey: (item: T) => string | null): Map<string, T> => {
+  const result = new Map<string, T>();
+  items.forEach((item) => {
+    const key = toKey(item);
+    if (key !== null && !result.has(key)) {
+      result.set(key, item);
+    }
+  });
+  return result;
+};
+
+const toIdMap = (records: Map<string, { id: string }>) =>
+  new Map(Array.from(records, ([key, record]) => [key, record.id]));
+
+type ImportSkuRecord = {
+  id: string;
+  countNeededPointer: string | null;
+  expiryDays: number;
+};
+
+export type ResolvedPickEntry = {
+  entry: ParsedPickEntry;
+  coilItemId: string;
+  sku: ImportSkuRecord;
+};
+
+const locationKey = (location: ParsedMachineLocation | null) => location?.name.trim().toLowerCase() || null;
+
+const machineTypeName = (machineType: ParsedMachineType | null) => machineType?.name?.trim() || 'General';
+
+const machineCode = (machine: ParsedMachine) => {
+  const code = machine.code?.trim();
+  if (!code) {
+    throw new RunImportError('Encountered a machine without a code in the workbook.');
+  }
+  return code;
+};
+
+const coilCode = (entry: ParsedPickEntry) => {
+  const code = entry.coilItem.coil.code?.trim();
+  if (!code) {
+    throw new RunImportError('Encountered a coil without a code in the workbook.');
+  }
+  return code;
+};
+
+const skuCode = (entry: ParsedPickEntry) => {
+  const code = entry.coilItem.sku.code?.trim();
+  if (!code) {
+    throw new RunImportError('Encountered a SKU without a code in the workbook.');
+  }
+  return code;
+};
+
+// Resolves or creates every record the pick entries point at, one entity kind per phase, so an import costs a
+// few batched queries per kind rather than a lookup chain per entry. Existing rows are only updated when the
+// workbook changes them. The result is aligned with `entries`.
+export const resolveImportEntities = async (
+  tx: TransactionClient,
+  companyId: string,
+  entries: ParsedPickEntry[],
+): Promise<ResolvedPickEntry[]> => {
+  const machines = entries.map((entry) => entry.coilItem.coil.machine);
+  const locationIds = await resolveLocations(tx, companyId, machines);
+  const machineTypeIds = await resolveMachineTypes(tx, machines);
+  const machineIds = await resolveMachines(tx, companyId, machines, locationIds, machineTypeIds);
+
+  const coilIds = await resolveCoils(tx, entries, machineIds);
+  const skus = await resolveSkus(tx, companyId, entries);
+
+  const links = entries.map((entry) => {
+    const machineId = machineIds.get(machineCode(entry.coilItem.coil.machine).toLowerCase());
+    const coilId = coilIds.get(`${machineId}:${coilCode(entry).toLowerCase()}`);
+    const sku = skus.get(skuCode(entry).toLowerCase());
+    if (!coilId || !sku) {
+      throw new RunImportError(`Unable to resolve coil ${entry.coilItem.coil.code} for SKU ${entry.coilItem.sku.code}.`);
+    }
+    return { entry, coilId, sku };
+  });
+  const coilItemIds = await resolveCoilItems(tx, links);
+
+  return links.map(({ entry, coilId, sku }) => ({
+    entry,
+    coilItemId: coilItemIds.get(`${coilId}:${sku.id}`)!,
+    sku,
+  }));
+};
+
+const resolveLocations = async (tx: TransactionClient, companyId: string, machines: ParsedMachine[]) => {
+  const wanted = indexByKey(
+    machines.flatMap((machine) => (machine.location ? [machine.location] : [])),
+    locationKey,
+  );
+  const names = Array.from(wanted.values(), (location) => location.name.trim());
+  const load = async () =>
+    indexByKey(
+      await findInBatches(names, (batch) =>
+        tx.location.findMany({
+          where: { companyId, name: { in: batch } },
+          select: { id: true, name: true, address: true },
+        }),
+      ),
+      (location) => location.name.trim().toLowerCase(),
+    );
+
+  const existing = await load();
+  const missing: Prisma.LocationCreateManyInput[] = [];
+  for (const [key, location] of wanted) {
+    const record = existing.get(key);
+    if (!record) {
+      missing.push({ companyId, name: location.name.trim(), address: location.address ?? null });
+    } else if (location.address && record.address !== location.address) {
+      await tx.location.update({
+        where: { id: record.id },
+        data: { address: location.address },
+      });
+    }
+  }
+
+  if (!missing.length) {
+    return toIdMap(existing);
+  }
+  await createInBatches(missing, (data) => tx.location.createMany({ data }));
+  return toIdMap(await load());
+};
+
+const resolveMachineTypes = async (tx: TransactionClient, machines: ParsedMachine[]) => {
+  const wanted = indexByKey(
+    machines.map((machine) => machine.machineType),
+    (machineType) => machineTypeName(machineType).toLowerCase(),
+  );
+  const names = Array.from(wanted.values(), machineTypeName);
+  const load = async () =>
+    indexByKey(await tx.machineType.findMany({ where: { name: { in: names } } }), (machineType) =>
+      machineType.name.toLowerCase(),
+    );
+
+  const existing = await load();
+  const missing: Prisma.MachineTypeCreateManyInput[] = [];
+  for (const [key, machineType] of wanted) {
+    const record = existing.get(key);
+    if (!record) {
+      missing.push({ name: machineTypeName(machineType), description: machineType?.category ?? null });
+    } else if (machineType?.category && record.description !== machineType.category) {
+      await tx.machineType.update({
+        where: { id: record.id },
+        data: { description: machineType.category },
+      });
+    }
+  }
+
+  if (!missing.length) {
+    return toIdMap(existing);
+  }
+  await tx.machineType.createMany({ data: missing });
+  return toIdMap(await load());
+};
+
+const resolveMachines = async (
+  tx: TransactionClient,
+  companyId: string,
+  machines: ParsedMachine[],
+  locationIds: Map<string, string>,
+  machineTypeIds: Map<string, string>,
+) => {
+  const wanted = indexByKey(machines, (machine) => machineCode(machine).toLowerCase());
+  const codes = Array.from(wanted.values(), machineCode);
+  const load = async () =>
+    indexByKey(
+      await findInBatches(codes, (batch) => tx.machine.findMany({ where: { companyId, code: { in: batch } } })),
+      (machine) => machine.code.trim().toLowerCase(),
+    );
+
+  const existing = await load();
+  const missing: Prisma.MachineCreateManyInput[] = [];
+  for (const [key, machine] of wanted) {
+    const location = locationKey(machine.location);
+    const locationId = location ? locationIds.get(location) ?? null : null;
+    const machineTypeId = machineTypeIds.get(machineTypeName(machine.machineType).toLowerCase())!;
+    const description = machine.name?.trim() || null;
+    const record = existing.get(key);
+    if (!record) {
+      missing.push({ companyId, code: machineCode(machine), description, machineTypeId, locationId });
+      continue;
+    }
+
+    const updates: Prisma.MachineUncheckedUpdateInput = {};
+    if (locationId && record.locationId !== locationId) {
+      updates.locationId = locationId;
+    }
+    if (record.machineTypeId !== machineTypeId) {
+      updates.machineTypeId = machineTypeId;
+    }
+    if (description && record.description !== description) {
+      updates.description = description;
+    }
+    if (Object.keys(updates).length) {
+      await tx.machine.update({
+        where: { id: record.id },
+        data: updates,
+      });
+    }
+  }
+
+  if (!missing.length) {
+    return toIdMap(existing);
+  }
+  await createInBatches(missing, (data) => tx.machine.createMany({ data }));
+  return toIdMap(await load());
+};
+
+// Keys are `${machineId}:${lower-cased coil code}`.
+const resolveCoils = async (tx: TransactionClient, entries: ParsedPickEntry[], machineIds: Map<string, string>) => {
+  const wanted = indexByKey(
+    entries.map((entry) => ({
+      machineId: machineIds.get(machineCode(entry.coilItem.coil.machine).toLowerCase())!,
+      code: coilCode(entry),
+    })),
+    (coil) => `${coil.machineId}:${coil.code.toLowerCase()}`,
+  );
+  const ids = Array.from(new Set(Array.from(wanted.values(), (coil) => coil.machineId)));
+  const load = async () =>
+    indexByKey(
+      await findInBatches(ids, (batch) =>
+        tx.coil.findMany({
+          where: { machineId: { in: batch } },
+          select: { id: true, machineId: true, code: true },
+        }),
+      ),
+      (coil) => `${coil.machineId}:${coil.code.trim().toLowerCase()}`,
+    );
+
+  const existing = await load();
+  const missing = Array.from(wanted)
+    .filter(([key]) => !existing.has(key))
+    .map(([, coil]): Prisma.CoilCreateManyInput => coil);
+
+  if (!missing.length) {
+    return toIdMap(existing);
+  }
+  await createInBatches(missing, (data) => tx.coil.createMany({ data }));
+  return toIdMap(await load());
+};
+
+const resolveSkus = async (tx: TransactionClient, companyId: string, entries: ParsedPickEntry[]) => {
+  const wanted = indexByKey(
+    entries.map((entry) => ({ ...entry.coilItem.sku, code: skuCode(entry) })),
+    (sku) => sku.code.toLowerCase(),
+  );
+  const codes = Array.from(wanted.values(), (sku) => sku.code);
+  const load = async () => {
+    const records = await findInBatches(codes, (batch) =>
+      tx.sKU.findMany({
+        where: {
+          code: { in: batch },
+          OR: [{ companyId }, { companyId: null }],
+        },
+      }),
+    );
+    // A company's own SKU wins over an unclaimed one with the same code.
+    const byCode = new Map<string, (typeof records)[number]>();
+    records.forEach((record) => {
+      const key = record.code.trim().toLowerCase();
+      const current = byCode.get(key);
+      if (!current || (!current.companyId && record.companyId)) {
+        byCode.set(key, record);
+      }
+    });
+    return byCode;
+  };
+
+  const existing = await load();
+  const missing: Prisma.SKUCreateManyInput[] = [];
+  for (const [key, sku] of wanted) {
+    const record = existing.get(key);
+    if (!record) {
+      missing.push({
+        companyId,
+        code: sku.code,
+        name: sku.name?.trim() || sku.code,
+        type: sku.type?.trim() || 'General',
+        category: sku.category?.trim() || null,
+      });
+      continue;
+    }
+
+    const updates: Prisma.SKUUncheckedUpdateInput = {};
+    if (!record.companyId) {
+      updates.companyId = companyId;
+    }
+    const name = sku.name?.trim() || null;
+    if (name && record.name !== name) {
+      updates.name = name;
+    }
+    const type = sku.type?.trim() || 'General';
+    if (type && record.type !== type) {
+      updates.type = type;
+    }
+    const category = sku.category?.trim() || null;
+    if (category && record.category !== category) {
+      updates.category = category;
+    }
+    if (Object.keys(updates).length) {
+      await tx.sKU.update({
+        where: { id: record.id },
+        data: updates,
+      });
+    }
+  }
+
+  if (missing.length) {
+    await createInBatches(missing, (data) => tx.sKU.createMany({ data }));
+  }
+  const records = missing.length ? await load() : existing;
+  return new Map(
+    Array.from(records, ([key, record]): [string, ImportSkuRecord] => [
+      key,
+      { id: record.id, countNeededPointer: record.countNeededPointer, expiryDays: record.expiryDays },
+    ]),
+  );
+};
+
+// Keys are `${coilId}:${skuId}`. Par follows the first entry for each coil item.
+const resolveCoilItems = async (
+  tx: TransactionClient,
+  links: Array<{ entry: ParsedPickEntry; coilId: string; sku: ImportSkuRecord }>,
+) => {
+  const wanted = indexByKey(
+    links.map(({ entry, coilId, sku }) => ({ coilId, skuId: sku.id, par: normalizeInteger(entry.par, 0) })),
+    (coilItem) => `${coilItem.coilId}:${coilItem.skuId}`,
+  );
+  const coilIds = Array.from(new Set(Array.from(wanted.values(), (coilItem) => coilItem.coilId)));
+  const load = async () =>
+    indexByKey(
+      await findInBatches(coilIds, (batch) =>
+        tx.coilItem.findMany({
+          where: { coilId: { in: batch } },
+          select: { id: true, coilId: true, skuId: true, par: true },
+        }),
+      ),
+      (coilItem) => `${coilItem.coilId}:${coilItem.skuId}`,
+    );
+
+  const existing = await load();
+  const missing: Prisma.CoilItemCreateManyInput[] = [];
+  const parChanges = new Map<number, string[]>();
+  for (const [key, coilItem] of wanted) {
+    const record = existing.get(key);
+    if (!record) {
+      missing.push(coilItem);
+    } else if (record.par !== coilItem.par) {
+      parChanges.set(coilItem.par, [...(parChanges.get(coilItem.par) ?? []), record.id]);
+    }
+  }
+
+  // Par changes are grouped by value so a planogram refresh costs one update per distinct par.
+  for (const [par, ids] of parChanges) {
+    await createInBatches(ids, (batch) =>
+      tx.coilItem.updateMany({
+        where: { id: { in: batch } },
+        data: { par },
+      }),
+    );
+  }
+
+  if (!missing.length) {
+    return toIdMap(existing);
+  }
+  await createInBatches(missing, (data) => tx.coilItem.createMany({ data }));
+  return toIdMap(await load());
+};
+
+export const toPickEntryData = (
+  runId: string,
+  scheduledFor: Date | null,
+  timeZone: string,
+  { entry, coilItemId, sku }: ResolvedPickEntry,
+): Prisma.PickEntryCreateManyInput => ({
+  runId,
+  coilItemId,
+  count: resolveImportedCount(entry, sku.countNeededPointer),
+  current: normalizeInteger(entry.current),
+  par: normalizeInteger(entry.par),
+  need: normalizeInteger(entry.need),
+  forecast: normalizeInteger(entry.forecast),
+  total: normalizeInteger(entry.total),
+  expiryDate: computeExpiryDateLabel({
+    scheduledFor,
+    timeZone,
+    expiryDays: sku.expiryDays ?? 0,
+  }),
+});
+
+// Uses the SKU's countNeededPointer to determine which workbook column becomes the pick count.
+export const resolveImportedCount = (entry: ParsedPickEntry, countNeededPointer: string | null | undefined): number => {
+  const countPointer = countNeededPointer || 'total';
+
+  switch (countPointer.toLowerCase()) {
+    case 'count':
+      return normalizeInteger(entry.count, 0);
+    case 'need':
+      return normalizeInteger(entry.need, 0);
+    case 'forecast':
+      return normalizeInteger(entry.forecast, 0);
+    case 'total':
+    default:
+      // Default behavior: try count, then need, then forecast, then fallback to 0
+      return (
+        normalizeInteger(entry.count, undefined) ??
+        normalizeInteger(entry.need, undefined) ??
+        normalizeInteger(entry.forecast, undefined) ??
+        0
+      );
+  }
+};
+
+export function normalizeInteger(value: number | null | undefined, fallback: number): number;
+export function normalizeInteger(value: number | null | undefined, fallback?: number): number | null;
+export function normalizeInteger(value: number | null | undefined, fallback?: number): number | null {
+  if (value === null || value === undefined) {
+    return fallback ?? null;
+  }
+  if (!Number.isFinite(value)) {
+    return fallback ?? null;
+  }
+  const rounded = Math.round(value);
+  return Number.isFinite(rounded) ? rounded : fallback ?? null;
+}
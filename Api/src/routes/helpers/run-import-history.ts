@@ -0,0 +1,219 @@
+import { createHash } from 'node:crypto';
+import path from 'node:path';
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import type { Prisma, RunImportStatus } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+import { workbookStorage } from '../../lib/workbook-storage.js';
+import type { RunImportIssue } from '../../types/run-import.js';
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+
+const WORKBOOK_CONTENT_TYPES: Record<string, string> = {
+  '.xls': 'application/vnd.ms-excel',
+  '.csv': 'text/csv',
+};
+const DEFAULT_WORKBOOK_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const listRunImportsSchema = z.object({
+  status: z.enum(['PROCESSING', 'SUCCEEDED', 'FAILED', 'PREVIEWED']).optional(),
+  runId: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_HISTORY_LIMIT).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+const runImportInclude = {
+  uploader: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
+} satisfies Prisma.RunImportInclude;
+
+type RunImportWithUploader = Prisma.RunImportGetPayload<{
+  include: typeof runImportInclude;
+}>;
+
+// Records an upload and stores its workbook before any parsing happens, so failed imports keep their source file.
+export const startRunImportRecord = async ({
+  companyId,
+  userId,
+  file,
+  dryRun,
+}: {
+  companyId: string;
+  userId: string;
+  file: Express.Multer.File;
+  dryRun: boolean;
+}) => {
+  const fileHash = createHash('sha256').update(file.buffer).digest('hex');
+  const extension = path.extname(file.originalname || '').toLowerCase() || '.xlsx';
+  let storageKey: string | null = `${companyId}/${fileHash}${extension}`;
+
+  try {
+    await workbookStorage.save(storageKey, file.buffer);
+  } catch (error) {
+    console.error('Failed to store uploaded run workbook', error);
+    storageKey = null;
+  }
+
+  return prisma.runImport.create({
+    data: {
+      companyId,
+      uploadedBy: userId,
+      dryRun,
+      fileName: file.originalname || 'workbook.xlsx',
+      fileSize: file.size,
+      fileHash,
+      storageKey,
+    },
+  });
+};
+
+export const completeRunImportRecord = async (
+  importId: string,
+  result: {
+    status: Exclude<RunImportStatus, 'PROCESSING'>;
+    runId?: string | null;
+    summary?: Prisma.InputJsonValue;
+    issues?: RunImportIssue[];
+    error?: string | null;
+  },
+) => {
+  try {
+    await prisma.runImport.update({
+      where: { id: importId },
+      data: {
+        status: result.status,
+        runId: result.runId ?? null,
+        ...(result.summary !== undefined ? { summary: result.summary } : {}),
+        ...(result.issues !== undefined ? { issues: result.issues as unknown as Prisma.InputJsonValue } : {}),
+        error: result.error ?? null,
+        completedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    // History is best effort; never fail an import because its audit row could not be updated.
+    console.error('Failed to update run import history', error);
+  }
+};
+
+const serializeRunImport = (record: RunImportWithUploader) => ({
+  id: record.id,
+  status: record.status,
+  dryRun: record.dryRun,
+  fileName: record.fileName,
+  fileSize: record.fileSize,
+  fileHash: record.fileHash,
+  hasStoredFile: Boolean(record.storageKey),
+  runId: record.runId,
+  summary: record.summary,
+  error: record.error,
+  createdAt: record.createdAt,
+  completedAt: record.completedAt,
+  uploader: record.uploader
+    ? {
+        id: record.uploader.id,
+        firstName: record.uploader.firstName,
+        lastName: record.uploader.lastName,
+        email: record.uploader.email,
+      }
+    : null,
+});
+
+export const listRunImports = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to view run imports' });
+  }
+
+  const parsed = listRunImportsSchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters', details: parsed.error.flatten() });
+  }
+
+  const { status, runId, limit, offset } = parsed.data;
+  const where: Prisma.RunImportWhereInput = {
+    companyId: req.auth.companyId,
+    ...(status ? { status } : {}),
+    ...(runId ? { runId } : {}),
+  };
+
+  const [total, records] = await prisma.$transaction([
+    prisma.runImport.count({ where }),
+    prisma.runImport.findMany({
+      where,
+      include: runImportInclude,
+      orderBy: { createdAt: 'desc' },
+      take: limit ?? DEFAULT_HISTORY_LIMIT,
+      skip: offset ?? 0,
+    }),
+  ]);
+
+  return res.json({
+    total,
+    imports: records.map(serializeRunImport),
+  });
+};
+
+const findRunImport = async (companyId: string, importId: string) => {
+  const record = await prisma.runImport.findUnique({
+    where: { id: importId },
+    include: runImportInclude,
+  });
+  if (!record || record.companyId !== companyId) {
+    return null;
+  }
+  return record;
+};
+
+export const getRunImport = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to view run imports' });
+  }
+
+  const importId = req.params.importId?.trim();
+  if (!importId) {
+    return res.status(400).json({ error: 'Import ID is required' });
+  }
+
+  const record = await findRunImport(req.auth.companyId, importId);
+  if (!record) {
+    return res.status(404).json({ error: 'Run import not found' });
+  }
+
+  return res.json({
+    ...serializeRunImport(record),
+    issues: record.issues ?? [],
+  });
+};
+
+export const downloadRunImportWorkbook = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to download run imports' });
+  }
+
+  const importId = req.params.importId?.trim();
+  if (!importId) {
+    return res.status(400).json({ error: 'Import ID is required' });
+  }
+
+  const record = await findRunImport(req.auth.companyId, importId);
+  if (!record) {
+    return res.status(404).json({ error: 'Run import not found' });
+  }
+
+  const contents = record.storageKey ? await workbookStorage.read(record.storageKey) : null;
+  if (!contents) {
+    return res.status(404).json({ error: 'The workbook for this import is no longer stored' });
+  }
+
+  const safeFileName = record.fileName.replace(/["\\\r\n]/g, '_');
+  const extension = path.extname(record.fileName).toLowerCase();
+  res.setHeader('Content-Type', WORKBOOK_CONTENT_TYPES[extension] ?? DEFAULT_WORKBOOK_CONTENT_TYPE);
+  res.setHeader('Content-Disposition', `attachment; filename="${safeFileName}"`);
+  return res.send(contents);
+};
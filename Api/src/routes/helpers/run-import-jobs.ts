@@ -0,0 +1,168 @@
+import type { Request, Response } from 'express';
+import type { RunImport } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+import type { RunImportIssue } from '../../types/run-import.js';
+
+// Finished jobs stay in memory long enough for a polling client to collect the result; the history record
+// answers for them afterwards.
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+
+export type RunImportJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export type RunImportJobPhase = 'queued' | 'parsing' | 'previewing' | 'persisting' | 'finalizing' | 'done';
+
+export type RunImportJob = {
+  // Jobs share their id with the run import history record they belong to.
+  id: string;
+  companyId: string;
+  dryRun: boolean;
+  status: RunImportJobStatus;
+  phase: RunImportJobPhase;
+  percent: number;
+  issues: RunImportIssue[];
+  runId: string | null;
+  runIds: string[];
+  error: string | null;
+  result: Record<string, unknown> | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+};
+
+const jobs = new Map<string, RunImportJob>();
+
+export const createRunImportJob = ({
+  importId,
+  companyId,
+  dryRun,
+}: {
+  importId: string;
+  companyId: string;
+  dryRun: boolean;
+}): RunImportJob => {
+  const now = new Date();
+  const job: RunImportJob = {
+    id: importId,
+    companyId,
+    dryRun,
+    status: 'queued',
+    phase: 'queued',
+    percent: 0,
+    issues: [],
+    runId: null,
+    runIds: [],
+    error: null,
+    result: null,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null,
+  };
+  jobs.set(job.id, job);
+  return job;
+};
+
+export const reportRunImportProgress = (job: RunImportJob, phase: RunImportJobPhase, percent: number) => {
+  job.status = 'running';
+  job.phase = phase;
+  // Progress never moves backwards, even when a later phase starts from a conservative estimate.
+  job.percent = Math.max(job.percent, Math.min(99, Math.round(percent)));
+  job.updatedAt = new Date();
+};
+
+export const completeRunImportJob = (
+  job: RunImportJob,
+  outcome:
+    | { status: 'succeeded'; result: Record<string, unknown>; issues: RunImportIssue[]; runIds?: string[] }
+    | { status: 'failed'; error: string; issues?: RunImportIssue[] },
+) => {
+  const now = new Date();
+  job.status = outcome.status;
+  job.phase = 'done';
+  job.updatedAt = now;
+  job.completedAt = now;
+  if (outcome.status === 'succeeded') {
+    job.percent = 100;
+    job.result = outcome.result;
+    job.issues = outcome.issues;
+    job.runIds = outcome.runIds ?? [];
+    job.runId = job.runIds[0] ?? null;
+  } else {
+    job.error = outcome.error;
+    job.issues = outcome.issues ?? job.issues;
+  }
+
+  setTimeout(() => {
+    jobs.delete(job.id);
+  }, JOB_RETENTION_MS).unref();
+};
+
+export const serializeRunImportJob = (job: RunImportJob) => ({
+  id: job.id,
+  importId: job.id,
+  dryRun: job.dryRun,
+  status: job.status,
+  phase: job.phase,
+  percent: job.percent,
+  warnings: job.issues.filter((issue) => issue.severity === 'warning'),
+  issues: job.issues,
+  runId: job.runId,
+  runIds: job.runIds,
+  error: job.error,
+  result: job.result,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  completedAt: job.completedAt,
+});
+
+// Rebuilds a job view from its history record once the in-memory job has expired or the API has restarted.
+const serializeJobFromRecord = (record: RunImport) => {
+  const issues = Array.isArray(record.issues) ? (record.issues as unknown as RunImportIssue[]) : [];
+  const summary = record.summary as { runIds?: unknown } | null;
+  const runIds = Array.isArray(summary?.runIds) ? (summary.runIds as string[]) : record.runId ? [record.runId] : [];
+  // A record still marked as processing has no live job, so the API stopped before the import finished.
+  const interrupted = record.status === 'PROCESSING';
+  const failed = interrupted || record.status === 'FAILED';
+
+  return {
+    id: record.id,
+    importId: record.id,
+    dryRun: record.dryRun,
+    status: failed ? 'failed' : 'succeeded',
+    phase: 'done',
+    percent: failed ? 0 : 100,
+    warnings: issues.filter((issue) => issue.severity === 'warning'),
+    issues,
+    runId: record.runId,
+    runIds,
+    error: interrupted ? 'The import was interrupted before it finished. Please upload the file again.' : record.error,
+    result: record.summary ? { summary: record.summary } : null,
+    createdAt: record.createdAt,
+    updatedAt: record.completedAt ?? record.createdAt,
+    completedAt: record.completedAt,
+  };
+};
+
+export const getRunImportJob = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to view run imports' });
+  }
+
+  const jobId = req.params.jobId?.trim();
+  if (!jobId) {
+    return res.status(400).json({ error: 'Job ID is required' });
+  }
+
+  const job = jobs.get(jobId);
+  if (job) {
+    if (job.companyId !== req.auth.companyId) {
+      return res.status(404).json({ error: 'Import job not found' });
+    }
+    return res.json(serializeRunImportJob(job));
+  }
+
+  const record = await prisma.runImport.findUnique({ where: { id: jobId } });
+  if (!record || record.companyId !== req.auth.companyId) {
+    return res.status(404).json({ error: 'Import job not found' });
+  }
+  return res.json(serializeJobFromRecord(record));
+};
@@ -0,0 +1,257 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import type { RunImportTemplate } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+import { DEFAULT_RUN_IMPORT_LAYOUT } from '../../lib/run-import-parser.js';
+import type { RunImportLayout } from '../../types/run-import.js';
+import { isCompanyManager } from './authorization.js';
+
+export const BUILT_IN_TEMPLATE_NAME = 'Default';
+// Passed as templateId to use the built-in layout even when the company has a default template.
+export const BUILT_IN_TEMPLATE_ID = 'builtin';
+
+const MAX_COLUMN = 200;
+
+const columnNumberSchema = z.number().int().min(1).max(MAX_COLUMN);
+
+const runImportLayoutSchema = z
+  .object({
+    locationPrefix: z.string().min(1).max(100),
+    machineHeaderMarker: z.string().min(1).max(100),
+    coilHeaderLabel: z.string().trim().min(1).max(100),
+    referenceSheetCount: z.number().int().min(0).max(10),
+    columns: z.object({
+      coil: columnNumberSchema,
+      sku: columnNumberSchema,
+      current: columnNumberSchema,
+      par: columnNumberSchema,
+      need: columnNumberSchema,
+      forecast: columnNumberSchema,
+      total: columnNumberSchema,
+      notes: columnNumberSchema.nullable(),
+    }),
+  })
+  .superRefine((layout, ctx) => {
+    // Column A holds the location and machine headers, so the coil table cannot share it.
+    const assigned = Object.entries(layout.columns).filter(
+      (entry): entry is [string, number] => entry[1] !== null,
+    );
+    const seen = new Map<number, string>();
+    for (const [key, column] of assigned) {
+      if (column === 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['columns', key],
+          message: 'Column 1 is reserved for location and machine headers',
+        });
+      }
+      const existing = seen.get(column);
+      if (existing) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['columns', key],
+          message: `Column ${column} is already mapped to ${existing}`,
+        });
+      }
+      seen.set(column, key);
+    }
+  });
+
+const createTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  layout: runImportLayoutSchema,
+  isDefault: z.boolean().optional(),
+});
+
+const updateTemplateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    layout: runImportLayoutSchema.optional(),
+    isDefault: z.boolean().optional(),
+  })
+  .refine((value) => Object.values(value).some((field) => field !== undefined), {
+    message: 'At least one field must be provided',
+  });
+
+const serializeTemplate = (template: RunImportTemplate) => ({
+  id: template.id,
+  name: template.name,
+  layout: template.layout as unknown as RunImportLayout,
+  isDefault: template.isDefault,
+  isBuiltIn: false,
+  createdAt: template.createdAt,
+  updatedAt: template.updatedAt,
+});
+
+const findTemplate = async (companyId: string, templateId: string) => {
+  const template = await prisma.runImportTemplate.findUnique({ where: { id: templateId } });
+  if (!template || template.companyId !== companyId) {
+    return null;
+  }
+  return template;
+};
+
+// Picks the layout for an upload: the named template, else the company default, else the built-in layout.
+// Returns null when a templateId was given but does not belong to the company.
+export const resolveRunImportLayout = async (
+  companyId: string,
+  templateId?: string,
+): Promise<{ templateId: string | null; name: string; layout: RunImportLayout } | null> => {
+  if (templateId === BUILT_IN_TEMPLATE_ID) {
+    return { templateId: null, name: BUILT_IN_TEMPLATE_NAME, layout: DEFAULT_RUN_IMPORT_LAYOUT };
+  }
+
+  const template = templateId
+    ? await findTemplate(companyId, templateId)
+    : await prisma.runImportTemplate.findFirst({ where: { companyId, isDefault: true } });
+
+  if (template) {
+    // Stored layouts are validated on write; re-parse so older rows cannot crash the parser.
+    const parsed = runImportLayoutSchema.safeParse(template.layout);
+    if (parsed.success) {
+      return { templateId: template.id, name: template.name, layout: parsed.data };
+    }
+  }
+
+  if (templateId) {
+    return null;
+  }
+
+  return { templateId: null, name: BUILT_IN_TEMPLATE_NAME, layout: DEFAULT_RUN_IMPORT_LAYOUT };
+};
+
+export const listRunImportTemplates = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to view import templates' });
+  }
+
+  const templates = await prisma.runImportTemplate.findMany({
+    where: { companyId: req.auth.companyId },
+    orderBy: { name: 'asc' },
+  });
+
+  return res.json({
+    builtIn: {
+      id: BUILT_IN_TEMPLATE_ID,
+      name: BUILT_IN_TEMPLATE_NAME,
+      layout: DEFAULT_RUN_IMPORT_LAYOUT,
+      isDefault: !templates.some((template) => template.isDefault),
+      isBuiltIn: true,
+    },
+    templates: templates.map(serializeTemplate),
+  });
+};
+
+export const createRunImportTemplate = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to manage import templates' });
+  }
+  if (!isCompanyManager(req.auth.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions to manage import templates' });
+  }
+
+  const parsed = createTemplateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+
+  const companyId = req.auth.companyId;
+  const { name, layout, isDefault } = parsed.data;
+
+  try {
+    const template = await prisma.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.runImportTemplate.updateMany({ where: { companyId, isDefault: true }, data: { isDefault: false } });
+      }
+      return tx.runImportTemplate.create({
+        data: {
+          companyId,
+          name,
+          layout: layout as unknown as Prisma.InputJsonValue,
+          isDefault: isDefault ?? false,
+        },
+      });
+    });
+    return res.status(201).json(serializeTemplate(template));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'An import template with that name already exists.' });
+    }
+    throw error;
+  }
+};
+
+export const updateRunImportTemplate = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to manage import templates' });
+  }
+  if (!isCompanyManager(req.auth.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions to manage import templates' });
+  }
+
+  const templateId = req.params.templateId?.trim();
+  if (!templateId) {
+    return res.status(400).json({ error: 'Template ID is required' });
+  }
+
+  const parsed = updateTemplateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+
+  const companyId = req.auth.companyId;
+  const existing = await findTemplate(companyId, templateId);
+  if (!existing) {
+    return res.status(404).json({ error: 'Import template not found' });
+  }
+
+  const { name, layout, isDefault } = parsed.data;
+
+  try {
+    const template = await prisma.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.runImportTemplate.updateMany({
+          where: { companyId, isDefault: true, id: { not: templateId } },
+          data: { isDefault: false },
+        });
+      }
+      return tx.runImportTemplate.update({
+        where: { id: templateId },
+        data: {
+          ...(name !== undefined ? { name } : {}),
+          ...(layout !== undefined ? { layout: layout as unknown as Prisma.InputJsonValue } : {}),
+          ...(isDefault !== undefined ? { isDefault } : {}),
+        },
+      });
+    });
+    return res.json(serializeTemplate(template));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'An import template with that name already exists.' });
+    }
+    throw error;
+  }
+};
+
+export const deleteRunImportTemplate = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to manage import templates' });
+  }
+  if (!isCompanyManager(req.auth.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions to manage import templates' });
+  }
+
+  const templateId = req.params.templateId?.trim();
+  if (!templateId) {
+    return res.status(400).json({ error: 'Template ID is required' });
+  }
+
+  const existing = await findTemplate(req.auth.companyId, templateId);
+  if (!existing) {
+    return res.status(404).json({ error: 'Import template not found' });
+  }
+
+  await prisma.runImportTemplate.delete({ where: { id: templateId } });
+  return res.status(204).send();
+};
@@ -2,11 +2,40 @@ import type { Request, Response } from 'express';
 import multer from 'multer';
 import { Prisma } from '@prisma/client';
 import type { RunStatus as PrismaRunStatus } from '@prisma/client';
-import { parseRunWorkbook } from '../../lib/run-import-parser.js';
+import { getBlockingIssues, parseRunWorkbook, splitRunByDate } from '../../lib/run-import-parser.js';
+import { parseFlatRunTable } from '../../lib/run-import-flat-parser.js';
 import { prisma } from '../../lib/prisma.js';
-import { determineScheduledFor, isValidTimezone } from '../../lib/timezone.js';
+import type { TransactionClient } from '../../lib/prisma.js';
+import { publishRunEvent } from '../../lib/run-event-bus.js';
+import { runImportQueue } from '../../lib/run-import-queue.js';
+import { determineScheduledFor, getTimezoneDayRange, isValidTimezone } from '../../lib/timezone.js';
 import { RunStatus as AppRunStatus } from '../../types/enums.js';
 import { computeExpiryDateLabel } from './app-dates.js';
+import {
+  RunImportError,
+  createInBatches,
+  normalizeInteger,
+  resolveImportEntities,
+  resolveImportedCount,
+  toPickEntryData,
+} from './run-import-entities.js';
+import { completeRunImportRecord, startRunImportRecord } from './run-import-history.js';
+import {
+  completeRunImportJob,
+  createRunImportJob,
+  reportRunImportProgress,
+  serializeRunImportJob,
+} from './run-import-jobs.js';
+import type { RunImportJob } from './run-import-jobs.js';
+import { resolveRunImportLayout } from './run-import-templates.js';
+import { transitionRunStatus, updateRunCompletionStatus } from './run-status.js';
+import { syncPlanogramFromWorkbook } from './planogram-imports.js';
+import {
+  findSkuCategoryConflicts,
+  loadSkuCategoryLookup,
+  mergeSkuCategoryMappings,
+  toParserSkuCategories,
+} from './sku-category-mappings.js';
 import type {
   ParsedCoilItem,
   ParsedMachine,
@@ -14,15 +43,10 @@ import type {
   ParsedMachineType,
   ParsedPickEntry,
   ParsedRun,
+  RunImportIssue,
+  RunImportLayout,
 } from '../../types/run-import.js';
 
-export class RunImportError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'RunImportError';
-  }
-}
-
 export const runImportUpload = multer({
   storage: multer.memoryStorage(),
   limits: {
@@ -36,7 +60,7 @@ export const uploadRunWorkbook = async (req: Request, res: Response) => {
   }
 
   if (!req.file) {
-    return res.status(400).json({ error: 'Missing Excel file payload' });
+    return res.status(400).json({ error: 'Missing Excel or CSV file payload' });
   }
 
   if (!req.auth.companyId) {
@@ -51,110 +75,783 @@ export const uploadRunWorkbook = async (req: Request, res: Response) => {
     });
   }
 
+  const dryRun = isDryRunRequested(req.query.dryRun) || isDryRunRequested(req.body?.dryRun);
+  const targetRunId = readStringField(req.query.runId) ?? readStringField(req.body?.runId);
+  const requestedMode = readStringField(req.query.mode) ?? readStringField(req.body?.mode);
+  if (targetRunId && requestedMode === 'planogram') {
+    return res.status(400).json({ error: 'A runId cannot be combined with mode=planogram' });
+  }
+  const mode = targetRunId ? 'update' : requestedMode ?? 'create';
+  if (mode !== 'create' && mode !== 'update' && mode !== 'planogram') {
+    return res.status(400).json({ error: 'Invalid mode. Must be one of: create, update, planogram' });
+  }
+
+  const format = resolveUploadFormat(req.file, readStringField(req.query.format) ?? readStringField(req.body?.format));
+  if (!format) {
+    return res.status(400).json({ error: 'Invalid format. Must be one of: workbook, flat' });
+  }
+
+  const templateId = readStringField(req.query.templateId) ?? readStringField(req.body?.templateId);
+  const importTemplate = await resolveRunImportLayout(req.auth.companyId, templateId);
+  if (!importTemplate) {
+    return res.status(404).json({ error: 'Import template not found' });
+  }
+  const template = { id: importTemplate.templateId, name: importTemplate.name };
+
+  const importRecord = await startRunImportRecord({
+    companyId: req.auth.companyId,
+    userId: req.auth.userId,
+    file: req.file,
+    dryRun,
+  });
+  const job = createRunImportJob({ importId: importRecord.id, companyId: req.auth.companyId, dryRun });
+
+  // The job keeps its own reference to the upload, so it finishes even if this request is abandoned.
+  const input: RunImportJobInput = {
+    job,
+    companyId: req.auth.companyId,
+    buffer: req.file.buffer,
+    format,
+    layout: importTemplate.layout,
+    template,
+    dryRun,
+    mode,
+    ...(targetRunId ? { targetRunId } : {}),
+    ...(timezoneRaw ? { timezone: timezoneRaw } : {}),
+  };
+  runImportQueue.enqueue(req.auth.companyId, () => processRunImport(input));
+
+  return res
+    .status(202)
+    .location(`${req.baseUrl}/jobs/${job.id}`)
+    .json({
+      jobId: job.id,
+      importId: importRecord.id,
+      template,
+      job: serializeRunImportJob(job),
+    });
+};
+
+type RunImportJobInput = {
+  job: RunImportJob;
+  companyId: string;
+  buffer: Buffer;
+  format: 'workbook' | 'flat' | 'csv';
+  layout: RunImportLayout;
+  template: { id: string | null; name: string };
+  dryRun: boolean;
+  mode: 'create' | 'update' | 'planogram';
+  targetRunId?: string;
+  timezone?: string;
+};
+
+// Share of the progress bar given to parsing; the rest is split across previewing or persisting the runs.
+const PARSED_PERCENT = 30;
+const PERSISTED_PERCENT = 95;
+
+// Parses and persists a queued upload, reporting progress on the job and recording the outcome in the import
+// history. Never throws: failures end the job instead.
+const processRunImport = async ({
+  job,
+  companyId,
+  buffer,
+  format,
+  layout,
+  template,
+  dryRun,
+  mode,
+  targetRunId,
+  timezone,
+}: RunImportJobInput) => {
+  const fail = async (message: string, issues?: RunImportIssue[]) => {
+    await completeRunImportRecord(job.id, {
+      status: 'FAILED',
+      error: message,
+      ...(issues ? { issues } : {}),
+    });
+    completeRunImportJob(job, { status: 'failed', error: message, ...(issues ? { issues } : {}) });
+  };
+
   try {
-    const workbook = await parseRunWorkbook(req.file.buffer);
+    reportRunImportProgress(job, 'parsing', 5);
+    const categoryLookup = await loadSkuCategoryLookup(companyId);
+    const skuCategories = toParserSkuCategories(categoryLookup);
+    const workbook =
+      format === 'workbook'
+        ? await parseRunWorkbook(buffer, { layout, skuCategories })
+        : await parseFlatRunTable(buffer, format === 'csv' ? 'csv' : 'xlsx', { skuCategories });
+    workbook.issues.push(...findSkuCategoryConflicts(categoryLookup, workbook.skuCategories));
+    job.issues = workbook.issues;
     const run = workbook.run;
 
+    const blockingIssues = getBlockingIssues(workbook.issues);
+    if (blockingIssues.length) {
+      return await fail(
+        `Workbook contains ${blockingIssues.length} error(s). Fix them and upload again.`,
+        workbook.issues,
+      );
+    }
+
+    if (mode === 'planogram') {
+      if (!workbook.planogram.length) {
+        return await fail('Workbook did not contain any coils to import.', workbook.issues);
+      }
+
+      reportRunImportProgress(job, dryRun ? 'previewing' : 'persisting', PARSED_PERCENT);
+      const planogram = await syncPlanogramFromWorkbook({ entries: workbook.planogram, companyId, dryRun });
+      reportRunImportProgress(job, 'finalizing', PERSISTED_PERCENT);
+      const addedCategoryMappings = dryRun
+        ? 0
+        : await mergeSkuCategoryMappings(companyId, categoryLookup, workbook.skuCategories);
+      const summary = {
+        mode,
+        machines: planogram.machines.created + planogram.machines.matched,
+        coils: planogram.coils.created + planogram.coils.matched,
+        coilItems: planogram.coilItems.created + planogram.coilItems.matched,
+        skuChanges: planogram.skuChanges.length,
+        parChanges: planogram.parChanges.length,
+        removedCoils: planogram.removedCoils.length,
+        addedCategoryMappings,
+      };
+
+      await completeRunImportRecord(job.id, {
+        status: dryRun ? 'PREVIEWED' : 'SUCCEEDED',
+        summary,
+        issues: workbook.issues,
+      });
+      completeRunImportJob(job, {
+        status: 'succeeded',
+        issues: workbook.issues,
+        result: {
+          ...(dryRun ? { dryRun: true } : {}),
+          importId: job.id,
+          template,
+          summary,
+          issues: workbook.issues,
+          planogram,
+        },
+      });
+      return;
+    }
+
     if (!run || !run.pickEntries.length) {
-      return res.status(400).json({
-        error: 'Workbook did not contain any pick entries to import.',
+      return await fail('Workbook did not contain any pick entries to import.', workbook.issues);
+    }
+
+    const runs = splitRunByDate(run);
+    if (targetRunId && runs.length > 1) {
+      throw new RunImportError(
+        `Workbook contains ${runs.length} run dates; a runId can only be given for a single-day workbook.`,
+      );
+    }
+    const summarizeRun = (dayRun: ParsedRun) => ({
+      runDate: dayRun.runDate,
+      machines: new Set(dayRun.pickEntries.map((entry) => entry.coilItem.coil.machine.code)).size,
+      pickEntries: dayRun.pickEntries.length,
+    });
+    const reportPersisted = (phase: 'previewing' | 'persisting', completed: number, total: number) =>
+      reportRunImportProgress(job, phase, PARSED_PERCENT + ((PERSISTED_PERCENT - PARSED_PERCENT) * completed) / total);
+    reportPersisted(dryRun ? 'previewing' : 'persisting', 0, 1);
+
+    if (dryRun) {
+      const previews: RunImportPreview[] = [];
+      for (const dayRun of runs) {
+        previews.push(await previewRunFromWorkbook({ run: dayRun, companyId, ...(timezone ? { timezone } : {}) }));
+        reportPersisted('previewing', previews.length, runs.length);
+      }
+      const summary = {
+        runs: runs.length,
+        machines: previews.reduce(
+          (total, preview) => total + preview.machines.toCreate.length + preview.machines.matched.length,
+          0,
+        ),
+        pickEntries: previews.reduce((total, preview) => total + preview.pickEntries.length, 0),
+      };
+
+      await completeRunImportRecord(job.id, {
+        status: 'PREVIEWED',
+        summary,
+        issues: workbook.issues,
       });
+      completeRunImportJob(job, {
+        status: 'succeeded',
+        issues: workbook.issues,
+        result: {
+          dryRun: true,
+          importId: job.id,
+          template,
+          summary,
+          issues: workbook.issues,
+          previews,
+        },
+      });
+      return;
+    }
+
+    const runsToReconcile: Array<{ run: ParsedRun; runId: string }> = [];
+    const runsToCreate: ParsedRun[] = [];
+    for (const dayRun of runs) {
+      const existingRunId =
+        mode === 'update'
+          ? await findRunForReimport({
+              run: dayRun,
+              companyId,
+              ...(timezone ? { timezone } : {}),
+              ...(targetRunId ? { runId: targetRunId } : {}),
+            })
+          : null;
+      if (existingRunId) {
+        runsToReconcile.push({ run: dayRun, runId: existingRunId });
+      } else {
+        runsToCreate.push(dayRun);
+      }
     }
 
-    const createdRun = await persistRunFromWorkbook({
-      run,
-      companyId: req.auth.companyId,
-      timezone: timezoneRaw,
+    // Each reconciled run is one step; creating runs is one more, since they share a single transaction.
+    const totalSteps = runsToReconcile.length + (runsToCreate.length ? 1 : 0);
+    const importedRuns = [];
+    for (const { run: dayRun, runId } of runsToReconcile) {
+      const reconciled = await reconcileRunFromWorkbook({
+        run: dayRun,
+        companyId,
+        runId,
+        ...(timezone ? { timezone } : {}),
+      });
+      importedRuns.push({ record: reconciled.run, parsed: dayRun, reconciliation: reconciled.summary });
+      reportPersisted('persisting', importedRuns.length, totalSteps);
+    }
+
+    const createdRuns = runsToCreate.length
+      ? await persistRunsFromWorkbook({
+          runs: runsToCreate,
+          companyId,
+          ...(timezone ? { timezone } : {}),
+          onProgress: (fraction) => reportPersisted('persisting', runsToReconcile.length + fraction, totalSteps),
+        })
+      : [];
+    createdRuns.forEach((record, index) => {
+      const parsed = runsToCreate[index];
+      if (parsed) {
+        importedRuns.push({ record, parsed, reconciliation: null });
+      }
     });
 
-    const pickEntryCount = run.pickEntries.length;
-    const machineCount = new Set(run.pickEntries.map((entry) => entry.coilItem.coil.machine.code)).size;
+    reportRunImportProgress(job, 'finalizing', PERSISTED_PERCENT);
+    const responseRuns = importedRuns
+      .map(({ record, parsed, reconciliation }) => ({
+        id: record.id,
+        status: record.status,
+        scheduledFor: record.scheduledFor,
+        createdAt: record.createdAt,
+        action: reconciliation ? 'updated' : 'created',
+        ...summarizeRun(parsed),
+        ...(reconciliation ? { reconciliation } : {}),
+      }))
+      .sort((a, b) => (a.scheduledFor?.getTime() ?? 0) - (b.scheduledFor?.getTime() ?? 0));
 
-    return res.status(201).json({
-      summary: {
-        runs: run ? 1 : 0,
-        machines: machineCount,
-        pickEntries: pickEntryCount,
-      },
-      workbook,
-      run: {
-        id: createdRun.id,
-        status: createdRun.status,
-        scheduledFor: createdRun.scheduledFor,
-        createdAt: createdRun.createdAt,
+    const addedCategoryMappings = await mergeSkuCategoryMappings(companyId, categoryLookup, workbook.skuCategories);
+
+    const summary = {
+      runs: responseRuns.length,
+      machines: new Set(run.pickEntries.map((entry) => entry.coilItem.coil.machine.code)).size,
+      pickEntries: run.pickEntries.length,
+      mode,
+      created: createdRuns.length,
+      updated: runsToReconcile.length,
+      runIds: responseRuns.map((entry) => entry.id),
+      addedCategoryMappings,
+    };
+
+    await completeRunImportRecord(job.id, {
+      status: 'SUCCEEDED',
+      runId: responseRuns[0]?.id ?? null,
+      summary,
+      issues: workbook.issues,
+    });
+    completeRunImportJob(job, {
+      status: 'succeeded',
+      issues: workbook.issues,
+      runIds: summary.runIds,
+      result: {
+        importId: job.id,
+        template,
+        summary,
+        issues: workbook.issues,
+        runs: responseRuns,
       },
     });
   } catch (error) {
     console.error('Failed to import run workbook', error);
-    if (error instanceof RunImportError) {
-      return res.status(400).json({
-        error: error.message,
-      });
-    }
-    return res.status(500).json({
-      error: 'Unable to import workbook',
-      detail: (error as Error).message,
-    });
+    await fail(error instanceof RunImportError ? error.message : `Unable to import workbook: ${(error as Error).message}`);
+  }
+};
+
+// CSV uploads are always flat tables; XLSX uploads use the location-sheet layout unless format=flat is passed.
+const resolveUploadFormat = (
+  file: Express.Multer.File,
+  requested: string | undefined,
+): 'workbook' | 'flat' | 'csv' | null => {
+  const isCsv = file.originalname.toLowerCase().endsWith('.csv') || file.mimetype === 'text/csv';
+  if (requested && requested !== 'workbook' && requested !== 'flat') {
+    return null;
+  }
+  if (isCsv) {
+    return 'csv';
+  }
+  return requested === 'flat' ? 'flat' : 'workbook';
+};
+
+const readStringField = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') {
+    return undefined;
   }
+  const trimmed = value.trim();
+  return trimmed || undefined;
 };
 
-type TransactionClient = Prisma.TransactionClient;
+const isDryRunRequested = (value: unknown): boolean => {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value !== 'string') {
+    return false;
+  }
+  const normalized = value.trim().toLowerCase();
+  return normalized === 'true' || normalized === '1';
+};
+
+// Creates one run per parsed run in a single transaction so a multi-day workbook imports all or nothing.
+// `onProgress` receives the completed fraction: half for resolving entities, the rest spread across the runs.
+export const persistRunsFromWorkbook = async ({
+  runs,
+  companyId,
+  timezone,
+  onProgress,
+}: {
+  runs: ParsedRun[];
+  companyId: string;
+  timezone?: string;
+  onProgress?: (fraction: number) => void;
+}) => {
+  return prisma.$transaction(
+    async (tx) => {
+      const companyTimeZone = await applyImportTimeZone(tx, companyId, timezone);
+      const resolved = await resolveImportEntities(
+        tx,
+        companyId,
+        runs.flatMap((run) => run.pickEntries),
+      );
+      onProgress?.(0.5);
+      const runRecords = [];
+      let offset = 0;
+
+      for (const run of runs) {
+        const runRecord = await tx.run.create({
+          data: {
+            companyId,
+            status: AppRunStatus.CREATED as unknown as PrismaRunStatus,
+            scheduledFor: determineScheduledFor(run.runDate, timezone),
+          },
+        });
+
+        const entries = resolved.slice(offset, offset + run.pickEntries.length);
+        offset += run.pickEntries.length;
+        await createInBatches(
+          entries.map((entry) => toPickEntryData(runRecord.id, runRecord.scheduledFor, companyTimeZone, entry)),
+          (data) => tx.pickEntry.createMany({ data }),
+        );
+
+        runRecords.push(runRecord);
+        onProgress?.(0.5 + (0.5 * runRecords.length) / runs.length);
+      }
 
-export const persistRunFromWorkbook = async ({
+      return runRecords;
+    },
+    {
+      timeout: 200000,
+      maxWait: 5000,
+    },
+  );
+};
+
+// Persists an explicit upload timezone on the company and returns the timezone the import should use.
+const applyImportTimeZone = async (tx: TransactionClient, companyId: string, timezone?: string) => {
+  if (timezone) {
+    await tx.company.update({
+      where: { id: companyId },
+      data: { timeZone: timezone },
+    });
+  }
+  const company = await tx.company.findUnique({
+    where: { id: companyId },
+    select: { timeZone: true },
+  });
+  return timezone ?? company?.timeZone ?? 'UTC';
+};
+
+// Finds the run a re-import should update: the explicit runId, or the single run already scheduled for the workbook's day.
+export const findRunForReimport = async ({
   run,
   companyId,
   timezone,
+  runId,
 }: {
   run: ParsedRun;
   companyId: string;
   timezone?: string;
+  runId?: string;
 }) => {
+  if (runId) {
+    const existing = await prisma.run.findUnique({
+      where: { id: runId },
+      select: { id: true, companyId: true },
+    });
+    if (!existing || existing.companyId !== companyId) {
+      throw new RunImportError('Run to update was not found.', 404);
+    }
+    return existing.id;
+  }
+
+  if (!run.runDate) {
+    return null;
+  }
+
+  const company = await prisma.company.findUnique({
+    where: { id: companyId },
+    select: { timeZone: true },
+  });
+  const companyTimeZone = timezone ?? company?.timeZone ?? 'UTC';
   const scheduledFor = determineScheduledFor(run.runDate, timezone);
+  const { start, end, label } = getTimezoneDayRange({ timeZone: companyTimeZone, reference: scheduledFor });
 
-  return prisma.$transaction(
+  const candidates = await prisma.run.findMany({
+    where: {
+      companyId,
+      scheduledFor: {
+        gte: start,
+        lt: end,
+      },
+    },
+    select: { id: true },
+  });
+
+  if (candidates.length > 1) {
+    throw new RunImportError(
+      `${candidates.length} runs are already scheduled for ${label}. Pass the runId of the run to update.`,
+      409,
+    );
+  }
+
+  return candidates[0]?.id ?? null;
+};
+
+export type RunReconciliationSummary = {
+  added: number;
+  updated: number;
+  unchanged: number;
+  skippedPicked: number;
+  removed: number;
+};
+
+// Applies a re-uploaded workbook to an existing run. Picked entries, overrides, expiry overrides and
+// packing-session assignments are left alone; only source figures and unpicked counts change. Unpicked entries
+// dropped from the workbook leave their packing session, and the run's status follows what is left to pick.
+export const reconcileRunFromWorkbook = async ({
+  run,
+  companyId,
+  timezone,
+  runId,
+}: {
+  run: ParsedRun;
+  companyId: string;
+  timezone?: string;
+  runId: string;
+}) => {
+  const result = await prisma.$transaction(
     async (tx) => {
-      const helpers = createImportHelpers(tx, companyId);
-      if (timezone) {
-        await tx.company.update({
-          where: { id: companyId },
-          data: { timeZone: timezone },
-        });
-      }
-      const company = await tx.company.findUnique({
-        where: { id: companyId },
-        select: { timeZone: true },
+      const companyTimeZone = await applyImportTimeZone(tx, companyId, timezone);
+      const runRecord = await tx.run.findUniqueOrThrow({
+        where: { id: runId },
       });
-      const companyTimeZone = timezone ?? company?.timeZone ?? 'UTC';
-      const runRecord = await tx.run.create({
-        data: {
-          companyId,
-          status: AppRunStatus.CREATED as unknown as PrismaRunStatus,
-          scheduledFor,
+
+      const existingEntries = await tx.pickEntry.findMany({
+        where: { runId },
+        select: {
+          id: true,
+          coilItemId: true,
+          count: true,
+          override: true,
+          current: true,
+          par: true,
+          need: true,
+          forecast: true,
+          total: true,
+          isPicked: true,
+          removedAt: true,
         },
       });
+      const existingByCoilItem = new Map(existingEntries.map((entry) => [entry.coilItemId, entry]));
+      const seenCoilItemIds = new Set<string>();
+      const summary: RunReconciliationSummary = {
+        added: 0,
+        updated: 0,
+        unchanged: 0,
+        skippedPicked: 0,
+        removed: 0,
+      };
+
+      const additions: Prisma.PickEntryCreateManyInput[] = [];
 
-      for (const entry of run.pickEntries) {
-        await persistPickEntry(tx, helpers, runRecord.id, runRecord.scheduledFor, companyTimeZone, entry);
+      for (const resolved of await resolveImportEntities(tx, companyId, run.pickEntries)) {
+        const { entry, coilItemId, sku } = resolved;
+        if (seenCoilItemIds.has(coilItemId)) {
+          continue;
+        }
+        seenCoilItemIds.add(coilItemId);
+
+        const existing = existingByCoilItem.get(coilItemId);
+        if (!existing) {
+          additions.push(toPickEntryData(runRecord.id, runRecord.scheduledFor, companyTimeZone, resolved));
+          continue;
+        }
+
+        if (existing.isPicked) {
+          if (existing.removedAt) {
+            await tx.pickEntry.update({
+              where: { id: existing.id },
+              data: { removedAt: null },
+            });
+          }
+          summary.skippedPicked += 1;
+          continue;
+        }
+
+        const next = {
+          count: existing.override ?? resolveImportedCount(entry, sku.countNeededPointer),
+          current: normalizeInteger(entry.current),
+          par: normalizeInteger(entry.par),
+          need: normalizeInteger(entry.need),
+          forecast: normalizeInteger(entry.forecast),
+          total: normalizeInteger(entry.total),
+        };
+        const isUnchanged =
+          !existing.removedAt &&
+          (Object.keys(next) as Array<keyof typeof next>).every((key) => existing[key] === next[key]);
+        if (isUnchanged) {
+          summary.unchanged += 1;
+          continue;
+        }
+
+        await tx.pickEntry.update({
+          where: { id: existing.id },
+          data: { ...next, removedAt: null },
+        });
+        summary.updated += 1;
       }
 
-      return runRecord;
+      await createInBatches(additions, (data) => tx.pickEntry.createMany({ data }));
+      summary.added = additions.length;
+
+      const removedIds = existingEntries
+        .filter((entry) => !seenCoilItemIds.has(entry.coilItemId) && !entry.removedAt)
+        .map((entry) => entry.id);
+      if (removedIds.length) {
+        await tx.pickEntry.updateMany({
+          where: { id: { in: removedIds } },
+          data: { removedAt: new Date() },
+        });
+        await tx.pickEntry.updateMany({
+          where: { id: { in: removedIds }, isPicked: false },
+          data: { packingSessionId: null },
+        });
+      }
+      summary.removed = removedIds.length;
+
+      // New or revived picks on a finished run send it back to picking.
+      const unpicked = await tx.pickEntry.count({ where: { runId, isPicked: false, removedAt: null } });
+      const statusChange =
+        unpicked > 0 && (runRecord.status === AppRunStatus.READY || runRecord.status === AppRunStatus.PENDING_FRESH)
+          ? await transitionRunStatus(tx, {
+              runId,
+              to: AppRunStatus.PICKING,
+              reason: 'Re-imported workbook added picks',
+            })
+          : null;
+
+      return { summary, statusChange };
     },
     {
       timeout: 200000,
       maxWait: 5000,
     },
   );
+
+  if (result.statusChange) {
+    publishRunEvent(runId, 'run.status', { ...result.statusChange, actorId: null });
+  } else {
+    // Dropping the last unpicked entries may leave nothing to pick.
+    await updateRunCompletionStatus(runId);
+  }
+
+  const runRecord = await prisma.run.findUniqueOrThrow({ where: { id: runId } });
+  return { run: runRecord, summary: result.summary };
+};
+
+type RunImportPreviewBucket<T> = {
+  toCreate: T[];
+  matched: Array<T & { id: string }>;
 };
 
-const createImportHelpers = (tx: TransactionClient, companyId: string) => {
-  const locationCache = new Map<string, { id: string } | null>();
-  const machineTypeCache = new Map<string, { id: string }>();
-  const machineCache = new Map<string, { id: string }>();
-  const skuCache = new Map<string, { id: string }>();
-  const coilCache = new Map<string, { id: string }>();
-  const coilItemCache = new Map<string, { id: string }>();
+export type RunImportPreview = {
+  scheduledFor: Date;
+  timeZone: string;
+  existingRunsForDay: Array<{
+    id: string;
+    status: PrismaRunStatus;
+    scheduledFor: Date | null;
+    createdAt: Date;
+  }>;
+  locations: RunImportPreviewBucket<{ name: string; address: string | null }>;
+  machineTypes: RunImportPreviewBucket<{ name: string; description: string | null }>;
+  machines: RunImportPreviewBucket<{
+    code: string;
+    description: string | null;
+    locationName: string | null;
+    machineTypeName: string;
+  }>;
+  coils: RunImportPreviewBucket<{ machineCode: string; code: string }>;
+  skus: RunImportPreviewBucket<{
+    code: string;
+    name: string;
+    type: string;
+    category: string | null;
+    countNeededPointer: string;
+  }>;
+  coilItems: RunImportPreviewBucket<{ machineCode: string; coilCode: string; skuCode: string; par: number }>;
+  pickEntries: Array<{
+    locationName: string | null;
+    machineCode: string;
+    coilCode: string;
+    skuCode: string;
+    skuName: string;
+    countNeededPointer: string;
+    count: number;
+    current: number | null;
+    par: number | null;
+    need: number | null;
+    forecast: number | null;
+    total: number | null;
+    expiryDate: string | null;
+  }>;
+};
 
-  const ensureLocation = async (location: ParsedMachineLocation | null): Promise<{ id: string } | null> => {
+// Resolves one parsed run against existing records without writing anything, mirroring persistRunsFromWorkbook.
+export const previewRunFromWorkbook = async ({
+  run,
+  companyId,
+  timezone,
+}: {
+  run: ParsedRun;
+  companyId: string;
+  timezone?: string;
+}): Promise<RunImportPreview> => {
+  const scheduledFor = determineScheduledFor(run.runDate, timezone);
+  const company = await prisma.company.findUnique({
+    where: { id: companyId },
+    select: { timeZone: true },
+  });
+  const companyTimeZone = timezone ?? company?.timeZone ?? 'UTC';
+  const { start, end } = getTimezoneDayRange({ timeZone: companyTimeZone, reference: scheduledFor });
+
+  const existingRunsForDay = await prisma.run.findMany({
+    where: {
+      companyId,
+      scheduledFor: {
+        gte: start,
+        lt: end,
+      },
+    },
+    select: {
+      id: true,
+      status: true,
+      scheduledFor: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const helpers = createImportPreviewHelpers(companyId);
+  const pickEntries: RunImportPreview['pickEntries'] = [];
+
+  for (const entry of run.pickEntries) {
+    const machine = entry.coilItem.coil.machine;
+
+    const location = await helpers.previewLocation(machine.location);
+    const machineType = await helpers.previewMachineType(machine.machineType);
+    const machineRef = await helpers.previewMachine(machine, machineType.name, location?.name ?? null);
+    const coilRef = await helpers.previewCoil(machineRef, entry.coilItem.coil.code);
+    const skuRef = await helpers.previewSku(entry.coilItem.sku);
+    await helpers.previewCoilItem(coilRef, skuRef, entry);
+
+    pickEntries.push({
+      locationName: location?.name ?? null,
+      machineCode: machineRef.code,
+      coilCode: coilRef.code,
+      skuCode: skuRef.code,
+      skuName: skuRef.name,
+      countNeededPointer: skuRef.countNeededPointer,
+      count: resolveImportedCount(entry, skuRef.countNeededPointer),
+      current: normalizeInteger(entry.current),
+      par: normalizeInteger(entry.par),
+      need: normalizeInteger(entry.need),
+      forecast: normalizeInteger(entry.forecast),
+      total: normalizeInteger(entry.total),
+      expiryDate: computeExpiryDateLabel({
+        scheduledFor,
+        timeZone: companyTimeZone,
+        expiryDays: skuRef.expiryDays,
+      }),
+    });
+  }
+
+  return {
+    scheduledFor,
+    timeZone: companyTimeZone,
+    existingRunsForDay,
+    ...helpers.buckets,
+    pickEntries,
+  };
+};
+
+const createImportPreviewHelpers = (companyId: string) => {
+  const buckets = {
+    locations: { toCreate: [], matched: [] } as RunImportPreview['locations'],
+    machineTypes: { toCreate: [], matched: [] } as RunImportPreview['machineTypes'],
+    machines: { toCreate: [], matched: [] } as RunImportPreview['machines'],
+    coils: { toCreate: [], matched: [] } as RunImportPreview['coils'],
+    skus: { toCreate: [], matched: [] } as RunImportPreview['skus'],
+    coilItems: { toCreate: [], matched: [] } as RunImportPreview['coilItems'],
+  };
+
+  const locationCache = new Map<string, { id: string | null; name: string } | null>();
+  const machineTypeCache = new Map<string, { id: string | null; name: string }>();
+  const machineCache = new Map<string, { id: string | null; key: string; code: string }>();
+  const coilCache = new Map<string, { id: string | null; key: string; code: string; machineCode: string }>();
+  const skuCache = new Map<
+    string,
+    { id: string | null; key: string; code: string; name: string; countNeededPointer: string; expiryDays: number }
+  >();
+  const coilItemCache = new Map<string, { id: string | null }>();
+
+  const record = <T extends object>(bucket: RunImportPreviewBucket<T>, id: string | null, details: T) => {
+    if (id) {
+      bucket.matched.push({ ...details, id });
+    } else {
+      bucket.toCreate.push(details);
+    }
+  };
+
+  const previewLocation = async (location: ParsedMachineLocation | null) => {
     if (!location || !location.name.trim()) {
       return null;
     }
@@ -162,151 +859,91 @@ const createImportHelpers = (tx: TransactionClient, companyId: string) => {
     if (locationCache.has(key)) {
       return locationCache.get(key) ?? null;
     }
-    const existing = await tx.location.findFirst({
+    const name = location.name.trim();
+    const existing = await prisma.location.findFirst({
       where: {
         companyId,
-        name: location.name.trim(),
-      },
-    });
-    if (existing) {
-      if (location.address && existing.address !== location.address) {
-        await tx.location.update({
-          where: { id: existing.id },
-          data: { address: location.address },
-        });
-      }
-      locationCache.set(key, existing);
-      return existing;
-    }
-    const created = await tx.location.create({
-      data: {
-        companyId,
-        name: location.name.trim(),
-        address: location.address ?? null,
+        name,
       },
+      select: { id: true },
     });
-    locationCache.set(key, created);
-    return created;
+    const ref = { id: existing?.id ?? null, name };
+    record(buckets.locations, ref.id, { name, address: location.address ?? null });
+    locationCache.set(key, ref);
+    return ref;
   };
 
-  const ensureMachineType = async (machineType: ParsedMachineType | null): Promise<{ id: string }> => {
-    const fallbackName = 'General';
-    const name = machineType?.name?.trim() || fallbackName;
+  const previewMachineType = async (machineType: ParsedMachineType | null) => {
+    const name = machineType?.name?.trim() || 'General';
     const key = name.toLowerCase();
     if (machineTypeCache.has(key)) {
       return machineTypeCache.get(key)!;
     }
-    const existing = await tx.machineType.findUnique({
+    const existing = await prisma.machineType.findUnique({
       where: { name },
+      select: { id: true, description: true },
     });
-    if (existing) {
-      if (machineType?.category && existing.description !== machineType.category) {
-        await tx.machineType.update({
-          where: { id: existing.id },
-          data: { description: machineType.category },
-        });
-      }
-      machineTypeCache.set(key, existing);
-      return existing;
-    }
-    const created = await tx.machineType.create({
-      data: {
-        name,
-        description: machineType?.category ?? null,
-      },
+    const ref = { id: existing?.id ?? null, name };
+    record(buckets.machineTypes, ref.id, {
+      name,
+      description: machineType?.category ?? existing?.description ?? null,
     });
-    machineTypeCache.set(key, created);
-    return created;
+    machineTypeCache.set(key, ref);
+    return ref;
   };
 
-  const ensureMachine = async (
-    machine: ParsedMachine,
-    machineTypeId: string,
-    location: { id: string } | null,
-  ): Promise<{ id: string }> => {
+  const previewMachine = async (machine: ParsedMachine, machineTypeName: string, locationName: string | null) => {
     const code = machine.code?.trim();
     if (!code) {
       throw new RunImportError('Encountered a machine without a code in the workbook.');
     }
-    const key = `${code.toLowerCase()}`;
+    const key = code.toLowerCase();
     if (machineCache.has(key)) {
       return machineCache.get(key)!;
     }
-    const existing = await tx.machine.findFirst({
+    const existing = await prisma.machine.findFirst({
       where: {
         companyId,
         code,
       },
+      select: { id: true },
     });
-    if (existing) {
-      const updates: Prisma.MachineUncheckedUpdateInput = {};
-      if (location && existing.locationId !== location.id) {
-        updates.locationId = location.id;
-      }
-      if (existing.machineTypeId !== machineTypeId) {
-        updates.machineTypeId = machineTypeId;
-      }
-      const description = machine.name?.trim() || null;
-      if (description && existing.description !== description) {
-        updates.description = description;
-      }
-      if (Object.keys(updates).length) {
-        const updated = await tx.machine.update({
-          where: { id: existing.id },
-          data: updates,
-        });
-        machineCache.set(key, updated);
-        return updated;
-      }
-      machineCache.set(key, existing);
-      return existing;
-    }
-    const machineData: Prisma.MachineUncheckedCreateInput = {
-      companyId,
+    const ref = { id: existing?.id ?? null, key, code };
+    record(buckets.machines, ref.id, {
       code,
       description: machine.name?.trim() || null,
-      machineTypeId,
-      locationId: location?.id ?? null,
-    };
-    const created = await tx.machine.create({
-      data: machineData,
+      locationName,
+      machineTypeName,
     });
-    machineCache.set(key, created);
-    return created;
+    machineCache.set(key, ref);
+    return ref;
   };
 
-  const ensureCoil = async (machineId: string, code: string): Promise<{ id: string }> => {
+  const previewCoil = async (machine: { id: string | null; key: string; code: string }, code: string) => {
     const normalizedCode = code?.trim();
     if (!normalizedCode) {
       throw new RunImportError('Encountered a coil without a code in the workbook.');
     }
-    const key = `${machineId}:${normalizedCode.toLowerCase()}`;
+    const key = `${machine.key}:${normalizedCode.toLowerCase()}`;
     if (coilCache.has(key)) {
       return coilCache.get(key)!;
     }
-    const existing = await tx.coil.findFirst({
-      where: {
-        machineId,
-        code: normalizedCode,
-      },
-    });
-    if (existing) {
-      coilCache.set(key, existing);
-      return existing;
-    }
-    const created = await tx.coil.create({
-      data: {
-        machineId,
-        code: normalizedCode,
-      },
-    });
-    coilCache.set(key, created);
-    return created;
+    const existing = machine.id
+      ? await prisma.coil.findFirst({
+          where: {
+            machineId: machine.id,
+            code: normalizedCode,
+          },
+          select: { id: true },
+        })
+      : null;
+    const ref = { id: existing?.id ?? null, key, code: normalizedCode, machineCode: machine.code };
+    record(buckets.coils, ref.id, { machineCode: machine.code, code: normalizedCode });
+    coilCache.set(key, ref);
+    return ref;
   };
 
-  const ensureSku = async (
-    sku: ParsedCoilItem['sku'],
-  ): Promise<{ id: string; countNeededPointer?: string | null; expiryDays?: number | null }> => {
+  const previewSku = async (sku: ParsedCoilItem['sku']) => {
     const code = sku.code?.trim();
     if (!code) {
       throw new RunImportError('Encountered a SKU without a code in the workbook.');
@@ -315,180 +952,72 @@ const createImportHelpers = (tx: TransactionClient, companyId: string) => {
     if (skuCache.has(key)) {
       return skuCache.get(key)!;
     }
-    const existing = await tx.sKU.findFirst({
+    const existing = await prisma.sKU.findFirst({
       where: {
         code,
         OR: [{ companyId }, { companyId: null }],
       },
+      select: { id: true, name: true, countNeededPointer: true, expiryDays: true },
     });
-    if (existing) {
-      const updates: Prisma.SKUUpdateInput = {};
-      if (!existing.companyId) {
-        updates.company = {
-          connect: { id: companyId },
-        };
-      }
-      const name = sku.name?.trim() || null;
-      if (name && existing.name !== name) {
-        updates.name = name;
-      }
-      const type = sku.type?.trim() || 'General';
-      if (type && existing.type !== type) {
-        updates.type = type;
-      }
-      const category = sku.category?.trim() || null;
-      if (category && existing.category !== category) {
-        updates.category = category;
-      }
-      if (Object.keys(updates).length) {
-        const updated = await tx.sKU.update({
-          where: { id: existing.id },
-          data: updates,
-        });
-        skuCache.set(key, updated);
-        return updated;
-      }
-      skuCache.set(key, existing);
-      return existing;
-    }
-    const created = await tx.sKU.create({
-      data: {
-        code,
-        name: sku.name?.trim() || code,
-        type: sku.type?.trim() || 'General',
-        category: sku.category?.trim() || null,
-        company: {
-          connect: { id: companyId },
-        },
-      },
+    const name = sku.name?.trim() || existing?.name || code;
+    const ref = {
+      id: existing?.id ?? null,
+      key,
+      code,
+      name,
+      countNeededPointer: existing?.countNeededPointer || 'total',
+      expiryDays: existing?.expiryDays ?? 0,
+    };
+    record(buckets.skus, ref.id, {
+      code,
+      name,
+      type: sku.type?.trim() || 'General',
+      category: sku.category?.trim() || null,
+      countNeededPointer: ref.countNeededPointer,
     });
-    skuCache.set(key, created);
-    return created;
+    skuCache.set(key, ref);
+    return ref;
   };
 
-  const ensureCoilItem = async (
-    coilId: string,
-    skuId: string,
+  const previewCoilItem = async (
+    coil: { id: string | null; key: string; code: string; machineCode: string },
+    sku: { id: string | null; key: string; code: string },
     pickEntry: ParsedPickEntry,
-  ): Promise<{ id: string }> => {
-    const key = `${coilId}:${skuId}`;
+  ) => {
+    const key = `${coil.key}:${sku.key}`;
     if (coilItemCache.has(key)) {
       return coilItemCache.get(key)!;
     }
-    const existing = await tx.coilItem.findUnique({
-      where: {
-        coilId_skuId: {
-          coilId,
-          skuId,
-        },
-      },
+    const existing =
+      coil.id && sku.id
+        ? await prisma.coilItem.findUnique({
+            where: {
+              coilId_skuId: {
+                coilId: coil.id,
+                skuId: sku.id,
+              },
+            },
+            select: { id: true },
+          })
+        : null;
+    const ref = { id: existing?.id ?? null };
+    record(buckets.coilItems, ref.id, {
+      machineCode: coil.machineCode,
+      coilCode: coil.code,
+      skuCode: sku.code,
+      par: normalizeInteger(pickEntry.par, 0),
     });
-    const parValue = normalizeInteger(pickEntry.par, 0);
-    if (existing) {
-      if (existing.par !== parValue) {
-        const updated = await tx.coilItem.update({
-          where: { id: existing.id },
-          data: {
-            par: parValue,
-          },
-        });
-        coilItemCache.set(key, updated);
-        return updated;
-      }
-      coilItemCache.set(key, existing);
-      return existing;
-    }
-    const created = await tx.coilItem.create({
-      data: {
-        coilId,
-        skuId,
-        par: parValue,
-      },
-    });
-    coilItemCache.set(key, created);
-    return created;
+    coilItemCache.set(key, ref);
+    return ref;
   };
 
   return {
-    ensureLocation,
-    ensureMachineType,
-    ensureMachine,
-    ensureCoil,
-    ensureSku,
-    ensureCoilItem,
+    buckets,
+    previewLocation,
+    previewMachineType,
+    previewMachine,
+    previewCoil,
+    previewSku,
+    previewCoilItem,
   };
 };
-
-const persistPickEntry = async (
-  tx: TransactionClient,
-  helpers: ReturnType<typeof createImportHelpers>,
-  runId: string,
-  scheduledFor: Date | null,
-  timeZone: string,
-  entry: ParsedPickEntry,
-) => {
-  const machine = entry.coilItem.coil.machine;
-
-  const locationRecord = await helpers.ensureLocation(machine.location);
-  const machineTypeRecord = await helpers.ensureMachineType(machine.machineType);
-  const machineRecord = await helpers.ensureMachine(machine, machineTypeRecord.id, locationRecord);
-  const coilRecord = await helpers.ensureCoil(machineRecord.id, entry.coilItem.coil.code);
-  const skuRecord = await helpers.ensureSku(entry.coilItem.sku);
-  const coilItemRecord = await helpers.ensureCoilItem(coilRecord.id, skuRecord.id, entry);
-
-  // Use the SKU's countNeededPointer to determine which field to use
-  const countPointer = skuRecord.countNeededPointer || 'total';
-  let countValue = 0;
-
-  switch (countPointer.toLowerCase()) {
-    case 'count':
-      countValue = normalizeInteger(entry.count, 0);
-      break;
-    case 'need':
-      countValue = normalizeInteger(entry.need, 0);
-      break;
-    case 'forecast':
-      countValue = normalizeInteger(entry.forecast, 0);
-      break;
-    case 'total':
-    default:
-      // Default behavior: try count, then need, then forecast, then fallback to 0
-      countValue =
-        normalizeInteger(entry.count, undefined) ??
-        normalizeInteger(entry.need, undefined) ??
-        normalizeInteger(entry.forecast, undefined) ??
-        0;
-      break;
-  }
-
-  await tx.pickEntry.create({
-    data: {
-      runId,
-      coilItemId: coilItemRecord.id,
-      count: countValue,
-      current: normalizeInteger(entry.current),
-      par: normalizeInteger(entry.par),
-      need: normalizeInteger(entry.need),
-      forecast: normalizeInteger(entry.forecast),
-      total: normalizeInteger(entry.total),
-      expiryDate: computeExpiryDateLabel({
-        scheduledFor,
-        timeZone,
-        expiryDays: skuRecord.expiryDays ?? 0,
-      }),
-    },
-  });
-};
-
-function normalizeInteger(value: number | null | undefined, fallback: number): number;
-function normalizeInteger(value: number | null | undefined, fallback?: number): number | null;
-function normalizeInteger(value: number | null | undefined, fallback?: number): number | null {
-  if (value === null || value === undefined) {
-    return fallback ?? null;
-  }
-  if (!Number.isFinite(value)) {
-    return fallback ?? null;
-  }
-  const rounded = Math.round(value);
-  return Number.isFinite(rounded) ? rounded : fallback ?? null;
-}
@@ -0,0 +1,281 @@
+import type { Request, Response } from 'express';
+import { Prisma, RunParticipantRole } from '@prisma/client';
+import type { RunStatus as PrismaRunStatus } from '@prisma/client';
+import type { UserRole } from '../../types/enums.js';
+import { prisma } from '../../lib/prisma.js';
+import type { TransactionClient } from '../../lib/prisma.js';
+import { getTimezoneDayRange } from '../../lib/timezone.js';
+import { isCompanyManager } from './authorization.js';
+import { ensureMembership, runAssignmentSchema } from './runs.js';
+import { resolveCompanyTimezone } from './timezone.js';
+
+export class RunParticipantError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'RunParticipantError';
+  }
+}
+
+type ParticipantActor = {
+  userId: string;
+  role: UserRole;
+};
+
+export const runParticipantInclude = {
+  user: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+} satisfies Prisma.RunParticipantInclude;
+
+type RunParticipantWithUser = Prisma.RunParticipantGetPayload<{ include: typeof runParticipantInclude }>;
+
+export const serializeRunParticipant = (participant: RunParticipantWithUser) => ({
+  id: participant.id,
+  role: participant.role,
+  userId: participant.userId,
+  firstName: participant.user.firstName,
+  lastName: participant.user.lastName,
+  assignedById: participant.assignedById,
+  createdAt: participant.createdAt,
+});
+
+export type RunParticipantPayload = ReturnType<typeof serializeRunParticipant>;
+
+// Loads the participants of several runs at once, keyed by run ID, for the run list payloads.
+export const loadRunParticipantsByRun = async (runIds: string[]) => {
+  const byRun = new Map<string, RunParticipantPayload[]>();
+  if (!runIds.length) {
+    return byRun;
+  }
+
+  const participants = await prisma.runParticipant.findMany({
+    where: { runId: { in: runIds } },
+    include: runParticipantInclude,
+    orderBy: [{ role: 'asc' }, { createdAt: 'asc' }],
+  });
+  participants.forEach((participant) => {
+    const list = byRun.get(participant.runId) ?? [];
+    list.push(serializeRunParticipant(participant));
+    byRun.set(participant.runId, list);
+  });
+  return byRun;
+};
+
+export const getUserRunRoles = (participants: RunParticipantPayload[], userId: string | undefined) =>
+  userId ? participants.filter((participant) => participant.userId === userId).map((participant) => participant.role) : [];
+
+// The runs from today onwards (in the company timezone) that a user is on, with their roles on each.
+export const listUpcomingRunParticipations = async (companyId: string, userId: string) => {
+  const timeZone = await resolveCompanyTimezone(companyId);
+  const { start } = getTimezoneDayRange({ timeZone });
+
+  const participations = await prisma.runParticipant.findMany({
+    where: {
+      userId,
+      run: { companyId, scheduledFor: { gte: start } },
+    },
+    include: {
+      run: {
+        select: { id: true, status: true, scheduledFor: true },
+      },
+    },
+    orderBy: [{ run: { scheduledFor: 'asc' } }, { role: 'asc' }],
+  });
+
+  const byRun = new Map<
+    string,
+    { runId: string; status: PrismaRunStatus; scheduledFor: Date | null; roles: RunParticipantRole[] }
+  >();
+  participations.forEach((participation) => {
+    const entry = byRun.get(participation.runId) ?? {
+      runId: participation.run.id,
+      status: participation.run.status,
+      scheduledFor: participation.run.scheduledFor,
+      roles: [],
+    };
+    entry.roles.push(participation.role);
+    byRun.set(participation.runId, entry);
+  });
+  return Array.from(byRun.values());
+};
+
+// Anyone in the company may put themselves on a run; assigning someone else needs a manager. The runner slot
+// holds one user, so taking it from someone else is a manager override.
+export const assignRunParticipant = async (
+  tx: TransactionClient,
+  {
+    companyId,
+    runId,
+    userId,
+    role,
+    actor,
+  }: {
+    companyId: string;
+    runId: string;
+    userId: string;
+    role: RunParticipantRole;
+    actor: ParticipantActor;
+  },
+) => {
+  const isManager = isCompanyManager(actor.role);
+  if (userId !== actor.userId && !isManager) {
+    throw new RunParticipantError('Insufficient permissions to assign other users to runs', 403);
+  }
+  if (!(await ensureMembership(companyId, userId))) {
+    throw new RunParticipantError('User not found in company', 404);
+  }
+
+  if (role === RunParticipantRole.RUNNER) {
+    const otherRunner = await tx.runParticipant.findFirst({
+      where: { runId, role, userId: { not: userId } },
+      select: { id: true },
+    });
+    if (otherRunner && !isManager) {
+      throw new RunParticipantError('Runner role is already assigned to another user', 409);
+    }
+    await tx.runParticipant.deleteMany({
+      where: { runId, role, userId: { not: userId } },
+    });
+    await tx.run.update({
+      where: { id: runId },
+      data: { runnerId: userId },
+    });
+  }
+
+  return tx.runParticipant.upsert({
+    where: { runId_userId_role: { runId, userId, role } },
+    create: { runId, userId, role, assignedById: actor.userId },
+    update: {},
+    include: runParticipantInclude,
+  });
+};
+
+// Users may take themselves off a run; removing anyone else needs a manager.
+export const removeRunParticipants = async (
+  tx: TransactionClient,
+  {
+    runId,
+    where,
+    actor,
+  }: {
+    runId: string;
+    where: Prisma.RunParticipantWhereInput;
+    actor: ParticipantActor;
+  },
+) => {
+  const participants = await tx.runParticipant.findMany({
+    where: { ...where, runId },
+    select: { id: true, userId: true, role: true },
+  });
+  if (!isCompanyManager(actor.role) && participants.some((participant) => participant.userId !== actor.userId)) {
+    throw new RunParticipantError('Insufficient permissions to remove other users from runs', 403);
+  }
+  if (!participants.length) {
+    return 0;
+  }
+
+  await tx.runParticipant.deleteMany({
+    where: { id: { in: participants.map((participant) => participant.id) } },
+  });
+  if (participants.some((participant) => participant.role === RunParticipantRole.RUNNER)) {
+    await tx.run.update({
+      where: { id: runId },
+      data: { runnerId: null },
+    });
+  }
+  return participants.length;
+};
+
+const findCompanyRun = (companyId: string, runId: string) =>
+  prisma.run.findFirst({
+    where: { id: runId, companyId },
+    select: { id: true },
+  });
+
+export const listRunParticipants = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to view run participants' });
+  }
+
+  const run = await findCompanyRun(req.auth.companyId, req.params.runId?.trim() || '');
+  if (!run) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+
+  const participants = (await loadRunParticipantsByRun([run.id])).get(run.id) ?? [];
+  return res.json({
+    runId: run.id,
+    participants,
+    currentUserRoles: getUserRunRoles(participants, req.auth.userId),
+  });
+};
+
+export const addRunParticipant = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to assign runs' });
+  }
+  const companyId = req.auth.companyId;
+  const actor = { userId: req.auth.userId, role: req.auth.role };
+
+  const parsed = runAssignmentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+
+  const run = await findCompanyRun(companyId, req.params.runId?.trim() || '');
+  if (!run) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+
+  try {
+    const participant = await prisma.$transaction((tx) =>
+      assignRunParticipant(tx, {
+        companyId,
+        runId: run.id,
+        userId: parsed.data.userId ?? actor.userId,
+        role: parsed.data.role,
+        actor,
+      }),
+    );
+    return res.status(201).json(serializeRunParticipant(participant));
+  } catch (error) {
+    if (error instanceof RunParticipantError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'User already has this role on the run' });
+    }
+    throw error;
+  }
+};
+
+export const deleteRunParticipant = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to assign runs' });
+  }
+  const actor = { userId: req.auth.userId, role: req.auth.role };
+
+  const run = await findCompanyRun(req.auth.companyId, req.params.runId?.trim() || '');
+  if (!run) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+  const participantId = req.params.participantId?.trim() || '';
+
+  try {
+    const removed = await prisma.$transaction((tx) =>
+      removeRunParticipants(tx, { runId: run.id, where: { id: participantId }, actor }),
+    );
+    if (!removed) {
+      return res.status(404).json({ error: 'Participant not found' });
+    }
+    return res.status(204).send();
+  } catch (error) {
+    if (error instanceof RunParticipantError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,502 @@
+import { z } from 'zod';
+import { RunActivityType, RunParticipantRole } from '@prisma/client';
+import type { Prisma, RunStatus as PrismaRunStatus } from '@prisma/client';
+import { RunStatus as AppRunStatus } from '../../types/enums.js';
+import type { TransactionClient } from '../../lib/prisma.js';
+import { recordRunActivity, snapshotPickEntry } from './run-activity.js';
+import type { RunActivityInput } from './run-activity.js';
+import { transitionRunStatus } from './run-status.js';
+
+export const splitRunSchema = z.object({
+  // Locations that move to the new run.
+  locationIds: z.array(z.string().cuid()).min(1),
+  runnerId: z.string().cuid().nullable().optional(),
+});
+
+export const mergeRunsSchema = z.object({
+  // The run folded into the target; it is deleted once merged.
+  sourceRunId: z.string().cuid(),
+  // How to handle a coil item picked on both runs: SUM adds the counts together, REJECT refuses the merge.
+  onConflict: z.enum(['SUM', 'REJECT']).default('REJECT'),
+});
+
+export type MergeConflictStrategy = z.infer<typeof mergeRunsSchema>['onConflict'];
+
+export class RunRestructureError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+    readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'RunRestructureError';
+  }
+}
+
+const pickEntryMergeSelect = {
+  id: true,
+  coilItemId: true,
+  packingSessionId: true,
+  count: true,
+  override: true,
+  isPicked: true,
+  pickedAt: true,
+  expiryDate: true,
+  removedAt: true,
+  pickedCount: true,
+  shortageCount: true,
+  shortageReason: true,
+  expiryOverrides: { select: { expiryDate: true, quantity: true } },
+} satisfies Prisma.PickEntrySelect;
+
+type MergeablePickEntry = Prisma.PickEntryGetPayload<{ select: typeof pickEntryMergeSelect }>;
+
+const pickEntriesAtLocations = (runId: string, locationIds: string[]): Prisma.PickEntryWhereInput => ({
+  runId,
+  coilItem: { coil: { machine: { locationId: { in: locationIds } } } },
+});
+
+// The steps a new run takes from CREATED to reach a given status.
+const STATUS_PATH_FROM_CREATED: Record<AppRunStatus, AppRunStatus[]> = {
+  [AppRunStatus.CREATED]: [],
+  [AppRunStatus.PICKING]: [AppRunStatus.PICKING],
+  [AppRunStatus.PENDING_FRESH]: [AppRunStatus.PICKING, AppRunStatus.PENDING_FRESH],
+  [AppRunStatus.READY]: [AppRunStatus.PICKING, AppRunStatus.READY],
+};
+
+// Rewrites a run's location positions as 0..n-1, keeping their order.
+const compactLocationOrder = async (tx: TransactionClient, runId: string) => {
+  const orders = await tx.runLocationOrder.findMany({
+    where: { runId },
+    orderBy: [{ position: 'asc' }, { id: 'asc' }],
+    select: { id: true, position: true },
+  });
+  for (const [position, order] of orders.entries()) {
+    if (order.position !== position) {
+      await tx.runLocationOrder.update({ where: { id: order.id }, data: { position } });
+    }
+  }
+};
+
+// Moves the chosen locations of a run, with everything recorded against them, onto a new run for the same day.
+// A packing session moves with its pick entries when all of them move; otherwise the moved entries are released
+// so a packer on the new run can pick them up. The new run starts CREATED and is moved to the source run's status,
+// so its history shows where that status came from; the picking times are then copied across.
+export const splitRun = async (
+  tx: TransactionClient,
+  {
+    run,
+    locationIds,
+    runnerId,
+    actorId,
+  }: {
+    run: {
+      id: string;
+      companyId: string;
+      status: PrismaRunStatus;
+      scheduledFor: Date | null;
+      pickingStartedAt: Date | null;
+      pickingEndedAt: Date | null;
+    };
+    locationIds: string[];
+    runnerId: string | null;
+    actorId: string | null;
+  },
+) => {
+  const selectedLocationIds = Array.from(new Set(locationIds));
+  const orderedLocations = await tx.runLocationOrder.findMany({
+    where: { runId: run.id },
+    select: { locationId: true },
+  });
+  const entryLocations = await tx.pickEntry.findMany({
+    where: { runId: run.id },
+    select: { coilItem: { select: { coil: { select: { machine: { select: { locationId: true } } } } } } },
+  });
+  const runLocationIds = new Set<string | null>([
+    ...orderedLocations.map((order) => order.locationId),
+    ...entryLocations.map((entry) => entry.coilItem.coil.machine.locationId),
+  ]);
+
+  const unknownLocationIds = selectedLocationIds.filter((locationId) => !runLocationIds.has(locationId));
+  if (unknownLocationIds.length) {
+    throw new RunRestructureError('Some locations are not part of this run', 400, { locationIds: unknownLocationIds });
+  }
+  if (Array.from(runLocationIds).every((locationId) => locationId !== null && selectedLocationIds.includes(locationId))) {
+    throw new RunRestructureError('Choose fewer locations; splitting them all would leave the run empty', 400);
+  }
+
+  const newRun = await tx.run.create({
+    data: {
+      companyId: run.companyId,
+      status: AppRunStatus.CREATED,
+      scheduledFor: run.scheduledFor,
+      runnerId,
+      ...(runnerId
+        ? { participants: { create: { userId: runnerId, role: RunParticipantRole.RUNNER, assignedById: actorId } } }
+        : {}),
+    },
+  });
+
+  const statusChanges = [];
+  for (const to of STATUS_PATH_FROM_CREATED[run.status as AppRunStatus]) {
+    statusChanges.push(
+      await transitionRunStatus(tx, { runId: newRun.id, to, actorId, reason: `Split from run ${run.id}` }),
+    );
+  }
+  if (statusChanges.length) {
+    await tx.run.update({
+      where: { id: newRun.id },
+      data: { pickingStartedAt: run.pickingStartedAt, pickingEndedAt: run.pickingEndedAt },
+    });
+  }
+
+  const movedEntries = await tx.pickEntry.findMany({
+    where: pickEntriesAtLocations(run.id, selectedLocationIds),
+    select: { id: true, packingSessionId: true },
+  });
+  const movedEntryIds = movedEntries.map((entry) => entry.id);
+  await tx.pickEntry.updateMany({
+    where: { id: { in: movedEntryIds } },
+    data: { runId: newRun.id },
+  });
+
+  const sessionIds = Array.from(
+    new Set(movedEntries.map((entry) => entry.packingSessionId).filter((id): id is string => id !== null)),
+  );
+  const movedSessionIds: string[] = [];
+  for (const sessionId of sessionIds) {
+    const remaining = await tx.pickEntry.count({ where: { runId: run.id, packingSessionId: sessionId } });
+    if (remaining) {
+      await tx.pickEntry.updateMany({
+        where: { runId: newRun.id, packingSessionId: sessionId },
+        data: { packingSessionId: null },
+      });
+    } else {
+      await tx.packingSession.update({ where: { id: sessionId }, data: { runId: newRun.id } });
+      movedSessionIds.push(sessionId);
+    }
+  }
+  const movedSessionCount = movedSessionIds.length;
+
+  // Claims follow a session that moved; the rest on the moved machines go, as their entries were released.
+  await tx.packingClaim.updateMany({
+    where: {
+      runId: run.id,
+      packingSessionId: { in: movedSessionIds },
+      machine: { locationId: { in: selectedLocationIds } },
+    },
+    data: { runId: newRun.id },
+  });
+  await tx.packingClaim.deleteMany({
+    where: {
+      runId: run.id,
+      OR: [{ packingSessionId: { in: movedSessionIds } }, { machine: { locationId: { in: selectedLocationIds } } }],
+    },
+  });
+
+  const chocolateBoxes = await tx.chocolateBox.updateMany({
+    where: { runId: run.id, machine: { locationId: { in: selectedLocationIds } } },
+    data: { runId: newRun.id },
+  });
+  const locationOrders = await tx.runLocationOrder.updateMany({
+    where: { runId: run.id, locationId: { in: selectedLocationIds } },
+    data: { runId: newRun.id },
+  });
+  const notes = await tx.note.updateMany({
+    where: {
+      runId: run.id,
+      OR: [{ locationId: { in: selectedLocationIds } }, { machine: { locationId: { in: selectedLocationIds } } }],
+    },
+    data: { runId: newRun.id },
+  });
+  const visits = await tx.runLocationVisit.updateMany({
+    where: { runId: run.id, locationId: { in: selectedLocationIds } },
+    data: { runId: newRun.id },
+  });
+  // Pick history follows the pick entry.
+  await tx.runActivityEvent.updateMany({
+    where: { runId: run.id, pickEntryId: { in: movedEntryIds } },
+    data: { runId: newRun.id },
+  });
+  await compactLocationOrder(tx, run.id);
+  await compactLocationOrder(tx, newRun.id);
+
+  const summary = {
+    sourceRunId: run.id,
+    newRunId: newRun.id,
+    locationIds: selectedLocationIds,
+    pickEntries: movedEntryIds.length,
+    packingSessions: movedSessionCount,
+    chocolateBoxes: chocolateBoxes.count,
+    locationOrders: locationOrders.count,
+    notes: notes.count,
+    locationVisits: visits.count,
+  };
+  for (const runId of [run.id, newRun.id]) {
+    await recordRunActivity(tx, {
+      runId,
+      userId: actorId,
+      events: [{ type: RunActivityType.RUN_SPLIT, after: summary }],
+    });
+  }
+
+  return { newRun, summary, statusChanges };
+};
+
+const mergeExpiryOverrides = (target: MergeablePickEntry, source: MergeablePickEntry) => {
+  const quantities = new Map<string, number>();
+  [...target.expiryOverrides, ...source.expiryOverrides].forEach((row) => {
+    quantities.set(row.expiryDate, (quantities.get(row.expiryDate) ?? 0) + row.quantity);
+  });
+  return quantities;
+};
+
+// Combines two pick entries for the same coil item. Counts add up, an override on either side becomes the sum of
+// both effective counts, and the entry only stays picked if both halves were picked.
+const sumPickEntries = (target: MergeablePickEntry, source: MergeablePickEntry) => {
+  const isPicked = target.isPicked && source.isPicked;
+  const pickedTimes = [target.pickedAt, source.pickedAt].filter((value): value is Date => value !== null);
+  const expiryDates = [target.expiryDate, source.expiryDate].filter((value): value is string => Boolean(value)).sort();
+  return {
+    count: target.count + source.count,
+    override:
+      target.override === null && source.override === null
+        ? null
+        : (target.override ?? target.count) + (source.override ?? source.count),
+    isPicked,
+    pickedAt: isPicked && pickedTimes.length ? new Date(Math.max(...pickedTimes.map((value) => value.getTime()))) : null,
+    expiryDate: expiryDates[0] ?? null,
+    removedAt: target.removedAt && source.removedAt ? target.removedAt : null,
+    // A shortfall only carries over while the combined entry stays picked; the side without one was picked in full.
+    ...(isPicked && (target.shortageCount || source.shortageCount)
+      ? {
+          pickedCount:
+            (target.pickedCount ?? target.override ?? target.count) + (source.pickedCount ?? source.override ?? source.count),
+          shortageCount: (target.shortageCount ?? 0) + (source.shortageCount ?? 0),
+          shortageReason: target.shortageReason ?? source.shortageReason,
+        }
+      : { pickedCount: null, shortageCount: null, shortageReason: null }),
+  };
+};
+
+// Folds the source run into the target and deletes the source. Both runs must belong to the same company; the
+// caller checks they are scheduled for the same day.
+export const mergeRuns = async (
+  tx: TransactionClient,
+  {
+    targetRun,
+    sourceRunId,
+    onConflict,
+    actorId,
+  }: {
+    targetRun: { id: string; runnerId: string | null };
+    sourceRunId: string;
+    onConflict: MergeConflictStrategy;
+    actorId: string | null;
+  },
+) => {
+  const sourceEntries = await tx.pickEntry.findMany({
+    where: { runId: sourceRunId },
+    select: pickEntryMergeSelect,
+  });
+  const conflictingTargets = await tx.pickEntry.findMany({
+    where: { runId: targetRun.id, coilItemId: { in: sourceEntries.map((entry) => entry.coilItemId) } },
+    select: pickEntryMergeSelect,
+  });
+  const targetsByCoilItem = new Map(conflictingTargets.map((entry) => [entry.coilItemId, entry]));
+
+  if (conflictingTargets.length && onConflict === 'REJECT') {
+    throw new RunRestructureError('Both runs pick some of the same coil items', 409, {
+      coilItemIds: conflictingTargets.map((entry) => entry.coilItemId),
+    });
+  }
+
+  const activity: RunActivityInput[] = [];
+  for (const source of sourceEntries) {
+    const target = targetsByCoilItem.get(source.coilItemId);
+    if (!target) {
+      continue;
+    }
+
+    const merged = sumPickEntries(target, source);
+    await tx.pickEntry.update({ where: { id: target.id }, data: merged });
+    const overrides = mergeExpiryOverrides(target, source);
+    await tx.pickEntryExpiryOverride.deleteMany({ where: { pickEntryId: target.id } });
+    if (overrides.size) {
+      await tx.pickEntryExpiryOverride.createMany({
+        data: Array.from(overrides, ([expiryDate, quantity]) => ({ pickEntryId: target.id, expiryDate, quantity })),
+      });
+    }
+    // The source entry's history now belongs to the entry it was folded into.
+    await tx.runActivityEvent.updateMany({
+      where: { runId: sourceRunId, pickEntryId: source.id },
+      data: { runId: targetRun.id, pickEntryId: target.id },
+    });
+    await tx.pickEntry.delete({ where: { id: source.id } });
+
+    activity.push({
+      type: RunActivityType.RUN_MERGED,
+      pickEntryId: target.id,
+      before: { target: snapshotPickEntry(target), source: snapshotPickEntry(source) },
+      after: snapshotPickEntry({ coilItemId: target.coilItemId, ...merged }),
+    });
+  }
+
+  const moved = await tx.pickEntry.updateMany({
+    where: { runId: sourceRunId },
+    data: { runId: targetRun.id },
+  });
+  const sessions = await tx.packingSession.updateMany({
+    where: { runId: sourceRunId },
+    data: { runId: targetRun.id },
+  });
+  // A machine can only be claimed once per run, so source claims on machines the target already has claimed go.
+  const targetClaimedMachineIds = (
+    await tx.packingClaim.findMany({ where: { runId: targetRun.id }, select: { machineId: true } })
+  ).map((claim) => claim.machineId);
+  await tx.packingClaim.deleteMany({
+    where: { runId: sourceRunId, machineId: { in: targetClaimedMachineIds } },
+  });
+  await tx.packingClaim.updateMany({
+    where: { runId: sourceRunId },
+    data: { runId: targetRun.id },
+  });
+
+  // Box numbers are unique per run, so clashing boxes from the source take the next free numbers.
+  const targetBoxNumbers = new Set(
+    (await tx.chocolateBox.findMany({ where: { runId: targetRun.id }, select: { number: true } })).map((box) => box.number),
+  );
+  const sourceBoxes = await tx.chocolateBox.findMany({
+    where: { runId: sourceRunId },
+    orderBy: { number: 'asc' },
+    select: { id: true, number: true },
+  });
+  const renumberedBoxes: Array<{ id: string; from: number; to: number }> = [];
+  let nextBoxNumber = Math.max(0, ...targetBoxNumbers, ...sourceBoxes.map((box) => box.number)) + 1;
+  for (const box of sourceBoxes) {
+    const number = targetBoxNumbers.has(box.number) ? nextBoxNumber++ : box.number;
+    targetBoxNumbers.add(number);
+    await tx.chocolateBox.update({ where: { id: box.id }, data: { runId: targetRun.id, number } });
+    if (number !== box.number) {
+      renumberedBoxes.push({ id: box.id, from: box.number, to: number });
+    }
+  }
+
+  const targetOrders = await tx.runLocationOrder.findMany({
+    where: { runId: targetRun.id },
+    select: { locationId: true, position: true },
+  });
+  const targetOrderLocationIds = new Set(targetOrders.map((order) => order.locationId));
+  const sourceOrders = await tx.runLocationOrder.findMany({
+    where: { runId: sourceRunId },
+    orderBy: { position: 'asc' },
+    select: { id: true, locationId: true },
+  });
+  let nextPosition = Math.max(-1, ...targetOrders.map((order) => order.position)) + 1;
+  for (const order of sourceOrders) {
+    if (targetOrderLocationIds.has(order.locationId)) {
+      continue;
+    }
+    await tx.runLocationOrder.update({
+      where: { id: order.id },
+      data: { runId: targetRun.id, position: nextPosition++ },
+    });
+  }
+  await compactLocationOrder(tx, targetRun.id);
+
+  // A location visited on both runs keeps one visit spanning the earlier arrival to the later departure; it stays
+  // open while either run is still on site. The source's visit row goes with the source run.
+  const targetVisits = new Map(
+    (await tx.runLocationVisit.findMany({ where: { runId: targetRun.id } })).map((visit) => [visit.locationId, visit]),
+  );
+  const sourceVisits = await tx.runLocationVisit.findMany({ where: { runId: sourceRunId } });
+  const mergedVisits = [];
+  for (const visit of sourceVisits) {
+    const target = targetVisits.get(visit.locationId);
+    if (!target) {
+      await tx.runLocationVisit.update({ where: { id: visit.id }, data: { runId: targetRun.id } });
+      continue;
+    }
+    const sourceArrivedFirst = visit.arrivedAt < target.arrivedAt;
+    const sourceDepartedLast = Boolean(visit.departedAt && target.departedAt && visit.departedAt > target.departedAt);
+    const stillOnSite = !visit.departedAt || !target.departedAt;
+    await tx.runLocationVisit.update({
+      where: { id: target.id },
+      data: {
+        ...(sourceArrivedFirst ? { arrivedAt: visit.arrivedAt, userId: visit.userId } : {}),
+        ...(stillOnSite
+          ? { departedAt: null, departedById: null }
+          : sourceDepartedLast
+            ? { departedAt: visit.departedAt, departedById: visit.departedById }
+            : {}),
+      },
+    });
+    mergedVisits.push({
+      locationId: visit.locationId,
+      arrivedAt: visit.arrivedAt.toISOString(),
+      departedAt: visit.departedAt?.toISOString() ?? null,
+    });
+  }
+
+  // The target keeps its runner; the source runner only carries over when the target has none.
+  const sourceParticipants = await tx.runParticipant.findMany({
+    where: { runId: sourceRunId },
+    select: { userId: true, role: true, assignedById: true },
+  });
+  const carriedParticipants = sourceParticipants.filter(
+    (participant) => participant.role !== RunParticipantRole.RUNNER || !targetRun.runnerId,
+  );
+  if (carriedParticipants.length) {
+    await tx.runParticipant.createMany({
+      data: carriedParticipants.map((participant) => ({ ...participant, runId: targetRun.id })),
+      skipDuplicates: true,
+    });
+  }
+  const carriedRunner = carriedParticipants.find((participant) => participant.role === RunParticipantRole.RUNNER);
+  if (carriedRunner) {
+    await tx.run.update({ where: { id: targetRun.id }, data: { runnerId: carriedRunner.userId } });
+  }
+
+  const notes = await tx.note.updateMany({ where: { runId: sourceRunId }, data: { runId: targetRun.id } });
+  await tx.runImport.updateMany({ where: { runId: sourceRunId }, data: { runId: targetRun.id } });
+  await tx.runActivityEvent.updateMany({ where: { runId: sourceRunId }, data: { runId: targetRun.id } });
+
+  const droppedStatusEvents = await tx.runStatusEvent.count({ where: { runId: sourceRunId } });
+  await tx.run.delete({ where: { id: sourceRunId } });
+
+  // Unpicked entries arriving on a finished run send it back to picking.
+  const target = await tx.run.findUniqueOrThrow({ where: { id: targetRun.id }, select: { status: true } });
+  const unpicked = await tx.pickEntry.count({ where: { runId: targetRun.id, isPicked: false, removedAt: null } });
+  const statusChange =
+    unpicked > 0 && (target.status === AppRunStatus.READY || target.status === AppRunStatus.PENDING_FRESH)
+      ? await transitionRunStatus(tx, {
+          runId: targetRun.id,
+          to: AppRunStatus.PICKING,
+          actorId,
+          reason: `Merged with run ${sourceRunId}`,
+        })
+      : null;
+
+  const summary = {
+    sourceRunId,
+    targetRunId: targetRun.id,
+    pickEntries: moved.count + activity.length,
+    summedPickEntries: activity.length,
+    packingSessions: sessions.count,
+    chocolateBoxes: sourceBoxes.length,
+    renumberedChocolateBoxes: renumberedBoxes,
+    notes: notes.count,
+    locationVisits: sourceVisits.length - mergedVisits.length,
+    // Source visits folded into the target's visit for the same location.
+    mergedLocationVisits: mergedVisits,
+    // The source's status history is deleted with it.
+    droppedStatusEvents,
+  };
+  await recordRunActivity(tx, {
+    runId: targetRun.id,
+    userId: actorId,
+    events: [...activity, { type: RunActivityType.RUN_MERGED, after: summary }],
+  });
+
+  return { summary, statusChange };
+};
@@ -0,0 +1,161 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { getTimezoneDayRange } from '../../lib/timezone.js';
+import { createStraightLineMatrixProvider, optimizeRoute } from '../../lib/route-optimizer.js';
+import type { RouteStop } from '../../lib/route-optimizer.js';
+import { ensureRun } from './runs.js';
+import { resolveCompanyTimezone } from './timezone.js';
+
+// HH:mm, parsed to minutes after local midnight.
+export const localTimeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must use HH:mm.')
+  .transform((value) => {
+    const [hours, minutes] = value.split(':').map(Number);
+    return hours! * 60 + minutes!;
+  });
+
+const optimizeLocationOrderSchema = z.object({
+  depot: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+  }),
+  // Local time in the company timezone on the run's scheduled day.
+  departureTime: localTimeSchema,
+  averageSpeedKmh: z.number().positive().max(130).optional(),
+  returnToDepot: z.boolean().optional(),
+});
+
+export type RunLocation = {
+  id: string;
+  name: string;
+  address: string | null;
+  openingTimeMinutes: number | null;
+  closingTimeMinutes: number | null;
+  dwellTimeMinutes: number | null;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+export const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+// The run's locations in their current order, followed by any that only appear through pick entries.
+export const collectRunLocations = (run: NonNullable<Awaited<ReturnType<typeof ensureRun>>>) => {
+  const locations = new Map<string, RunLocation>();
+  run.locationOrders.forEach((order) => {
+    if (order.location) {
+      locations.set(order.location.id, order.location);
+    }
+  });
+  run.pickEntries.forEach((entry) => {
+    const location = entry.coilItem.coil.machine?.location;
+    if (location && !locations.has(location.id)) {
+      locations.set(location.id, location);
+    }
+  });
+  return Array.from(locations.values());
+};
+
+// Proposes a visit order for a run's locations without saving it; the client applies it through
+// PUT /:runId/location-order. Locations without coordinates cannot be routed and keep their relative order after
+// the routed ones.
+export const optimizeRunLocationOrder = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to update location ordering' });
+  }
+
+  const runId = req.params.runId?.trim();
+  if (!runId) {
+    return res.status(400).json({ error: 'Run ID is required' });
+  }
+
+  const parsed = optimizeLocationOrderSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+  const { depot, departureTime: departureMinutes, averageSpeedKmh, returnToDepot = false } = parsed.data;
+
+  const run = await ensureRun(req.auth.companyId, runId);
+  if (!run) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+
+  const locations = collectRunLocations(run);
+  const routable: Array<RunLocation & RouteStop> = [];
+  const unroutable: RunLocation[] = [];
+  locations.forEach((location) => {
+    if (location.latitude != null && location.longitude != null) {
+      routable.push({ ...location, latitude: location.latitude, longitude: location.longitude });
+    } else {
+      unroutable.push(location);
+    }
+  });
+
+  const plan = await optimizeRoute({
+    depot,
+    stops: routable,
+    departureMinutes,
+    returnToDepot,
+    matrixProvider: createStraightLineMatrixProvider(averageSpeedKmh),
+  });
+
+  const timeZone = await resolveCompanyTimezone(req.auth.companyId);
+  const { start: dayStart } = getTimezoneDayRange({ timeZone, reference: run.scheduledFor ?? new Date() });
+  const toTimestamp = (minutesAfterMidnight: number) =>
+    new Date(dayStart.getTime() + Math.round(minutesAfterMidnight) * 60 * 1000).toISOString();
+
+  const locationsById = new Map(routable.map((location) => [location.id, location]));
+  const stops = plan.stops.map((stop, index) => {
+    const location = locationsById.get(stop.id)!;
+    return {
+      position: index,
+      locationId: location.id,
+      name: location.name,
+      address: location.address,
+      openingTimeMinutes: location.openingTimeMinutes,
+      closingTimeMinutes: location.closingTimeMinutes,
+      dwellTimeMinutes: location.dwellTimeMinutes,
+      distanceKm: roundTo(stop.distanceKm, 2),
+      travelMinutes: Math.round(stop.travelMinutes),
+      waitMinutes: Math.round(stop.waitMinutes),
+      arrivalAt: toTimestamp(stop.arrivalMinutes),
+      serviceStartAt: toTimestamp(stop.serviceStartMinutes),
+      departureAt: toTimestamp(stop.departureMinutes),
+      lateMinutes: Math.round(stop.lateMinutes),
+    };
+  });
+
+  return res.json({
+    runId: run.id,
+    timeZone,
+    departureAt: toTimestamp(departureMinutes),
+    finishAt: toTimestamp(plan.finishMinutes),
+    returnToDepot,
+    totalDistanceKm: roundTo(plan.totalDistanceKm, 2),
+    totalTravelMinutes: Math.round(plan.totalTravelMinutes),
+    totalWaitMinutes: Math.round(plan.totalWaitMinutes),
+    stops,
+    // Visits that finish after the location closes.
+    violations: stops
+      .filter((stop) => stop.lateMinutes > 0)
+      .map((stop) => ({
+        locationId: stop.locationId,
+        name: stop.name,
+        closingTimeMinutes: stop.closingTimeMinutes,
+        departureAt: stop.departureAt,
+        lateMinutes: stop.lateMinutes,
+      })),
+    unroutableLocations: unroutable.map((location) => ({
+      locationId: location.id,
+      name: location.name,
+      address: location.address,
+    })),
+    // Same shape as the PUT /:runId/location-order payload.
+    locations: [...stops.map((stop) => stop.locationId), ...unroutable.map((location) => location.id)].map(
+      (locationId, order) => ({ locationId, order }),
+    ),
+  });
+};
@@ -0,0 +1,180 @@
+import type { Prisma, RunStatus as PrismaRunStatus } from '@prisma/client';
+import { RunStatus } from '../../types/enums.js';
+import type { RunStatus as RunStatusValue } from '../../types/enums.js';
+import { prisma } from '../../lib/prisma.js';
+import type { TransactionClient } from '../../lib/prisma.js';
+import { publishRunEvent } from '../../lib/run-event-bus.js';
+
+// Runs move forward CREATED → PICKING → PENDING_FRESH → READY. PICKING may go straight to READY when the run
+// has nothing fresh to wait for, and the backward edges are the explicit reopen paths.
+export const RUN_STATUS_TRANSITIONS: Record<RunStatusValue, readonly RunStatusValue[]> = {
+  [RunStatus.CREATED]: [RunStatus.PICKING],
+  [RunStatus.PICKING]: [RunStatus.PENDING_FRESH, RunStatus.READY, RunStatus.CREATED],
+  [RunStatus.PENDING_FRESH]: [RunStatus.READY, RunStatus.PICKING],
+  [RunStatus.READY]: [RunStatus.PENDING_FRESH, RunStatus.PICKING],
+};
+
+export const canTransitionRunStatus = (from: RunStatusValue, to: RunStatusValue) =>
+  RUN_STATUS_TRANSITIONS[from].includes(to);
+
+export class RunStatusTransitionError extends Error {
+  constructor(
+    message: string,
+    readonly from: RunStatusValue,
+    readonly statusCode = 409,
+  ) {
+    super(message);
+    this.name = 'RunStatusTransitionError';
+  }
+
+  get allowedStatuses() {
+    return RUN_STATUS_TRANSITIONS[this.from];
+  }
+}
+
+// Keeps the picking timestamps in step with the status: reopening to CREATED clears both, reopening to PICKING
+// clears the end, and reaching PENDING_FRESH or READY records the end once.
+const buildTimestampUpdate = (
+  to: RunStatusValue,
+  run: { pickingStartedAt: Date | null; pickingEndedAt: Date | null },
+  now: Date,
+): Prisma.RunUpdateManyMutationInput => {
+  switch (to) {
+    case RunStatus.CREATED:
+      return { pickingStartedAt: null, pickingEndedAt: null };
+    case RunStatus.PICKING:
+      return { pickingStartedAt: run.pickingStartedAt ?? now, pickingEndedAt: null };
+    default:
+      return run.pickingEndedAt ? {} : { pickingEndedAt: now };
+  }
+};
+
+// Moves a run to `to` along the transition graph and records the change. Every status change goes through here
+// so the history stays complete; an actorId of null marks an automatic change.
+export const transitionRunStatus = async (
+  tx: TransactionClient,
+  {
+    runId,
+    to,
+    actorId = null,
+    reason = null,
+  }: {
+    runId: string;
+    to: RunStatusValue;
+    actorId?: string | null;
+    reason?: string | null;
+  },
+) => {
+  const run = await tx.run.findUnique({
+    where: { id: runId },
+    select: { status: true, pickingStartedAt: true, pickingEndedAt: true },
+  });
+  if (!run) {
+    throw new RunStatusTransitionError('Run not found', RunStatus.CREATED, 404);
+  }
+
+  const from = run.status as RunStatusValue;
+  if (!canTransitionRunStatus(from, to)) {
+    throw new RunStatusTransitionError(`A ${from} run cannot be moved to ${to}.`, from);
+  }
+
+  const now = new Date();
+  // Matching on the status read above stops two concurrent changes from both applying.
+  const updated = await tx.run.updateMany({
+    where: { id: runId, status: run.status },
+    data: {
+      status: to as PrismaRunStatus,
+      ...buildTimestampUpdate(to, run, now),
+    },
+  });
+  if (!updated.count) {
+    throw new RunStatusTransitionError('The run status changed while updating. Reload the run and try again.', from);
+  }
+
+  await tx.runStatusEvent.create({
+    data: {
+      runId,
+      actorId,
+      fromStatus: run.status,
+      toStatus: to as PrismaRunStatus,
+      reason,
+      createdAt: now,
+    },
+  });
+
+  return { from, to };
+};
+
+// Marks a run READY once every pick entry still on the workbook is picked, walking through PICKING first for a run that never started.
+export const updateRunCompletionStatus = async (runId: string) => {
+  const [run, unpickedCount, totalCount] = await prisma.$transaction([
+    prisma.run.findUnique({
+      where: { id: runId },
+      select: { status: true, pickingEndedAt: true },
+    }),
+    prisma.pickEntry.count({
+      where: {
+        runId,
+        isPicked: false,
+        removedAt: null,
+      },
+    }),
+    prisma.pickEntry.count({
+      where: { runId, removedAt: null },
+    }),
+  ]);
+
+  if (!run || totalCount === 0 || unpickedCount > 0) {
+    return;
+  }
+
+  if (run.status !== RunStatus.CREATED && run.status !== RunStatus.PICKING) {
+    if (!run.pickingEndedAt) {
+      await prisma.run.update({
+        where: { id: runId },
+        data: { pickingEndedAt: new Date() },
+      });
+    }
+    return;
+  }
+
+  try {
+    const changes = await prisma.$transaction(async (tx) => {
+      const applied = [];
+      if (run.status === RunStatus.CREATED) {
+        applied.push(
+          await transitionRunStatus(tx, { runId, to: RunStatus.PICKING, reason: 'Pick entries were marked as picked' }),
+        );
+      }
+      applied.push(await transitionRunStatus(tx, { runId, to: RunStatus.READY, reason: 'All pick entries were picked' }));
+      return applied;
+    });
+    changes.forEach((change) => publishRunEvent(runId, 'run.status', { ...change, actorId: null }));
+  } catch (error) {
+    // A concurrent request already moved the run on; its status change stands.
+    if (!(error instanceof RunStatusTransitionError)) {
+      throw error;
+    }
+  }
+};
+
+export const listRunStatusHistory = async (runId: string) => {
+  const events = await prisma.runStatusEvent.findMany({
+    where: { runId },
+    include: {
+      actor: {
+        select: { id: true, firstName: true, lastName: true },
+      },
+    },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  });
+
+  return events.map((event) => ({
+    id: event.id,
+    fromStatus: event.fromStatus,
+    toStatus: event.toStatus,
+    reason: event.reason,
+    actor: event.actor,
+    createdAt: event.createdAt,
+  }));
+};
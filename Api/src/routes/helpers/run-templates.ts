@@ -0,0 +1,505 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { Prisma, RunParticipantRole, RunTemplatePickSource } from '@prisma/client';
+import type { RunStatus as PrismaRunStatus } from '@prisma/client';
+import { RunStatus as AppRunStatus } from '../../types/enums.js';
+import { prisma } from '../../lib/prisma.js';
+import {
+  determineScheduledFor,
+  getTimezoneDayRange,
+  getWeekdayIndexInTimezone,
+  isValidTimezone,
+} from '../../lib/timezone.js';
+import type { TimezoneDayRange } from '../../lib/timezone.js';
+import { isCompanyManager } from './authorization.js';
+import { computeExpiryDateLabel } from './app-dates.js';
+import { createInBatches } from './run-import-entities.js';
+import { ensureMembership } from './runs.js';
+
+const MAX_DAYS_AHEAD = 28;
+const DEFAULT_SCHEDULER_INTERVAL_MINUTES = 60;
+
+const weekdaysSchema = z
+  .array(z.number().int().min(0).max(6))
+  .min(1, 'At least one weekday is required.')
+  .transform((weekdays) => Array.from(new Set(weekdays)).sort((a, b) => a - b));
+
+// Location IDs are listed in the order the generated runs should visit them.
+const locationIdsSchema = z
+  .array(z.string().trim().min(1))
+  .min(1, 'At least one location is required.')
+  .refine((locationIds) => new Set(locationIds).size === locationIds.length, {
+    message: 'Locations must not repeat.',
+  });
+
+const createRunTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  locationIds: locationIdsSchema,
+  runnerId: z.string().cuid().nullable().optional(),
+  weekdays: weekdaysSchema,
+  daysAhead: z.number().int().min(0).max(MAX_DAYS_AHEAD).optional(),
+  pickSource: z.nativeEnum(RunTemplatePickSource).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const updateRunTemplateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    locationIds: locationIdsSchema.optional(),
+    runnerId: z.string().cuid().nullable().optional(),
+    weekdays: weekdaysSchema.optional(),
+    daysAhead: z.number().int().min(0).max(MAX_DAYS_AHEAD).optional(),
+    pickSource: z.nativeEnum(RunTemplatePickSource).optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((value) => Object.values(value).some((field) => field !== undefined), {
+    message: 'At least one field must be provided',
+  });
+
+const runTemplateInclude = {
+  runner: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+  locations: {
+    orderBy: { position: 'asc' },
+    include: {
+      location: {
+        select: { id: true, name: true, address: true },
+      },
+    },
+  },
+} satisfies Prisma.RunTemplateInclude;
+
+type RunTemplateWithRelations = Prisma.RunTemplateGetPayload<{ include: typeof runTemplateInclude }>;
+
+export type GeneratedRun = {
+  id: string;
+  scheduledFor: Date;
+  pickEntryCount: number;
+};
+
+// Stored weekdays are validated on write; filter again so a hand-edited row cannot schedule nonsense.
+const readWeekdays = (value: Prisma.JsonValue): number[] =>
+  Array.isArray(value)
+    ? value.filter((day): day is number => typeof day === 'number' && Number.isInteger(day) && day >= 0 && day <= 6)
+    : [];
+
+const serializeRunTemplate = (template: RunTemplateWithRelations) => ({
+  id: template.id,
+  name: template.name,
+  runner: template.runner,
+  weekdays: readWeekdays(template.weekdays),
+  daysAhead: template.daysAhead,
+  pickSource: template.pickSource,
+  isActive: template.isActive,
+  generatedThrough: template.generatedThrough,
+  locations: template.locations.map((entry) => ({
+    locationId: entry.locationId,
+    position: entry.position,
+    name: entry.location.name,
+    address: entry.location.address,
+  })),
+  createdAt: template.createdAt,
+  updatedAt: template.updatedAt,
+});
+
+const findRunTemplate = async (companyId: string, templateId: string) => {
+  const template = await prisma.runTemplate.findUnique({
+    where: { id: templateId },
+    include: runTemplateInclude,
+  });
+  if (!template || template.companyId !== companyId) {
+    return null;
+  }
+  return template;
+};
+
+// Returns an error message when a location or the default runner does not belong to the company.
+const validateTemplateReferences = async (
+  companyId: string,
+  { locationIds, runnerId }: { locationIds?: string[] | undefined; runnerId?: string | null | undefined },
+): Promise<string | null> => {
+  if (locationIds) {
+    const matched = await prisma.location.count({
+      where: { companyId, id: { in: locationIds } },
+    });
+    if (matched !== locationIds.length) {
+      return 'One or more locations were not found in this company.';
+    }
+  }
+  if (runnerId && !(await ensureMembership(companyId, runnerId))) {
+    return 'Default runner is not a member of this company.';
+  }
+  return null;
+};
+
+export const listRunTemplates = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to view run templates' });
+  }
+
+  const templates = await prisma.runTemplate.findMany({
+    where: { companyId: req.auth.companyId },
+    include: runTemplateInclude,
+    orderBy: { name: 'asc' },
+  });
+
+  return res.json({ templates: templates.map(serializeRunTemplate) });
+};
+
+export const createRunTemplate = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to manage run templates' });
+  }
+  if (!isCompanyManager(req.auth.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions to manage run templates' });
+  }
+
+  const parsed = createRunTemplateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+
+  const companyId = req.auth.companyId;
+  const { name, locationIds, runnerId, weekdays, daysAhead, pickSource, isActive } = parsed.data;
+
+  const referenceError = await validateTemplateReferences(companyId, { locationIds, runnerId });
+  if (referenceError) {
+    return res.status(400).json({ error: referenceError });
+  }
+
+  try {
+    const template = await prisma.runTemplate.create({
+      data: {
+        companyId,
+        name,
+        runnerId: runnerId ?? null,
+        weekdays,
+        ...(daysAhead !== undefined ? { daysAhead } : {}),
+        ...(pickSource !== undefined ? { pickSource } : {}),
+        ...(isActive !== undefined ? { isActive } : {}),
+        locations: {
+          createMany: {
+            data: locationIds.map((locationId, position) => ({ locationId, position })),
+          },
+        },
+      },
+      include: runTemplateInclude,
+    });
+    return res.status(201).json(serializeRunTemplate(template));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'A run template with that name already exists.' });
+    }
+    throw error;
+  }
+};
+
+// Changes apply to runs generated from now on; runs already created from the template are left as they are.
+export const updateRunTemplate = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to manage run templates' });
+  }
+  if (!isCompanyManager(req.auth.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions to manage run templates' });
+  }
+
+  const templateId = req.params.templateId?.trim();
+  if (!templateId) {
+    return res.status(400).json({ error: 'Template ID is required' });
+  }
+
+  const parsed = updateRunTemplateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+
+  const companyId = req.auth.companyId;
+  const existing = await findRunTemplate(companyId, templateId);
+  if (!existing) {
+    return res.status(404).json({ error: 'Run template not found' });
+  }
+
+  const { name, locationIds, runnerId, weekdays, daysAhead, pickSource, isActive } = parsed.data;
+
+  const referenceError = await validateTemplateReferences(companyId, { locationIds, runnerId });
+  if (referenceError) {
+    return res.status(400).json({ error: referenceError });
+  }
+
+  try {
+    const template = await prisma.$transaction(async (tx) => {
+      if (locationIds) {
+        await tx.runTemplateLocation.deleteMany({ where: { templateId } });
+        await tx.runTemplateLocation.createMany({
+          data: locationIds.map((locationId, position) => ({ templateId, locationId, position })),
+        });
+      }
+      return tx.runTemplate.update({
+        where: { id: templateId },
+        data: {
+          ...(name !== undefined ? { name } : {}),
+          ...(runnerId !== undefined ? { runnerId } : {}),
+          ...(weekdays !== undefined ? { weekdays } : {}),
+          ...(daysAhead !== undefined ? { daysAhead } : {}),
+          ...(pickSource !== undefined ? { pickSource } : {}),
+          ...(isActive !== undefined ? { isActive } : {}),
+        },
+        include: runTemplateInclude,
+      });
+    });
+    return res.json(serializeRunTemplate(template));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'A run template with that name already exists.' });
+    }
+    throw error;
+  }
+};
+
+// Deletes a template; runs it already generated are kept.
+export const deleteRunTemplate = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to manage run templates' });
+  }
+  if (!isCompanyManager(req.auth.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions to manage run templates' });
+  }
+
+  const templateId = req.params.templateId?.trim();
+  if (!templateId) {
+    return res.status(400).json({ error: 'Template ID is required' });
+  }
+
+  const existing = await findRunTemplate(req.auth.companyId, templateId);
+  if (!existing) {
+    return res.status(404).json({ error: 'Run template not found' });
+  }
+
+  await prisma.runTemplate.delete({ where: { id: templateId } });
+  return res.status(204).send();
+};
+
+export const generateRunTemplateRuns = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to manage run templates' });
+  }
+  if (!isCompanyManager(req.auth.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions to manage run templates' });
+  }
+
+  const templateId = req.params.templateId?.trim();
+  if (!templateId) {
+    return res.status(400).json({ error: 'Template ID is required' });
+  }
+
+  const existing = await findRunTemplate(req.auth.companyId, templateId);
+  if (!existing) {
+    return res.status(404).json({ error: 'Run template not found' });
+  }
+  if (!existing.isActive) {
+    return res.status(409).json({ error: 'Run template is paused. Activate it before generating runs.' });
+  }
+
+  const runs = await generateRunsFromTemplate(templateId);
+  return res.json({ runs });
+};
+
+// Loads the coil items a PAR template picks for: one per coil at the template's locations, counted at par.
+// Planogram imports keep a coil's previous coil items when its SKU changes, so where a coil holds several the
+// one that appeared on the latest run is used.
+const loadParCoilItems = async (companyId: string, locationIds: string[]) => {
+  const coilItems = await prisma.coilItem.findMany({
+    where: {
+      par: { gt: 0 },
+      coil: { machine: { companyId, locationId: { in: locationIds } } },
+    },
+    select: {
+      id: true,
+      coilId: true,
+      par: true,
+      sku: { select: { expiryDays: true } },
+    },
+    orderBy: { id: 'asc' },
+  });
+
+  const itemsByCoil = new Map<string, typeof coilItems>();
+  coilItems.forEach((item) => {
+    itemsByCoil.set(item.coilId, [...(itemsByCoil.get(item.coilId) ?? []), item]);
+  });
+
+  const ambiguousIds = coilItems.filter((item) => itemsByCoil.get(item.coilId)!.length > 1).map((item) => item.id);
+  const latestByCoil = new Map<string, string>();
+  if (ambiguousIds.length) {
+    const recentEntries = await prisma.pickEntry.findMany({
+      where: { coilItemId: { in: ambiguousIds }, removedAt: null },
+      select: { coilItemId: true, coilItem: { select: { coilId: true } } },
+      orderBy: { run: { scheduledFor: 'desc' } },
+    });
+    recentEntries.forEach((entry) => {
+      if (!latestByCoil.has(entry.coilItem.coilId)) {
+        latestByCoil.set(entry.coilItem.coilId, entry.coilItemId);
+      }
+    });
+  }
+
+  return Array.from(itemsByCoil.entries(), ([coilId, items]) => {
+    const latestId = latestByCoil.get(coilId);
+    return items.find((item) => item.id === latestId) ?? items[0]!;
+  });
+};
+
+// Creates a run for each of the template's weekdays from today through `daysAhead` days out, in the company
+// timezone. Days up to `generatedThrough` are skipped, so a run a manager deleted is not recreated on the next
+// pass. IMPORT templates create runs with their location order only, waiting for the day's workbook to be
+// uploaded with mode=update to fill in the pick entries.
+export const generateRunsFromTemplate = async (templateId: string, reference = new Date()): Promise<GeneratedRun[]> => {
+  const template = await prisma.runTemplate.findUnique({
+    where: { id: templateId },
+    include: {
+      locations: { orderBy: { position: 'asc' } },
+      company: { select: { timeZone: true } },
+    },
+  });
+  if (!template || !template.isActive) {
+    return [];
+  }
+
+  const timeZone =
+    template.company.timeZone && isValidTimezone(template.company.timeZone) ? template.company.timeZone : 'UTC';
+  const lastDay = getTimezoneDayRange({ timeZone, dayOffset: template.daysAhead, reference }).label;
+  const previousGeneratedThrough = template.generatedThrough;
+  if (previousGeneratedThrough && previousGeneratedThrough >= lastDay) {
+    return [];
+  }
+
+  const weekdays = readWeekdays(template.weekdays);
+  const days: TimezoneDayRange[] = [];
+  for (let dayOffset = 0; dayOffset <= template.daysAhead; dayOffset += 1) {
+    const day = getTimezoneDayRange({ timeZone, dayOffset, reference });
+    if (previousGeneratedThrough && day.label <= previousGeneratedThrough) {
+      continue;
+    }
+    if (weekdays.includes(getWeekdayIndexInTimezone(day.start, timeZone))) {
+      days.push(day);
+    }
+  }
+
+  const locationIds = template.locations.map((entry) => entry.locationId);
+  const coilItems =
+    template.pickSource === RunTemplatePickSource.PAR && days.length
+      ? await loadParCoilItems(template.companyId, locationIds)
+      : [];
+  // A runner who has since left the company is not assigned to new runs.
+  const runnerId =
+    template.runnerId && (await ensureMembership(template.companyId, template.runnerId)) ? template.runnerId : null;
+
+  return prisma.$transaction(
+    async (tx) => {
+      // Claim the window first so two schedulers racing on the same template cannot both create its runs.
+      const claimed = await tx.runTemplate.updateMany({
+        where: { id: template.id, generatedThrough: previousGeneratedThrough },
+        data: { generatedThrough: lastDay },
+      });
+      if (!claimed.count) {
+        return [];
+      }
+
+      const generated: GeneratedRun[] = [];
+      for (const day of days) {
+        const scheduledFor = determineScheduledFor(new Date(`${day.label}T00:00:00.000Z`), timeZone);
+        const run = await tx.run.create({
+          data: {
+            companyId: template.companyId,
+            templateId: template.id,
+            runnerId,
+            status: AppRunStatus.CREATED as unknown as PrismaRunStatus,
+            scheduledFor,
+            ...(runnerId ? { participants: { create: { userId: runnerId, role: RunParticipantRole.RUNNER } } } : {}),
+            locationOrders: {
+              createMany: {
+                data: locationIds.map((locationId, position) => ({ locationId, position })),
+              },
+            },
+          },
+        });
+
+        await createInBatches(
+          coilItems.map((item) => ({
+            runId: run.id,
+            coilItemId: item.id,
+            count: item.par,
+            par: item.par,
+            expiryDate: computeExpiryDateLabel({ scheduledFor, timeZone, expiryDays: item.sku.expiryDays }),
+          })),
+          (data) => tx.pickEntry.createMany({ data }),
+        );
+
+        generated.push({ id: run.id, scheduledFor, pickEntryCount: coilItems.length });
+      }
+      return generated;
+    },
+    {
+      timeout: 200000,
+      maxWait: 5000,
+    },
+  );
+};
+
+export const generateRunsForActiveTemplates = async (reference = new Date()) => {
+  const templates = await prisma.runTemplate.findMany({
+    where: { isActive: true },
+    select: { id: true },
+  });
+
+  let created = 0;
+  for (const template of templates) {
+    try {
+      created += (await generateRunsFromTemplate(template.id, reference)).length;
+    } catch (error) {
+      console.error(`Failed to generate runs for run template ${template.id}`, error);
+    }
+  }
+  return created;
+};
+
+const readIntervalMinutes = (value: string | undefined, fallback: number) => {
+  const parsed = value ? Number.parseInt(value, 10) : Number.NaN;
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Generates runs from active templates on start-up and then every RUN_TEMPLATE_SCHEDULER_INTERVAL_MINUTES
+// (default 60; 0 disables the scheduler, e.g. on all but one API instance). Returns a function that stops it.
+export const startRunTemplateScheduler = (): (() => void) => {
+  const intervalMinutes = readIntervalMinutes(
+    process.env.RUN_TEMPLATE_SCHEDULER_INTERVAL_MINUTES,
+    DEFAULT_SCHEDULER_INTERVAL_MINUTES,
+  );
+  if (!intervalMinutes) {
+    return () => undefined;
+  }
+
+  let running = false;
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow pass.
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const created = await generateRunsForActiveTemplates();
+      if (created) {
+        console.log(`Generated ${created} run(s) from run templates.`);
+      }
+    } catch (error) {
+      console.error('Run template scheduler failed', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(() => void tick(), intervalMinutes * 60 * 1000);
+  timer.unref();
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,365 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+import { publishRunEvent } from '../../lib/run-event-bus.js';
+import { createStraightLineMatrixProvider } from '../../lib/route-optimizer.js';
+import type { RoutePoint } from '../../lib/route-optimizer.js';
+import { getTimezoneDayRange } from '../../lib/timezone.js';
+import { collectRunLocations, localTimeSchema, roundTo } from './run-routing.js';
+import type { RunLocation } from './run-routing.js';
+import { ensureRun } from './runs.js';
+import { resolveCompanyTimezone } from './timezone.js';
+
+const MINUTE_MS = 60 * 1000;
+// 07:00 local time.
+const DEFAULT_DEPARTURE_MINUTES = 7 * 60;
+const DEFAULT_TRAVEL_MINUTES = 15;
+// A run counts as late once its next stop is projected this far behind plan.
+const DEFAULT_LATE_THRESHOLD_MINUTES = 10;
+
+const resolveDefaultTravelMinutes = () => {
+  const configured = Number.parseInt(process.env.RUN_TIMELINE_TRAVEL_MINUTES ?? '', 10);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_TRAVEL_MINUTES;
+};
+
+const runTimelineQuerySchema = z.object({
+  // Local time the runner leaves for the first stop, in the company timezone on the run's scheduled day.
+  departureTime: localTimeSchema.optional(),
+  // Used for legs where either end has no coordinates.
+  travelMinutes: z.coerce.number().int().min(0).max(24 * 60).optional(),
+  averageSpeedKmh: z.coerce.number().positive().max(130).optional(),
+  lateThresholdMinutes: z.coerce.number().int().min(0).max(24 * 60).optional(),
+});
+
+const locationCheckpointSchema = z.object({
+  // Defaults to now; lets a runner record a visit after the fact.
+  at: z.coerce.date().optional(),
+});
+
+type RunLocationVisitRecord = {
+  arrivedAt: Date;
+  departedAt: Date | null;
+};
+
+type TimelineStopStatus = 'PENDING' | 'ON_SITE' | 'DEPARTED' | 'SKIPPED';
+
+const hasCoordinates = (location: RunLocation): location is RunLocation & RoutePoint =>
+  location.latitude != null && location.longitude != null;
+
+// Travel time for each leg into a stop: straight-line time where both ends have coordinates, otherwise the fixed
+// estimate. The first leg has no known start point and always uses the fixed estimate.
+const estimateLegMinutes = async (
+  locations: RunLocation[],
+  { travelMinutes, averageSpeedKmh }: { travelMinutes: number; averageSpeedKmh: number | undefined },
+) => {
+  const located = locations.filter(hasCoordinates);
+  const matrix = await createStraightLineMatrixProvider(averageSpeedKmh).buildMatrix(located);
+  const matrixIndex = new Map(located.map((location, index) => [location.id, index]));
+
+  return locations.map((location, index) => {
+    const previous = index > 0 ? locations[index - 1] : undefined;
+    const from = previous ? matrixIndex.get(previous.id) : undefined;
+    const to = matrixIndex.get(location.id);
+    if (from === undefined || to === undefined) {
+      return travelMinutes;
+    }
+    return matrix.durationMinutes[from]![to]!;
+  });
+};
+
+const minutesBetween = (from: number, to: number) => Math.round((to - from) / MINUTE_MS);
+
+const toIso = (value: number | null) => (value === null ? null : new Date(value).toISOString());
+
+// Plans each stop from the departure time, then replays what actually happened: recorded visits replace the plan,
+// and the stops still to come are projected on from the latest known position, never earlier than now.
+export const buildRunTimeline = async (
+  runId: string,
+  companyId: string,
+  options: {
+    departureMinutes: number;
+    travelMinutes: number;
+    averageSpeedKmh: number | undefined;
+    lateThresholdMinutes: number;
+    now?: Date;
+  },
+) => {
+  const run = await ensureRun(companyId, runId);
+  if (!run) {
+    return null;
+  }
+
+  const locations = collectRunLocations(run);
+  const visits = await prisma.runLocationVisit.findMany({
+    where: { runId: run.id },
+    select: { locationId: true, arrivedAt: true, departedAt: true },
+  });
+  const visitsByLocation = new Map<string, RunLocationVisitRecord>(visits.map((visit) => [visit.locationId, visit]));
+
+  const timeZone = await resolveCompanyTimezone(companyId);
+  const { start: dayStart } = getTimezoneDayRange({ timeZone, reference: run.scheduledFor ?? new Date() });
+  const now = (options.now ?? new Date()).getTime();
+  const legMinutes = await estimateLegMinutes(locations, options);
+  const lastVisitedIndex = locations.reduce(
+    (latest, location, index) => (visitsByLocation.has(location.id) ? index : latest),
+    -1,
+  );
+
+  const plannedDeparture = dayStart.getTime() + options.departureMinutes * MINUTE_MS;
+  let plannedClock = plannedDeparture;
+  // Where the runner is expected to leave from next, in actual or projected time.
+  let projectedClock = plannedDeparture;
+
+  const stops = locations.map((location, index) => {
+    const travelMs = legMinutes[index]! * MINUTE_MS;
+    const dwellMs = (location.dwellTimeMinutes ?? 0) * MINUTE_MS;
+    const openingAt =
+      location.openingTimeMinutes != null ? dayStart.getTime() + location.openingTimeMinutes * MINUTE_MS : null;
+    const closingAt =
+      location.closingTimeMinutes != null ? dayStart.getTime() + location.closingTimeMinutes * MINUTE_MS : null;
+
+    const plannedArrival = plannedClock + travelMs;
+    const plannedStart = Math.max(plannedArrival, openingAt ?? plannedArrival);
+    const plannedDepartureAt = plannedStart + dwellMs;
+    plannedClock = plannedDepartureAt;
+
+    const visit = visitsByLocation.get(location.id);
+    let status: TimelineStopStatus;
+    let expectedArrival: number | null;
+    let expectedDeparture: number | null;
+
+    if (visit) {
+      const arrivedAt = visit.arrivedAt.getTime();
+      status = visit.departedAt ? 'DEPARTED' : 'ON_SITE';
+      expectedArrival = arrivedAt;
+      expectedDeparture = visit.departedAt?.getTime() ?? Math.max(now, arrivedAt + dwellMs);
+      projectedClock = expectedDeparture;
+    } else if (index < lastVisitedIndex) {
+      // The runner has already been somewhere further along the run.
+      status = 'SKIPPED';
+      expectedArrival = null;
+      expectedDeparture = null;
+    } else {
+      status = 'PENDING';
+      expectedArrival = Math.max(projectedClock + travelMs, now);
+      const expectedStart = Math.max(expectedArrival, openingAt ?? expectedArrival);
+      expectedDeparture = expectedStart + dwellMs;
+      projectedClock = expectedDeparture;
+    }
+
+    const actualDwellMinutes = visit ? minutesBetween(visit.arrivedAt.getTime(), visit.departedAt?.getTime() ?? now) : null;
+    const dwellOverrunMinutes =
+      actualDwellMinutes !== null && location.dwellTimeMinutes != null
+        ? Math.max(0, actualDwellMinutes - location.dwellTimeMinutes)
+        : null;
+
+    return {
+      position: index,
+      locationId: location.id,
+      name: location.name,
+      address: location.address,
+      status,
+      openingAt: toIso(openingAt),
+      closingAt: toIso(closingAt),
+      travelMinutes: roundTo(legMinutes[index]!, 1),
+      dwellTimeMinutes: location.dwellTimeMinutes,
+      planned: {
+        arrivalAt: toIso(plannedArrival),
+        departureAt: toIso(plannedDepartureAt),
+      },
+      actual: {
+        arrivedAt: visit ? visit.arrivedAt.toISOString() : null,
+        departedAt: visit?.departedAt ? visit.departedAt.toISOString() : null,
+        dwellMinutes: actualDwellMinutes,
+      },
+      // Projected for pending stops; equal to the actual times once the runner has checked in.
+      expected: {
+        arrivalAt: toIso(expectedArrival),
+        departureAt: toIso(expectedDeparture),
+      },
+      arrivalDelayMinutes: expectedArrival === null ? null : minutesBetween(plannedArrival, expectedArrival),
+      dwellOverrunMinutes,
+      // True when the runner is or will be at the location after it closes.
+      closesBeforeDeparture: closingAt !== null && expectedDeparture !== null && expectedDeparture > closingAt,
+    };
+  });
+
+  // The stop the runner is at or heading to decides whether the run is behind; a finished run reports its last stop.
+  const currentStop =
+    stops.find((stop) => stop.status === 'ON_SITE' || stop.status === 'PENDING') ??
+    [...stops].reverse().find((stop) => stop.status === 'DEPARTED') ??
+    null;
+  const delayMinutes = currentStop?.arrivalDelayMinutes ?? 0;
+  const isComplete = stops.length > 0 && stops.every((stop) => stop.status === 'DEPARTED' || stop.status === 'SKIPPED');
+
+  return {
+    runId: run.id,
+    timeZone,
+    departureAt: toIso(plannedDeparture),
+    summary: {
+      isStarted: visits.length > 0,
+      isComplete,
+      currentLocationId: currentStop?.locationId ?? null,
+      delayMinutes,
+      isLate: delayMinutes > options.lateThresholdMinutes,
+      plannedFinishAt: toIso(stops.length ? plannedClock : null),
+      expectedFinishAt: toIso(stops.length ? projectedClock : null),
+      atRiskLocationIds: stops
+        .filter((stop) => stop.status !== 'SKIPPED' && stop.closesBeforeDeparture)
+        .map((stop) => stop.locationId),
+      dwellOverruns: stops
+        .filter((stop) => (stop.dwellOverrunMinutes ?? 0) > 0)
+        .map((stop) => ({ locationId: stop.locationId, overrunMinutes: stop.dwellOverrunMinutes })),
+    },
+    stops,
+  };
+};
+
+export const getRunTimeline = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    return res.status(403).json({ error: 'Company membership required to view runs' });
+  }
+
+  const runId = req.params.runId?.trim();
+  if (!runId) {
+    return res.status(400).json({ error: 'Run ID is required' });
+  }
+
+  const parsed = runTimelineQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters', details: parsed.error.flatten() });
+  }
+
+  const timeline = await buildRunTimeline(runId, req.auth.companyId, {
+    departureMinutes: parsed.data.departureTime ?? DEFAULT_DEPARTURE_MINUTES,
+    travelMinutes: parsed.data.travelMinutes ?? resolveDefaultTravelMinutes(),
+    averageSpeedKmh: parsed.data.averageSpeedKmh,
+    lateThresholdMinutes: parsed.data.lateThresholdMinutes ?? DEFAULT_LATE_THRESHOLD_MINUTES,
+  });
+  if (!timeline) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+
+  return res.json(timeline);
+};
+
+const serializeVisit = (visit: {
+  id: string;
+  runId: string;
+  locationId: string;
+  userId: string | null;
+  departedById: string | null;
+  arrivedAt: Date;
+  departedAt: Date | null;
+}) => ({
+  id: visit.id,
+  runId: visit.runId,
+  locationId: visit.locationId,
+  userId: visit.userId,
+  departedById: visit.departedById,
+  arrivedAt: visit.arrivedAt,
+  departedAt: visit.departedAt,
+});
+
+// Resolves the run and checks the location is one of its stops.
+const resolveRunLocation = async (req: Request, res: Response) => {
+  if (!req.auth?.companyId) {
+    res.status(403).json({ error: 'Company membership required to update runs' });
+    return null;
+  }
+
+  const runId = req.params.runId?.trim() || '';
+  const locationId = req.params.locationId?.trim() || '';
+  const parsed = locationCheckpointSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+    return null;
+  }
+
+  const run = await ensureRun(req.auth.companyId, runId);
+  if (!run) {
+    res.status(404).json({ error: 'Run not found' });
+    return null;
+  }
+  if (!collectRunLocations(run).some((location) => location.id === locationId)) {
+    res.status(404).json({ error: 'Location is not part of this run' });
+    return null;
+  }
+
+  return { runId: run.id, locationId, userId: req.auth.userId, at: parsed.data.at ?? new Date() };
+};
+
+export const checkInRunLocation = async (req: Request, res: Response) => {
+  const target = await resolveRunLocation(req, res);
+  if (!target) {
+    return;
+  }
+
+  const existing = await prisma.runLocationVisit.findUnique({
+    where: { runId_locationId: { runId: target.runId, locationId: target.locationId } },
+  });
+  if (existing) {
+    return res.status(409).json({ error: 'Already checked in at this location', visit: serializeVisit(existing) });
+  }
+
+  let visit;
+  try {
+    visit = await prisma.runLocationVisit.create({
+      data: {
+        runId: target.runId,
+        locationId: target.locationId,
+        userId: target.userId,
+        arrivedAt: target.at,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'Already checked in at this location' });
+    }
+    throw error;
+  }
+
+  publishRunEvent(target.runId, 'location.checked-in', {
+    locationId: visit.locationId,
+    arrivedAt: visit.arrivedAt,
+    userId: visit.userId,
+  });
+
+  return res.status(201).json(serializeVisit(visit));
+};
+
+export const checkOutRunLocation = async (req: Request, res: Response) => {
+  const target = await resolveRunLocation(req, res);
+  if (!target) {
+    return;
+  }
+
+  const existing = await prisma.runLocationVisit.findUnique({
+    where: { runId_locationId: { runId: target.runId, locationId: target.locationId } },
+  });
+  if (!existing) {
+    return res.status(409).json({ error: 'Check in at this location before checking out' });
+  }
+  if (existing.departedAt) {
+    return res.status(409).json({ error: 'Already checked out of this location', visit: serializeVisit(existing) });
+  }
+  if (target.at < existing.arrivedAt) {
+    return res.status(400).json({ error: 'Departure cannot be before arrival' });
+  }
+
+  const visit = await prisma.runLocationVisit.update({
+    where: { id: existing.id },
+    data: { departedAt: target.at, departedById: target.userId },
+  });
+
+  publishRunEvent(target.runId, 'location.checked-out', {
+    locationId: visit.locationId,
+    arrivedAt: visit.arrivedAt,
+    departedAt: visit.departedAt,
+    userId: visit.userId,
+    departedById: visit.departedById,
+  });
+
+  return res.json(serializeVisit(visit));
+};
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { RunParticipantRole } from '@prisma/client';
 import { RunStatus, UserRole } from '../../types/enums.js';
 import { prisma } from '../../lib/prisma.js';
 
@@ -32,8 +33,9 @@ export const updateChocolateBoxSchema = z.object({
 });
 
 export const runAssignmentSchema = z.object({
+  // Defaults to the signed-in user on the participants endpoint.
   userId: z.string().cuid().optional(),
-  role: z.enum(['RUNNER']),
+  role: z.nativeEnum(RunParticipantRole),
 });
 
 export const ensureMembership = async (companyId: string, userId: string | undefined | null) => {
@@ -59,6 +61,14 @@ export const ensureRun = async (companyId: string, runId: string) => {
     where: { id: runId },
     include: {
       runner: true,
+      participants: {
+        include: {
+          user: {
+            select: { id: true, firstName: true, lastName: true },
+          },
+        },
+        orderBy: [{ role: 'asc' }, { createdAt: 'asc' }],
+      },
       pickEntries: {
         include: {
           expiryOverrides: true,
@@ -135,3 +145,48 @@ export const ensureMachine = async (companyId: string, machineId: string) => {
   }
   return machine;
 };
+
+export type PickEntryCountSource = {
+  count: number;
+  override: number | null;
+  current: number | null;
+  par: number | null;
+  need: number | null;
+  forecast: number | null;
+  total: number | null;
+  coilItem: {
+    sku: {
+      countNeededPointer: string | null;
+    } | null;
+  };
+};
+
+const hasOverrideValue = (value: number | null | undefined): value is number =>
+  value !== null && value !== undefined;
+
+export const resolvePointerCount = (entry: PickEntryCountSource, fallbackCount?: number): number => {
+  const pointer = (entry.coilItem.sku?.countNeededPointer || 'total').toLowerCase();
+  const safeFallback = fallbackCount ?? entry.count;
+
+  switch (pointer) {
+    case 'current':
+      return entry.current ?? safeFallback;
+    case 'par':
+      return entry.par ?? safeFallback;
+    case 'need':
+      return entry.need ?? safeFallback;
+    case 'forecast':
+      return entry.forecast ?? safeFallback;
+    case 'total':
+    default:
+      return entry.total ?? safeFallback;
+  }
+};
+
+export const resolvePickEntryCount = (entry: PickEntryCountSource): number => {
+  if (hasOverrideValue(entry.override)) {
+    return entry.override;
+  }
+
+  return resolvePointerCount(entry);
+};
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import type { SkuBarcode } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+
+const GTIN_LENGTH = 14;
+
+// Scanners report the same product as UPC-A (12 digits), EAN-13 or GTIN-14 depending on the symbology, so numeric
+// GTINs are padded to 14 digits. Anything else is kept as printed, without whitespace.
+export const normalizeBarcode = (value: string) => {
+  const compact = value.replace(/\s+/g, '');
+  return /^\d{8,14}$/.test(compact) ? compact.padStart(GTIN_LENGTH, '0') : compact;
+};
+
+export const barcodeSchema = z
+  .string()
+  .trim()
+  .min(1, 'A barcode is required.')
+  .max(64)
+  .transform(normalizeBarcode);
+
+export const addSkuBarcodeSchema = z.object({
+  code: barcodeSchema,
+});
+
+// SKUs the company can see that carry the barcode. Shared SKUs (no company) are included; the caller narrows them
+// to the ones it is working with.
+export const findSkusByBarcode = async (companyId: string, code: string) => {
+  const barcodes = await prisma.skuBarcode.findMany({
+    where: {
+      code,
+      sku: { OR: [{ companyId }, { companyId: null }] },
+    },
+    select: { sku: { select: { id: true, code: true, name: true, type: true } } },
+  });
+  return barcodes.map((barcode) => barcode.sku);
+};
+
+export const serializeSkuBarcode = (barcode: SkuBarcode) => ({
+  id: barcode.id,
+  skuId: barcode.skuId,
+  code: barcode.code,
+  createdAt: barcode.createdAt,
+});
@@ -0,0 +1,102 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma.js';
+import type { ParsedSkuCategoryMapping, RunImportIssue } from '../../types/run-import.js';
+
+type StoredSkuCategory = {
+  skuCode: string;
+  category: string;
+};
+
+// Keyed by lower-cased SKU code, the form the import parsers look codes up by.
+export type SkuCategoryLookup = Map<string, StoredSkuCategory>;
+
+export const loadSkuCategoryLookup = async (companyId: string): Promise<SkuCategoryLookup> => {
+  const mappings = await prisma.skuCategoryMapping.findMany({
+    where: { companyId },
+    select: { skuCode: true, category: true },
+  });
+  return new Map(mappings.map((mapping) => [mapping.skuCode.toLowerCase(), mapping]));
+};
+
+export const toParserSkuCategories = (lookup: SkuCategoryLookup): Map<string, string> =>
+  new Map(Array.from(lookup.entries(), ([code, mapping]) => [code, mapping.category]));
+
+// Stored mappings win over the workbook, so a differing category sheet row is surfaced rather than applied.
+export const findSkuCategoryConflicts = (
+  lookup: SkuCategoryLookup,
+  workbookMappings: ParsedSkuCategoryMapping[],
+): RunImportIssue[] =>
+  workbookMappings.flatMap((mapping) => {
+    const stored = lookup.get(mapping.skuCode.toLowerCase());
+    if (!stored || stored.category.toLowerCase() === mapping.category.toLowerCase()) {
+      return [];
+    }
+    return [
+      {
+        severity: 'warning' as const,
+        sheetName: mapping.sheetName,
+        row: mapping.row,
+        column: null,
+        message: `SKU ${mapping.skuCode} is listed as "${mapping.category}" but is mapped to "${stored.category}"; the stored mapping was used.`,
+      },
+    ];
+  });
+
+// Adds workbook mappings for SKU codes the company has not mapped yet. Returns how many were added.
+export const mergeSkuCategoryMappings = async (
+  companyId: string,
+  lookup: SkuCategoryLookup,
+  workbookMappings: ParsedSkuCategoryMapping[],
+): Promise<number> => {
+  const data: Prisma.SkuCategoryMappingCreateManyInput[] = workbookMappings
+    .filter((mapping) => !lookup.has(mapping.skuCode.toLowerCase()))
+    .map((mapping) => ({
+      companyId,
+      skuCode: mapping.skuCode,
+      category: mapping.category,
+    }));
+
+  if (!data.length) {
+    return 0;
+  }
+
+  const result = await prisma.skuCategoryMapping.createMany({ data, skipDuplicates: true });
+  return result.count;
+};
+
+// Builds a pick entry filter on the effective SKU category: the company mapping when one exists, otherwise the
+// category stored on the SKU. A null in `categories` selects entries without any category.
+export const buildSkuCategoryFilter = async (
+  companyId: string,
+  categories: Array<string | null>,
+): Promise<Prisma.PickEntryWhereInput | null> => {
+  const categoryValues = categories.filter((value): value is string => Boolean(value));
+  const includeUncategorized = categories.includes(null);
+  if (!categoryValues.length && !includeUncategorized) {
+    return null;
+  }
+
+  const mappings = await prisma.skuCategoryMapping.findMany({
+    where: { companyId },
+    select: { skuCode: true, category: true },
+  });
+  const wanted = new Set(categoryValues.map((value) => value.toLowerCase()));
+  const mappedCodes = mappings.map((mapping) => mapping.skuCode);
+  const matchingCodes = mappings
+    .filter((mapping) => wanted.has(mapping.category.toLowerCase()))
+    .map((mapping) => mapping.skuCode);
+  const unmapped: Prisma.SKUWhereInput = mappedCodes.length ? { code: { notIn: mappedCodes } } : {};
+
+  const filters: Prisma.PickEntryWhereInput[] = [];
+  if (matchingCodes.length) {
+    filters.push({ coilItem: { sku: { code: { in: matchingCodes } } } });
+  }
+  if (categoryValues.length) {
+    filters.push({ coilItem: { sku: { ...unmapped, category: { in: categoryValues } } } });
+  }
+  if (includeUncategorized) {
+    filters.push({ coilItem: { sku: { ...unmapped, category: null } } });
+  }
+
+  return { OR: filters };
+};
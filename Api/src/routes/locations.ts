@@ -29,6 +29,8 @@ const updateLocationTimingSchema = z
     openingTimeMinutes: z.number().int().min(0).max(1439).nullable().optional(),
     closingTimeMinutes: z.number().int().min(0).max(1439).nullable().optional(),
     dwellTimeMinutes: z.number().int().min(0).max(24 * 60).nullable().optional(),
+    latitude: z.number().min(-90).max(90).nullable().optional(),
+    longitude: z.number().min(-180).max(180).nullable().optional(),
   })
   .refine(
     (value) =>
@@ -39,7 +41,11 @@ const updateLocationTimingSchema = z
       message: 'Closing time must be after opening time.',
       path: ['closingTimeMinutes'],
     },
-  );
+  )
+  .refine((value) => (value.latitude === undefined) === (value.longitude === undefined), {
+    message: 'Latitude and longitude must be updated together.',
+    path: ['longitude'],
+  });
 
 router.get('/:locationId', setLogConfig({ level: 'minimal' }), async (req, res) => {
   if (!req.auth) {
@@ -102,7 +108,7 @@ router.patch('/:locationId', setLogConfig({ level: 'minimal' }), async (req, res
     return res.status(400).json({ error: firstIssue?.message ?? 'Invalid payload' });
   }
 
-  const { openingTimeMinutes, closingTimeMinutes, dwellTimeMinutes } = parsed.data;
+  const { openingTimeMinutes, closingTimeMinutes, dwellTimeMinutes, latitude, longitude } = parsed.data;
   const updateData: Prisma.LocationUpdateInput = {};
 
   if (openingTimeMinutes !== undefined) {
@@ -114,6 +120,10 @@ router.patch('/:locationId', setLogConfig({ level: 'minimal' }), async (req, res
   if (dwellTimeMinutes !== undefined) {
     updateData.dwellTimeMinutes = dwellTimeMinutes;
   }
+  if (latitude !== undefined && longitude !== undefined) {
+    updateData.latitude = latitude;
+    updateData.longitude = longitude;
+  }
 
   const updatedLocation =
     Object.keys(updateData).length > 0
@@ -271,6 +281,8 @@ type LocationWithTiming = {
   openingTimeMinutes: number | null;
   closingTimeMinutes: number | null;
   dwellTimeMinutes: number | null;
+  latitude: number | null;
+  longitude: number | null;
 };
 
 function serializeLocationResponse(location: LocationWithTiming, machines: MachineWithType[]) {
@@ -281,6 +293,8 @@ function serializeLocationResponse(location: LocationWithTiming, machines: Machi
     openingTimeMinutes: location.openingTimeMinutes,
     closingTimeMinutes: location.closingTimeMinutes,
     dwellTimeMinutes: location.dwellTimeMinutes,
+    latitude: location.latitude,
+    longitude: location.longitude,
     machines: machines.map(machine => ({
       id: machine.id,
       code: machine.code,
@@ -1,13 +1,29 @@
 import { Router } from 'express';
 import { authenticate } from '../middleware/authenticate.js';
 import { setLogConfig } from '../middleware/logging.js';
+import { requireCompanyContext } from '../middleware/requireCompany.js';
 import { runImportUpload, uploadRunWorkbook } from './helpers/run-imports.js';
+import { getRunImportJob } from './helpers/run-import-jobs.js';
+import { downloadRunImportWorkbook, getRunImport, listRunImports } from './helpers/run-import-history.js';
+import {
+  createRunImportTemplate,
+  deleteRunImportTemplate,
+  listRunImportTemplates,
+  updateRunImportTemplate,
+} from './helpers/run-import-templates.js';
 
 const router = Router();
 
 router.use(authenticate);
 
-// Imports a run workbook and persists machines, coils, and pick entries.
+// Queues a run workbook import and responds 202 with a job to poll; machines, coils, and pick entries are
+// persisted in the background.
+// Pass dryRun=true (query or form field) to preview the import without writing anything.
+// Pass mode=update (or a runId) to reconcile the workbook into the run already scheduled for that day.
+// Pass mode=planogram to sync machines, coils, and par levels only, without creating a run.
+// CSV files, or XLSX files sent with format=flat, are read as one table with a row per coil item.
+// Pass templateId to parse with a company import template instead of the company default layout, or templateId=builtin
+// for the built-in layout.
 router.post('/runs', setLogConfig({ level: 'minimal' }), (req, res, next) => {
   // Check if user has company before proceeding
   if (!req.auth?.companyId) {
@@ -16,4 +32,28 @@ router.post('/runs', setLogConfig({ level: 'minimal' }), (req, res, next) => {
   next();
 }, runImportUpload.single('file'), uploadRunWorkbook);
 
+// Reports an import job's phase, progress, warnings, and resulting run IDs.
+router.get('/jobs/:jobId', setLogConfig({ level: 'minimal' }), requireCompanyContext(), getRunImportJob);
+
+// Lists previous workbook uploads for the current company, newest first.
+router.get('/history', setLogConfig({ level: 'minimal' }), requireCompanyContext(), listRunImports);
+
+// Returns a single upload including its parse issues.
+router.get('/history/:importId', setLogConfig({ level: 'minimal' }), requireCompanyContext(), getRunImport);
+
+// Streams the stored source workbook for an upload.
+router.get('/history/:importId/file', setLogConfig({ level: 'minimal' }), requireCompanyContext(), downloadRunImportWorkbook);
+
+// Lists the company's import templates alongside the built-in layout.
+router.get('/templates', setLogConfig({ level: 'minimal' }), requireCompanyContext(), listRunImportTemplates);
+
+// Creates an import template describing a different export layout.
+router.post('/templates', setLogConfig({ level: 'minimal' }), requireCompanyContext(), createRunImportTemplate);
+
+// Updates a template's name, layout, or default flag.
+router.patch('/templates/:templateId', setLogConfig({ level: 'minimal' }), requireCompanyContext(), updateRunImportTemplate);
+
+// Deletes a template; uploads fall back to the built-in layout when no default remains.
+router.delete('/templates/:templateId', setLogConfig({ level: 'minimal' }), requireCompanyContext(), deleteRunImportTemplate);
+
 export const runImportsRouter = router;
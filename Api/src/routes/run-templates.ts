@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/authenticate.js';
+import { setLogConfig } from '../middleware/logging.js';
+import { requireCompanyContext } from '../middleware/requireCompany.js';
+import {
+  createRunTemplate,
+  deleteRunTemplate,
+  generateRunTemplateRuns,
+  listRunTemplates,
+  updateRunTemplate,
+} from './helpers/run-templates.js';
+
+const router = Router();
+
+router.use(authenticate);
+
+// Lists the company's recurring run templates with their locations in visiting order.
+router.get('/', setLogConfig({ level: 'minimal' }), requireCompanyContext(), listRunTemplates);
+
+// Creates a run template from a location list, default runner, weekdays, and pick source.
+router.post('/', setLogConfig({ level: 'minimal' }), requireCompanyContext(), createRunTemplate);
+
+// Updates a template; runs it already generated keep their settings.
+router.patch('/:templateId', setLogConfig({ level: 'minimal' }), requireCompanyContext(), updateRunTemplate);
+
+// Deletes a template without touching the runs it generated.
+router.delete('/:templateId', setLogConfig({ level: 'minimal' }), requireCompanyContext(), deleteRunTemplate);
+
+// Generates the template's upcoming runs now instead of waiting for the scheduler.
+router.post('/:templateId/generate', setLogConfig({ level: 'minimal' }), requireCompanyContext(), generateRunTemplateRuns);
+
+export const runTemplatesRouter = router;
@@ -1,15 +1,18 @@
 import { Router } from 'express';
+import type { Request, Response } from 'express';
 import { z } from 'zod';
-import { Prisma, PackingSessionStatus as PrismaPackingSessionStatus } from '@prisma/client';
-import type { RunStatus as PrismaRunStatus } from '@prisma/client';
+import { Prisma, PackingSessionStatus as PrismaPackingSessionStatus, RunActivityType } from '@prisma/client';
+import type { PickShortageReason, RunParticipantRole, RunStatus as PrismaRunStatus } from '@prisma/client';
 import { RunStatus as AppRunStatus, isRunStatus, AuthContext, UserRole } from '../types/enums.js';
 import type { RunStatus as RunStatusValue } from '../types/enums.js';
 import { prisma } from '../lib/prisma.js';
-import { getTimezoneDayRange, isValidTimezone } from '../lib/timezone.js';
+import { publishRunEvent, runEventBus } from '../lib/run-event-bus.js';
+import { formatDateInTimezone, getTimezoneDayRange, isValidTimezone } from '../lib/timezone.js';
 import { authenticate } from '../middleware/authenticate.js';
 import { requireCompanyContext } from '../middleware/requireCompany.js';
 import { setLogConfig } from '../middleware/logging.js';
 import { isCompanyManager } from './helpers/authorization.js';
+import { buildSkuCategoryFilter } from './helpers/sku-category-mappings.js';
 import {
   createRunSchema,
   updateRunSchema,
@@ -22,36 +25,60 @@ import {
   ensureRun,
   ensureCoilItem,
   ensureMachine,
+  resolvePickEntryCount,
+  resolvePointerCount,
 } from './helpers/runs.js';
+import type { PickEntryCountSource } from './helpers/runs.js';
 import { addNeededForRunDayExpiry, buildExpiringItemsForRun } from './helpers/expiring-items.js';
+import { buildRunPickSheet, renderRunPickSheetPdf, renderRunPickSheetXlsx } from './helpers/run-exports.js';
+import type { RunExportFormat } from './helpers/run-exports.js';
+import {
+  RUN_STATUS_TRANSITIONS,
+  RunStatusTransitionError,
+  listRunStatusHistory,
+  transitionRunStatus,
+  updateRunCompletionStatus,
+} from './helpers/run-status.js';
+import { listRunActivity, recordRunActivity, snapshotPickEntry } from './helpers/run-activity.js';
+import {
+  RunParticipantError,
+  addRunParticipant,
+  assignRunParticipant,
+  deleteRunParticipant,
+  getUserRunRoles,
+  listRunParticipants,
+  loadRunParticipantsByRun,
+  removeRunParticipants,
+  runParticipantInclude,
+  serializeRunParticipant,
+} from './helpers/run-participants.js';
+import type { RunParticipantPayload } from './helpers/run-participants.js';
+import { UNASSIGNED_LOCATION_KEY, buildPackingSessionAudioCommands } from './helpers/audio-commands.js';
+import {
+  PackingClaimError,
+  addPackingClaims,
+  claimPackingMachines,
+  listPackingClaims,
+  refreshPackingClaims,
+  refreshSessionClaims,
+  releasePackingClaim,
+} from './helpers/packing-claims.js';
+import { handOffPackingSession, serializePackingSession, updatePackingSessionCursor } from './helpers/packing-handoff.js';
+import { proposePackingPackages } from './helpers/packing-packages.js';
+import { PickScanError, resolveScannedPick, scanPickSchema } from './helpers/pick-scans.js';
+import { optimizeRunLocationOrder } from './helpers/run-routing.js';
+import { checkInRunLocation, checkOutRunLocation, getRunTimeline } from './helpers/run-timeline.js';
+import { RunRestructureError, mergeRuns, mergeRunsSchema, splitRun, splitRunSchema } from './helpers/run-restructure.js';
+import { PickQuantityError, pickQuantitiesSchema, pickQuantitySchema, recordPickQuantities } from './helpers/pick-shortages.js';
+import type { PickQuantityInput } from './helpers/pick-shortages.js';
 import { parseTimezoneQueryParam, resolveCompanyTimezone } from './helpers/timezone.js';
 import { computeExpiryDateLabel } from './helpers/app-dates.js';
 
-interface AudioCommand {
-  id: string;
-  audioCommand: string;
-  pickEntryIds: string[];
-  type: 'location' | 'machine' | 'item';
-  locationId?: string | null;
-  locationName?: string;
-  locationAddress?: string | null;
-  machineName?: string;
-  machineId?: string | null;
-  machineCode?: string | null;
-  machineDescription?: string | null;
-  machineTypeName?: string | null;
-  skuName?: string;
-  skuCode?: string;
-  count: number;
-  coilCode?: string;
-  coilCodes?: string[]; // Array of all coil codes for UI display
-  order: number;
-}
-
 const router = Router();
 
-const UNASSIGNED_LOCATION_KEY = '__unassigned__';
 const CLIENT_UNASSIGNED_LOCATION_KEY = '_unassigned';
+// Comment lines keep idle event streams open through proxies that drop silent connections.
+const RUN_EVENTS_HEARTBEAT_MS = 25000;
 
 const updateLocationOrderSchema = z.object({
   locations: z
@@ -66,6 +93,15 @@ const updateLocationOrderSchema = z.object({
 
 const startPackingSessionSchema = z.object({
   categories: z.array(z.string().trim().min(1).nullable()).optional(),
+  // Claiming machines or locations limits the session to them, so several packers can work the run side by side.
+  machineIds: z.array(z.string().trim().min(1)).max(200).optional(),
+  locationIds: z.array(z.string().trim().min(1)).max(100).optional(),
+  steal: z.boolean().optional(),
+  // A work package from POST /:runId/packing-packages.
+  pickEntryIds: z.array(z.string().trim().min(1)).max(2000).optional(),
+}).refine((value) => !(value.pickEntryIds?.length && (value.machineIds?.length || value.locationIds?.length)), {
+  message: 'Start a session from either a work package or machine claims, not both.',
+  path: ['pickEntryIds'],
 });
 
 const updatePickOverrideSchema = z.object({
@@ -99,6 +135,20 @@ const createRunPickEntrySchema = z.object({
   count: z.number().int().min(0),
 });
 
+const updateRunStatusSchema = z.object({
+  status: z.nativeEnum(AppRunStatus),
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+const exportRunQuerySchema = z.object({
+  format: z.enum(['xlsx', 'pdf']).default('xlsx'),
+});
+
+const RUN_EXPORT_CONTENT_TYPES: Record<RunExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
 const runsQuerySchema = z.object({
   status: z.string().trim().optional(),
   startDayOffset: z.coerce.number().int().optional(),
@@ -108,45 +158,79 @@ const runsQuerySchema = z.object({
   offset: z.coerce.number().int().optional(),
 });
 
-async function updateRunCompletionStatus(runId: string) {
-  const [run, unpickedCount, totalCount] = await prisma.$transaction([
-    prisma.run.findUnique({
-      where: { id: runId },
-      select: { status: true, pickingEndedAt: true },
-    }),
-    prisma.pickEntry.count({
-      where: {
-        runId,
-        isPicked: false,
-      },
-    }),
-    prisma.pickEntry.count({
-      where: { runId },
-    }),
-  ]);
-
-  if (!run || totalCount === 0 || unpickedCount > 0) {
-    return;
+// The first picks move a new run into PICKING, which also sets pickingStartedAt.
+async function markRunPickingStarted(
+  run: { id: string; status: string; pickingStartedAt: Date | null },
+  userId: string | null,
+  pickedAt: Date,
+) {
+  if (run.status === AppRunStatus.CREATED) {
+    try {
+      const change = await prisma.$transaction((tx) =>
+        transitionRunStatus(tx, {
+          runId: run.id,
+          to: AppRunStatus.PICKING,
+          actorId: userId,
+          reason: 'Pick entries were marked as picked',
+        }),
+      );
+      publishRunEvent(run.id, 'run.status', { ...change, actorId: userId });
+    } catch (error) {
+      // A concurrent request already moved the run on; its status change stands.
+      if (!(error instanceof RunStatusTransitionError)) {
+        throw error;
+      }
+    }
+  } else if (!run.pickingStartedAt) {
+    await prisma.run.update({
+      where: { id: run.id },
+      data: { pickingStartedAt: pickedAt },
+    });
   }
+}
 
-  const updateData: Prisma.RunUpdateInput = {};
-
-  if (run.status === AppRunStatus.CREATED || run.status === AppRunStatus.PICKING) {
-    updateData.status = AppRunStatus.READY as PrismaRunStatus;
+async function respondWithPickQuantities(
+  companyId: string,
+  runId: string,
+  picks: PickQuantityInput[],
+  req: Request,
+  res: Response,
+) {
+  const run = await ensureRun(companyId, runId);
+  if (!run) {
+    return res.status(404).json({ error: 'Run not found' });
   }
 
-  if (!run.pickingEndedAt) {
-    updateData.pickingEndedAt = new Date();
-  }
+  const userId = req.auth?.userId ?? null;
+  try {
+    const updated = await prisma.$transaction((tx) =>
+      recordPickQuantities(tx, { runId: run.id, entries: run.pickEntries, picks, userId }),
+    );
+
+    publishRunEvent(run.id, 'pick.status', {
+      pickEntryIds: updated.map((entry) => entry.id),
+      isPicked: true,
+      userId,
+      shortages: updated
+        .filter((entry) => entry.shortageCount !== null)
+        .map((entry) => ({
+          pickEntryId: entry.id,
+          pickedCount: entry.pickedCount,
+          shortageCount: entry.shortageCount,
+          shortageReason: entry.shortageReason,
+        })),
+    });
 
-  if (Object.keys(updateData).length === 0) {
-    return;
-  }
+    await markRunPickingStarted(run, userId, new Date());
+    await updateRunCompletionStatus(run.id);
 
-  await prisma.run.update({
-    where: { id: runId },
-    data: updateData,
-  });
+    return res.json({ updatedCount: updated.length, pickEntries: updated });
+  } catch (error) {
+    if (error instanceof PickQuantityError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    throw error;
+  }
 }
 
 router.use(authenticate, requireCompanyContext());
@@ -280,8 +364,15 @@ router.post('/:runId/packing-sessions', setLogConfig({ level: 'minimal' }), asyn
         }, [])
       : null;
 
-  const includeUncategorized = normalizedCategories?.includes(null) ?? false;
-  const categoryValues = normalizedCategories?.filter((value): value is string => Boolean(value)) ?? [];
+  const categoryFilter = normalizedCategories
+    ? await buildSkuCategoryFilter(run.companyId, normalizedCategories)
+    : null;
+  const packagePickEntryIds =
+    canBreakDownRun && parsedBody.data.pickEntryIds?.length ? parsedBody.data.pickEntryIds : null;
+
+  const claimTargets =
+    parsedBody.data.machineIds?.length || parsedBody.data.locationIds?.length ? parsedBody.data : null;
+  const actorRole = req.auth.role;
 
   try {
     const result = await prisma.$transaction(async (tx) => {
@@ -292,9 +383,20 @@ router.post('/:runId/packing-sessions', setLogConfig({ level: 'minimal' }), asyn
         },
       });
 
+      if (claimTargets) {
+        const claimResult = await claimPackingMachines(tx, {
+          runId: run.id,
+          session,
+          targets: claimTargets,
+          actorRole,
+        });
+        return { session, assignmentResult: { count: claimResult.assignedPickEntries }, claimResult };
+      }
+
       const baseWhere: Prisma.PickEntryWhereInput = {
         runId: run.id,
         isPicked: false,
+        removedAt: null,
         OR: [
           { packingSessionId: null },
           {
@@ -307,37 +409,18 @@ router.post('/:runId/packing-sessions', setLogConfig({ level: 'minimal' }), asyn
         ],
       };
 
-      const categoryFilters: Prisma.PickEntryWhereInput[] = [];
-      if (categoryValues.length > 0) {
-        categoryFilters.push({
-          coilItem: {
-            sku: {
-              category: {
-                in: categoryValues,
-              },
-            },
-          },
-        });
-      }
-
-      if (includeUncategorized) {
-        categoryFilters.push({
-          coilItem: {
-            sku: {
-              category: null,
-            },
-          },
-        });
+      if (packagePickEntryIds) {
+        baseWhere.id = { in: packagePickEntryIds };
       }
 
-      if (categoryFilters.length > 0) {
+      if (categoryFilter) {
         const existingAnd = baseWhere.AND;
         const normalizedAnd: Prisma.PickEntryWhereInput[] = Array.isArray(existingAnd)
           ? [...existingAnd]
           : existingAnd
           ? [existingAnd]
           : [];
-        normalizedAnd.push({ OR: categoryFilters });
+        normalizedAnd.push(categoryFilter);
         baseWhere.AND = normalizedAnd;
       }
 
@@ -348,9 +431,24 @@ router.post('/:runId/packing-sessions', setLogConfig({ level: 'minimal' }), asyn
         },
       });
 
-      return { session, assignmentResult };
+      return { session, assignmentResult, claimResult: null };
     });
 
+    publishRunEvent(run.id, 'packing-session.started', {
+      packingSessionId: result.session.id,
+      userId: result.session.userId,
+      assignedPickEntries: result.assignmentResult.count,
+    });
+    if (result.claimResult) {
+      publishRunEvent(run.id, 'packing-claims.changed', {
+        action: 'claimed',
+        packingSessionId: result.session.id,
+        userId: result.session.userId,
+        machineIds: result.claimResult.claims.map((claim) => claim.machineId),
+        stolen: result.claimResult.stolen,
+      });
+    }
+
     return res.status(201).json({
       id: result.session.id,
       runId: result.session.runId,
@@ -359,8 +457,15 @@ router.post('/:runId/packing-sessions', setLogConfig({ level: 'minimal' }), asyn
       finishedAt: result.session.finishedAt,
       status: result.session.status,
       assignedPickEntries: result.assignmentResult.count,
+      claims: result.claimResult?.claims ?? [],
     });
   } catch (error) {
+    if (error instanceof PackingClaimError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'Some machines are already claimed' });
+    }
     return res.status(500).json({ error: 'Failed to start packing session' });
   }
 });
@@ -401,14 +506,7 @@ router.get('/:runId/packing-sessions/active', setLogConfig({ level: 'minimal' })
     return res.status(404).json({ error: 'No active packing session found' });
   }
 
-  return res.json({
-    id: session.id,
-    runId: session.runId,
-    userId: session.userId,
-    startedAt: session.startedAt,
-    finishedAt: session.finishedAt,
-    status: session.status,
-  });
+  return res.json(serializePackingSession(session));
 });
 
 router.post('/:runId/packing-sessions/:packingSessionId/abandon', setLogConfig({ level: 'minimal' }), async (req, res) => {
@@ -443,6 +541,11 @@ router.post('/:runId/packing-sessions/:packingSessionId/abandon', setLogConfig({
     return res.status(404).json({ error: 'Packing session not found for this run' });
   }
 
+  // Its remaining work now belongs to another session; clearing it here would drop the original packer's picks.
+  if (packingSession.status === PrismaPackingSessionStatus.HANDED_OFF) {
+    return res.status(409).json({ error: 'Packing session has been handed off' });
+  }
+
   try {
     const result = await prisma.$transaction(async (tx) => {
       const abandonedSession = await tx.packingSession.update({
@@ -462,9 +565,19 @@ router.post('/:runId/packing-sessions/:packingSessionId/abandon', setLogConfig({
         },
       });
 
+      await tx.packingClaim.deleteMany({
+        where: { packingSessionId },
+      });
+
       return { abandonedSession, clearedPickEntries };
     });
 
+    publishRunEvent(run.id, 'packing-session.abandoned', {
+      packingSessionId: result.abandonedSession.id,
+      userId: result.abandonedSession.userId,
+      clearedPickEntries: result.clearedPickEntries.count,
+    });
+
     return res.json({
       id: result.abandonedSession.id,
       status: result.abandonedSession.status,
@@ -508,6 +621,11 @@ router.post('/:runId/packing-sessions/:packingSessionId/finish', setLogConfig({
     return res.status(404).json({ error: 'Packing session not found for this run' });
   }
 
+  // Its remaining work now belongs to another session; clearing it here would drop the original packer's picks.
+  if (packingSession.status === PrismaPackingSessionStatus.HANDED_OFF) {
+    return res.status(409).json({ error: 'Packing session has been handed off' });
+  }
+
   try {
     const result = await prisma.$transaction(async (tx) => {
       const finishedSession = await tx.packingSession.update({
@@ -527,9 +645,19 @@ router.post('/:runId/packing-sessions/:packingSessionId/finish', setLogConfig({
         },
       });
 
+      await tx.packingClaim.deleteMany({
+        where: { packingSessionId },
+      });
+
       return { finishedSession, clearedPickEntries };
     });
 
+    publishRunEvent(run.id, 'packing-session.finished', {
+      packingSessionId: result.finishedSession.id,
+      userId: result.finishedSession.userId,
+      clearedPickEntries: result.clearedPickEntries.count,
+    });
+
     return res.json({
       id: result.finishedSession.id,
       status: result.finishedSession.status,
@@ -541,6 +669,142 @@ router.post('/:runId/packing-sessions/:packingSessionId/finish', setLogConfig({
   }
 });
 
+// Confirm the next pick in a packing session by scanning the item's barcode.
+router.post('/:runId/packing-sessions/:packingSessionId/scan', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { runId, packingSessionId } = req.params;
+  if (!runId || !packingSessionId) {
+    return res.status(400).json({ error: 'Run ID and packingSessionId are required' });
+  }
+
+  if (!req.auth.companyId) {
+    return res.status(403).json({ error: 'Company membership required to update picks' });
+  }
+
+  const parsed = scanPickSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+
+  const run = await ensureRun(req.auth.companyId, runId);
+  if (!run) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+
+  const packingSession = await prisma.packingSession.findUnique({
+    where: { id: packingSessionId },
+  });
+
+  if (!packingSession || packingSession.runId !== run.id) {
+    return res.status(404).json({ error: 'Packing session not found for this run' });
+  }
+
+  if (packingSession.status !== PrismaPackingSessionStatus.STARTED) {
+    return res.status(409).json({ error: 'Packing session is no longer active' });
+  }
+
+  const userId = req.auth.userId ?? null;
+  const sessionEntries = run.pickEntries.filter(
+    (entry) => entry.packingSessionId === packingSession.id && !entry.removedAt,
+  );
+  const commands = await buildPackingSessionAudioCommands(run, packingSession.id);
+
+  let scan: Awaited<ReturnType<typeof resolveScannedPick>>;
+  try {
+    scan = await resolveScannedPick({
+      companyId: req.auth.companyId,
+      code: parsed.data.code,
+      commands,
+      entries: sessionEntries,
+    });
+  } catch (error) {
+    if (error instanceof PickScanError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    throw error;
+  }
+
+  const pickedAt = new Date();
+  const changedEntries = sessionEntries.filter((entry) => scan.pickEntryIds.includes(entry.id));
+  await prisma.$transaction(async (tx) => {
+    await tx.pickEntry.updateMany({
+      where: { id: { in: scan.pickEntryIds }, runId: run.id, isPicked: false, removedAt: null },
+      data: { isPicked: true, pickedAt, pickedCount: null, shortageCount: null, shortageReason: null },
+    });
+
+    await recordRunActivity(tx, {
+      runId: run.id,
+      userId,
+      events: changedEntries.map((entry) => ({
+        type: RunActivityType.PICK_STATUS_CHANGED,
+        pickEntryId: entry.id,
+        packingSessionId: entry.packingSessionId,
+        before: { isPicked: entry.isPicked, pickedAt: entry.pickedAt?.toISOString() ?? null },
+        after: { isPicked: true, pickedAt: pickedAt.toISOString(), scannedCode: parsed.data.code },
+      })),
+    });
+  });
+
+  publishRunEvent(run.id, 'pick.status', {
+    pickEntryIds: scan.pickEntryIds,
+    isPicked: true,
+    userId,
+    scannedCode: parsed.data.code,
+  });
+
+  await refreshSessionClaims(prisma, packingSession.id);
+  await markRunPickingStarted(run, userId, pickedAt);
+  await updateRunCompletionStatus(run.id);
+
+  // The first item still pending after this scan, which tells the packer where to go next.
+  const stillPendingIds = new Set(
+    sessionEntries.filter((entry) => !entry.isPicked && !scan.pickEntryIds.includes(entry.id)).map((entry) => entry.id),
+  );
+  const nextCommand = commands.find(
+    (command) => command.type === 'item' && command.pickEntryIds.some((id) => stillPendingIds.has(id)),
+  );
+
+  return res.json({
+    code: parsed.data.code,
+    sku: scan.sku,
+    pickEntryIds: scan.pickEntryIds,
+    command: scan.command,
+    nextCommand: nextCommand ?? null,
+  });
+});
+
+// Hand a packing session's remaining work to another member.
+router.post(
+  '/:runId/packing-sessions/:packingSessionId/handoff',
+  setLogConfig({ level: 'minimal' }),
+  handOffPackingSession,
+);
+
+// Save how far through the audio commands a packing session has got.
+router.put('/:runId/packing-sessions/:packingSessionId/cursor', setLogConfig({ level: 'minimal' }), updatePackingSessionCursor);
+
+// Proposes balanced packing work packages, each of which can be started as a packing session.
+router.post('/:runId/packing-packages', setLogConfig({ level: 'minimal' }), proposePackingPackages);
+
+// Who holds which machines on a run.
+router.get('/:runId/packing-claims', setLogConfig({ level: 'minimal' }), listPackingClaims);
+
+// Release a machine claim so another packer can take it.
+router.delete('/:runId/packing-claims/:claimId', setLogConfig({ level: 'minimal' }), releasePackingClaim);
+
+// Claim more machines or locations for a packing session.
+router.post('/:runId/packing-sessions/:packingSessionId/claims', setLogConfig({ level: 'minimal' }), addPackingClaims);
+
+// Keep a packing session's claims from expiring.
+router.post(
+  '/:runId/packing-sessions/:packingSessionId/claims/refresh',
+  setLogConfig({ level: 'minimal' }),
+  refreshPackingClaims,
+);
+
 router.get('/:runId/audio-commands', setLogConfig({ level: 'minimal' }), async (req, res) => {
   if (!req.auth) {
     return res.status(401).json({ error: 'Unauthorized' });
@@ -574,225 +838,12 @@ router.get('/:runId/audio-commands', setLogConfig({ level: 'minimal' }), async (
     return res.status(404).json({ error: 'Run not found' });
   }
 
-  const locationOrderMap = new Map<string, number>();
-  run.locationOrders.forEach((order) => {
-    const key = order.locationId ?? UNASSIGNED_LOCATION_KEY;
-    locationOrderMap.set(key, order.position);
-  });
-
-  // Get pick entries for this packing session (including already packed), ordered by location, then machine, then coil (largest to smallest)
-  const pickEntries = await prisma.pickEntry.findMany({
-    where: {
-      runId: runId,
-      packingSessionId: sessionId,
-      count: { gt: 0 }
-    },
-    include: {
-      coilItem: {
-        include: {
-          coil: {
-            include: {
-              machine: {
-                include: {
-                  location: true,
-                  machineType: true
-                }
-              }
-            }
-          },
-          sku: true
-        }
-      }
-    },
-    orderBy: [
-      { coilItem: { coil: { machine: { location: { name: 'asc' } } } } },
-      { coilItem: { coil: { machine: { code: 'asc' } } } },
-      { coilItem: { par: 'desc' } }, // Largest par first (largest coil)
-      { coilItem: { coil: { code: 'asc' } } },
-      { coilItem: { sku: { name: 'asc' } } }
-    ]
-  });
-
-  // Group by location and machine to create audio commands
-  const audioCommands: AudioCommand[] = [];
-
-  // Track unique locations and machines to avoid duplicates
-  const uniqueLocations = new Set<string>();
-  const uniqueMachines = new Set<string>();
-
-  // Group entries by location and machine
-  const groupedEntries = pickEntries.reduce((acc, entry) => {
-    const location = entry.coilItem.coil.machine.location;
-    const machine = entry.coilItem.coil.machine;
-    
-    const locationKey = location?.id || UNASSIGNED_LOCATION_KEY;
-    const machineKey = machine?.id || 'no-machine';
-    
-    if (!acc[locationKey]) {
-      acc[locationKey] = {
-        location: location,
-        machines: {}
-      };
-    }
-    
-    if (!acc[locationKey].machines[machineKey]) {
-      acc[locationKey].machines[machineKey] = {
-        machine: machine,
-        entries: []
-      };
-    }
-    
-    acc[locationKey].machines[machineKey].entries.push(entry);
-    return acc;
-  }, {} as Record<string, { location: any, machines: Record<string, { machine: any, entries: any[] }> }>);
-
-  // Generate audio commands in the correct order
-  let orderCounter = 0;
-  const sortedLocationGroups = Object.values(groupedEntries).sort((a, b) => {
-    const aKey = a.location?.id ?? UNASSIGNED_LOCATION_KEY;
-    const bKey = b.location?.id ?? UNASSIGNED_LOCATION_KEY;
-    const aOrder = locationOrderMap.has(aKey) ? locationOrderMap.get(aKey)! : Number.MAX_SAFE_INTEGER;
-    const bOrder = locationOrderMap.has(bKey) ? locationOrderMap.get(bKey)! : Number.MAX_SAFE_INTEGER;
-
-    if (aOrder !== bOrder) {
-      return aOrder - bOrder;
-    }
-
-    const aName = (a.location?.name ?? '').toLowerCase();
-    const bName = (b.location?.name ?? '').toLowerCase();
-    if (aName === bName) {
-      return 0;
-    }
-    return aName < bName ? -1 : 1;
-  });
-
-  const locationGroupsInReverseOrder = [...sortedLocationGroups].reverse();
-  locationGroupsInReverseOrder.forEach(locationGroup => {
-    // Add location announcement
-    const location = locationGroup.location;
-    const locationKey = location?.id || UNASSIGNED_LOCATION_KEY;
-    if (location && !uniqueLocations.has(locationKey)) {
-      uniqueLocations.add(locationKey);
-      audioCommands.push({
-        id: `location-${locationKey}`,
-        audioCommand: `Location ${location.name || 'Unknown'}`,
-        pickEntryIds: [],
-        type: 'location',
-        locationId: location.id ?? null,
-        locationName: location.name || 'Unknown',
-        locationAddress: location.address ?? null,
-        count: 0,
-        order: orderCounter++
-      });
-    }
-    
-    // Add machine announcements and items for each machine in this location
-    Object.values(locationGroup.machines).forEach(machineGroup => {
-      const machine = machineGroup.machine;
-      const machineKey = machine?.id || 'no-machine';
-      
-      // Add machine announcement
-      if (machine && !uniqueMachines.has(machineKey)) {
-        uniqueMachines.add(machineKey);
-        audioCommands.push({
-          id: `machine-${machineKey}`,
-          audioCommand: `Machine ${machine.description || machine.code || 'Unknown'}`,
-          pickEntryIds: [],
-          type: 'machine',
-          locationId: machine.location?.id ?? null,
-          locationName: machine.location?.name || location?.name || 'Unknown',
-          locationAddress: machine.location?.address ?? null,
-          machineId: machine.id ?? null,
-          machineName: machine.description || machine.code || 'Unknown',
-          machineCode: machine.code ?? null,
-          machineDescription: machine.description ?? null,
-          machineTypeName: machine.machineType?.description || machine.machineType?.name || null,
-          count: 0,
-          order: orderCounter++
-        });
-      }
-      
-      // Sort entries by coil code lexicographically (E7 -> E6 -> D2 -> D1, etc.)
-      const sortedEntries = machineGroup.entries.sort((a, b) => {
-        const coilCodeA = a.coilItem.coil?.code || '';
-        const coilCodeB = b.coilItem.coil?.code || '';
-        
-        // Sort lexicographically (E7 -> E6 -> D2 -> D1)
-        return coilCodeB.localeCompare(coilCodeA);
-      });
-      
-      // Group entries by SKU within this machine
-      const skuGroups = new Map<string, typeof sortedEntries>();
-      
-      sortedEntries.forEach(entry => {
-        const sku = entry.coilItem.sku;
-        if (sku) {
-          const skuKey = sku.id;
-          if (!skuGroups.has(skuKey)) {
-            skuGroups.set(skuKey, []);
-          }
-          skuGroups.get(skuKey)!.push(entry);
-        }
-      });
-      
-      // Generate audio commands for each SKU group
-      skuGroups.forEach((entries, skuKey) => {
-        const firstEntry = entries[0];
-        const sku = firstEntry.coilItem.sku;
-        const coil = firstEntry.coilItem.coil;
-        
-        if (sku) {
-          const totalCount = entries.reduce((acc, entry) => acc + resolvePickEntryCount(entry), 0);
-          
-          const skuName = sku.name || 'Unknown item';
-          const skuCode = sku.code || '';
-          
-          // Collect all unique coil codes for this SKU group
-          const uniqueCoilCodes = [...new Set(entries.map(entry => entry.coilItem.coil?.code || '').filter(code => code))];
-          const coilCount = uniqueCoilCodes.length;
-          
-          // Build audio command similar to RunDaddy app
-          let audioCommand = `${skuName}`;
-          if (sku.type && sku.type.trim() && sku.type.toLowerCase() !== 'general') {
-            audioCommand += `, ${sku.type}`;
-          }
-          audioCommand += `. Need ${totalCount}`;
-          
-          // Announce coil count instead of individual coils
-          if (coilCount > 1) {
-            audioCommand += `. For ${coilCount} coils`;
-          }
-          
-          // Collect all pick entry IDs for this group
-          const pickEntryIds = entries.map(entry => entry.id);
-          
-          audioCommands.push({
-            id: `sku-${skuKey}-${machineKey}`,
-            audioCommand: audioCommand,
-            pickEntryIds: pickEntryIds,
-            type: 'item',
-            locationId: machine?.location?.id ?? location?.id ?? null,
-            locationName: machine?.location?.name || location?.name || null,
-            locationAddress: machine?.location?.address ?? location?.address ?? null,
-            machineId: machine?.id ?? null,
-            machineName: machine?.description || machine?.code || 'Unknown',
-            machineCode: machine?.code ?? null,
-            machineDescription: machine?.description ?? null,
-            machineTypeName: machine?.machineType?.description || machine?.machineType?.name || null,
-            skuName: skuName,
-            skuCode: skuCode,
-            count: totalCount,
-            coilCode: coilCount > 1 ? `${coilCount} coils` : (uniqueCoilCodes[0] || ''),
-            coilCodes: uniqueCoilCodes, // Add array of all coil codes for UI display
-            order: orderCounter++
-          });
-        }
-      });
-    });
-  });
+  const audioCommands = await buildPackingSessionAudioCommands(run, sessionId);
 
   return res.json({
     runId: runId,
+    // Where the packer last got to, so a resumed session can skip ahead.
+    cursorOrder: packingSession.cursorOrder,
     audioCommands: audioCommands,
     totalItems: audioCommands.filter(cmd => cmd.type === 'item').length,
     hasItems: audioCommands.some(cmd => cmd.type === 'item')
@@ -900,6 +951,7 @@ router.get('/tomorrow/ready', async (req, res) => {
     persistIfMissing: persistTimezone,
   });
   const { start, end } = getTimezoneDayRange({ timeZone, dayOffset: 1 });
+  const currentUserId = req.auth.userId;
 
   const runs = await prisma.run.findMany({
     where: {
@@ -913,10 +965,23 @@ router.get('/tomorrow/ready', async (req, res) => {
     orderBy: { scheduledFor: 'asc' },
     include: {
       runner: true,
+      participants: {
+        include: runParticipantInclude,
+        orderBy: [{ role: 'asc' }, { createdAt: 'asc' }],
+      },
     },
   });
 
-  return res.json(runs);
+  return res.json(
+    runs.map(({ participants, ...run }) => {
+      const serialized = participants.map(serializeRunParticipant);
+      return {
+        ...run,
+        participants: serialized,
+        currentUserRoles: getUserRunRoles(serialized, currentUserId),
+      };
+    }),
+  );
 });
 
 router.get('/:runId', setLogConfig({ level: 'minimal' }), async (req, res) => {
@@ -941,6 +1006,39 @@ router.get('/:runId', setLogConfig({ level: 'minimal' }), async (req, res) => {
   return res.json(payload);
 });
 
+// Downloads a printable pick sheet for a run as XLSX (default) or PDF via ?format=pdf.
+router.get('/:runId/export', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { runId } = req.params;
+  if (!runId) {
+    return res.status(400).json({ error: 'Run ID is required' });
+  }
+
+  if (!req.auth.companyId) {
+    return res.status(403).json({ error: 'Company membership required to access runs' });
+  }
+
+  const parsed = exportRunQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters', details: parsed.error.flatten() });
+  }
+
+  const sheet = await buildRunPickSheet(req.auth.companyId, runId);
+  if (!sheet) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+
+  const { format } = parsed.data;
+  const contents = format === 'pdf' ? await renderRunPickSheetPdf(sheet) : await renderRunPickSheetXlsx(sheet);
+  const fileName = `pick-list-${sheet.dateLabel ?? sheet.runId}.${format}`;
+  res.setHeader('Content-Type', RUN_EXPORT_CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  return res.send(contents);
+});
+
 router.get('/:runId/expiring-items', setLogConfig({ level: 'minimal' }), async (req, res) => {
   if (!req.auth) {
     return res.status(401).json({ error: 'Unauthorized' });
@@ -1080,7 +1178,20 @@ router.put('/:runId/location-order', setLogConfig({ level: 'minimal' }), async (
   return res.json({ locationOrders: serializedOrders });
 });
 
-// Assigns or unassigns a runner to a run.
+// Proposes a location order that respects opening hours, starting from a depot at a given departure time.
+router.post('/:runId/location-order/optimize', setLogConfig({ level: 'minimal' }), optimizeRunLocationOrder);
+
+// Planned versus actual times for each stop, with projections for the stops still to come.
+router.get('/:runId/timeline', setLogConfig({ level: 'minimal' }), getRunTimeline);
+
+// Records the runner arriving at a location on the run.
+router.post('/:runId/locations/:locationId/check-in', setLogConfig({ level: 'minimal' }), checkInRunLocation);
+
+// Records the runner leaving a location on the run.
+router.post('/:runId/locations/:locationId/check-out', setLogConfig({ level: 'minimal' }), checkOutRunLocation);
+
+// Assigns or unassigns a participant role on a run. Without a userId, managers clear the role and everyone
+// else removes themselves from it.
 router.post('/:runId/assignment', setLogConfig({ level: 'minimal' }), async (req, res) => {
   if (!req.auth) {
     return res.status(401).json({ error: 'Unauthorized' });
@@ -1089,6 +1200,8 @@ router.post('/:runId/assignment', setLogConfig({ level: 'minimal' }), async (req
   if (!req.auth.companyId) {
     return res.status(403).json({ error: 'Company membership required to assign runs' });
   }
+  const companyId = req.auth.companyId;
+  const actor = { userId: req.auth.userId, role: req.auth.role };
 
   const runId = req.params.runId?.trim() || '';
 
@@ -1096,61 +1209,51 @@ router.post('/:runId/assignment', setLogConfig({ level: 'minimal' }), async (req
   if (!parsed.success) {
     return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
   }
+  const { role } = parsed.data;
 
-  const run = await ensureRun(req.auth.companyId, runId);
+  const run = await ensureRun(companyId, runId);
   if (!run) {
     return res.status(404).json({ error: 'Run not found' });
   }
 
-  // If userId is provided, validate membership and permissions
-  if (parsed.data.userId) {
-    const membership = await ensureMembership(req.auth.companyId, parsed.data.userId);
-    if (!membership) {
-      return res.status(404).json({ error: 'User not found in company' });
-    }
-
-    const isSelfAssignment = parsed.data.userId === req.auth.userId;
-    const isManager = isCompanyManager(req.auth.role);
-
-    // TODO: Check how I want this logic to go down
-    // if (!isManager && !isSelfAssignment) {
-    //   return res.status(403).json({ error: 'Insufficient permissions to assign runs' });
-    // }
+  const userId = parsed.data.userId?.trim() || null;
 
-    // For self-assignment, check if the role is already taken
-    if (isSelfAssignment && !isManager) {
-      const isRunnerTaken = run.runnerId != null && run.runnerId !== req.auth.userId;
-      if (isRunnerTaken) {
-        return res.status(409).json({ error: 'Runner role is already assigned to another user' });
+  try {
+    await prisma.$transaction(async (tx) => {
+      if (userId) {
+        await assignRunParticipant(tx, { companyId, runId: run.id, userId, role, actor });
+        return;
       }
+      await removeRunParticipants(tx, {
+        runId: run.id,
+        where: isCompanyManager(actor.role) ? { role } : { role, userId: actor.userId },
+        actor,
+      });
+    });
+  } catch (error) {
+    if (error instanceof RunParticipantError) {
+      return res.status(error.statusCode).json({ error: error.message });
     }
-  } 
-  // else {
-  //   // For unassignment, only managers can unassign users
-  //   if (!isCompanyManager(req.auth.role)) {
-  //     return res.status(403).json({ error: 'Insufficient permissions to unassign runs' });
-  //   }
-  // }
-
-  const userId = parsed.data.userId && parsed.data.userId.trim() !== "" ? parsed.data.userId : null;
-  const updateData = { runnerId: userId };
-
-  const updatedRun = await prisma.run.update({
-    where: { id: run.id },
-    data: updateData,
-    include: {
-      runner: true,
-    },
-  });
+    throw error;
+  }
 
   return res.status(200).json({
-    id: updatedRun.id,
-    companyId: updatedRun.companyId,
-    status: updatedRun.status,
+    id: run.id,
+    companyId: run.companyId,
+    status: run.status,
   });
 });
 
-// Updates a run status
+// Lists who is on a run and in which role.
+router.get('/:runId/participants', setLogConfig({ level: 'minimal' }), listRunParticipants);
+
+// Adds the current user, or as a manager anyone in the company, to a run in a role.
+router.post('/:runId/participants', setLogConfig({ level: 'minimal' }), addRunParticipant);
+
+// Removes one participant from a run.
+router.delete('/:runId/participants/:participantId', setLogConfig({ level: 'minimal' }), deleteRunParticipant);
+
+// Updates a run status along the allowed transitions and records who changed it.
 router.patch('/:runId/status', async (req, res) => {
   if (!req.auth) {
     return res.status(401).json({ error: 'Unauthorized' });
@@ -1161,15 +1264,19 @@ router.patch('/:runId/status', async (req, res) => {
   }
 
   const { runId } = req.params;
-  const { status } = req.body;
   
   if (!runId) {
     return res.status(400).json({ error: 'Run ID is required' });
   }
 
-  if (!status || !isRunStatus(status)) {
-    return res.status(400).json({ error: 'Invalid status. Must be one of: CREATED, PENDING_FRESH, PICKING, READY' });
+  const parsed = updateRunStatusSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid status. Must be one of: CREATED, PENDING_FRESH, PICKING, READY',
+      details: parsed.error.flatten(),
+    });
   }
+  const { status, reason } = parsed.data;
 
   const run = await ensureRun(req.auth.companyId, runId);
   if (!run) {
@@ -1181,25 +1288,118 @@ router.patch('/:runId/status', async (req, res) => {
     return res.status(403).json({ error: 'Insufficient permissions to update run status' });
   }
 
-  // Prepare update data
-  const updateData: Prisma.RunUpdateInput = { status: status as PrismaRunStatus };
-  
-  // Set pickingEndedAt when status changes to PENDING_FRESH or READY, only if not already set
-  if ((status === 'PENDING_FRESH' || status === 'READY') && !run.pickingEndedAt) {
-    updateData.pickingEndedAt = new Date();
+  if (run.status === status) {
+    return res.status(200).json({
+      id: run.id,
+      status: run.status,
+    });
   }
 
-  const updatedRun = await prisma.run.update({
-    where: { id: run.id },
-    data: updateData,
-    include: {
-      runner: true,
-    },
-  });
+  const actorId = req.auth.userId;
+  try {
+    const change = await prisma.$transaction((tx) =>
+      transitionRunStatus(tx, { runId: run.id, to: status, actorId, reason: reason ?? null }),
+    );
+    publishRunEvent(run.id, 'run.status', { ...change, actorId });
+  } catch (error) {
+    if (error instanceof RunStatusTransitionError) {
+      return res.status(error.statusCode).json({ error: error.message, allowedStatuses: error.allowedStatuses });
+    }
+    throw error;
+  }
 
   return res.status(200).json({
-    id: updatedRun.id,
-    status: updatedRun.status,
+    id: run.id,
+    status,
+  });
+});
+
+// Streams live pick, packing session, and status changes for a run as Server-Sent Events.
+router.get('/:runId/events', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (!req.auth.companyId) {
+    return res.status(403).json({ error: 'Company membership required to follow runs' });
+  }
+
+  const runId = req.params.runId?.trim();
+  if (!runId) {
+    return res.status(400).json({ error: 'Run ID is required' });
+  }
+
+  const run = await prisma.run.findFirst({
+    where: { id: runId, companyId: req.auth.companyId },
+    select: { id: true, status: true },
+  });
+  if (!run) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stops reverse proxies from buffering the stream.
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  let eventId = 0;
+  const send = (type: string, data: unknown) => {
+    eventId += 1;
+    res.write(`id: ${eventId}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // The first event tells the client where the run stands; clients refetch the run detail on reconnect.
+  send('ready', { runId: run.id, status: run.status });
+  const unsubscribe = runEventBus.subscribe(run.id, (event) => send(event.type, event));
+  const heartbeat = setInterval(() => {
+    res.write(': keep-alive\n\n');
+  }, RUN_EVENTS_HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// Pages through who changed what on a run's picks and chocolate boxes, newest first.
+router.get('/:runId/activity', setLogConfig({ level: 'minimal' }), listRunActivity);
+
+// Pages through the activity for a single pick entry, including entries that have since been deleted.
+router.get('/:runId/picks/:pickId/activity', setLogConfig({ level: 'minimal' }), listRunActivity);
+
+// Lists a run's status changes, oldest first, with who made each one.
+router.get('/:runId/history', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (!req.auth.companyId) {
+    return res.status(403).json({ error: 'Company membership required to view run history' });
+  }
+
+  const runId = req.params.runId?.trim();
+  if (!runId) {
+    return res.status(400).json({ error: 'Run ID is required' });
+  }
+
+  const run = await prisma.run.findFirst({
+    where: { id: runId, companyId: req.auth.companyId },
+    select: { id: true, status: true },
+  });
+  if (!run) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+
+  const events = await listRunStatusHistory(run.id);
+  return res.json({
+    runId: run.id,
+    status: run.status,
+    allowedStatuses: RUN_STATUS_TRANSITIONS[run.status as RunStatusValue],
+    events,
   });
 });
 
@@ -1240,32 +1440,61 @@ router.patch('/:runId/picks/status', async (req, res) => {
     return res.status(404).json({ error: 'Run not found' });
   }
 
+  const userId = req.auth.userId ?? null;
+  const pickedAt = isPicked ? new Date() : null;
   const updateData: Prisma.PickEntryUpdateManyMutationInput = {
     isPicked,
-    pickedAt: isPicked ? new Date() : null,
+    pickedAt,
   };
 
-  const updatedPickEntries = await prisma.pickEntry.updateMany({
-    where: {
-      id: { in: normalizedPickIds },
-      runId: runId
-    },
-    data: updateData
+  const changedEntries = run.pickEntries.filter(
+    (entry) => normalizedPickIds.includes(entry.id) && entry.isPicked !== isPicked,
+  );
+
+  const updatedPickEntries = await prisma.$transaction(async (tx) => {
+    const updated = await tx.pickEntry.updateMany({
+      where: {
+        id: { in: normalizedPickIds },
+        runId: runId
+      },
+      data: updateData
+    });
+    // A plain status change means the full count was picked, or nothing was, so any recorded shortfall is cleared.
+    // Entries already in the requested state keep theirs.
+    await tx.pickEntry.updateMany({
+      where: { id: { in: changedEntries.map((entry) => entry.id) } },
+      data: { pickedCount: null, shortageCount: null, shortageReason: null },
+    });
+
+    await recordRunActivity(tx, {
+      runId: run.id,
+      userId,
+      events: changedEntries.map((entry) => ({
+        type: RunActivityType.PICK_STATUS_CHANGED,
+        pickEntryId: entry.id,
+        packingSessionId: entry.packingSessionId,
+        before: { isPicked: entry.isPicked, pickedAt: entry.pickedAt?.toISOString() ?? null },
+        after: { isPicked, pickedAt: pickedAt?.toISOString() ?? null },
+      })),
+    });
+
+    return updated;
   });
 
+  if (changedEntries.length) {
+    publishRunEvent(run.id, 'pick.status', {
+      pickEntryIds: changedEntries.map((entry) => entry.id),
+      isPicked,
+      userId,
+    });
+  }
+
   if (updatedPickEntries.count === 0) {
     return res.status(404).json({ error: 'No pick entries were updated' });
   }
 
-  // If picks were marked as picked for the first time on this run, set pickingStartedAt
-  if (isPicked && !run.pickingStartedAt) {
-    await prisma.run.update({
-      where: { id: run.id },
-      data: { 
-        pickingStartedAt: new Date(),
-        ...(run.status === 'CREATED' && { status: 'PICKING' })
-      }
-    });
+  if (isPicked) {
+    await markRunPickingStarted(run, userId, pickedAt ?? new Date());
   }
 
   await updateRunCompletionStatus(run.id);
@@ -1275,6 +1504,49 @@ router.patch('/:runId/picks/status', async (req, res) => {
   });
 });
 
+// Records how many of each pick entry were actually picked, with a reason for any shortfall.
+router.patch('/:runId/picks/quantities', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (!req.auth.companyId) {
+    return res.status(403).json({ error: 'Company membership required to update picks' });
+  }
+
+  const parsed = pickQuantitiesSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+
+  return respondWithPickQuantities(req.auth.companyId, req.params.runId?.trim() || '', parsed.data.picks, req, res);
+});
+
+// Records the picked quantity for one pick entry, with a reason when it falls short.
+router.patch('/:runId/picks/:pickId/quantity', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (!req.auth.companyId) {
+    return res.status(403).json({ error: 'Company membership required to update picks' });
+  }
+
+  const parsed = pickQuantitySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+
+  const pickId = req.params.pickId?.trim() || '';
+  return respondWithPickQuantities(
+    req.auth.companyId,
+    req.params.runId?.trim() || '',
+    [{ ...parsed.data, pickId }],
+    req,
+    res,
+  );
+});
+
 router.patch('/:runId/picks/:pickId/override', setLogConfig({ level: 'minimal' }), async (req, res) => {
   if (!req.auth) {
     return res.status(401).json({ error: 'Unauthorized' });
@@ -1313,19 +1585,45 @@ router.patch('/:runId/picks/:pickId/override', setLogConfig({ level: 'minimal' }
     pickEntry.current ??
     pickEntry.count;
   const nextCount = overrideValue === null ? resolvePointerCount(pickEntry, fallbackCount) : overrideValue;
+  const userId = req.auth.userId ?? null;
 
-  const updated = await prisma.pickEntry.update({
-    where: { id: pickEntry.id },
-    data: {
-      override: overrideValue,
-      count: nextCount,
-    },
-    select: {
-      id: true,
-      runId: true,
-      count: true,
-      override: true,
-    },
+  const updated = await prisma.$transaction(async (tx) => {
+    const result = await tx.pickEntry.update({
+      where: { id: pickEntry.id },
+      data: {
+        override: overrideValue,
+        count: nextCount,
+      },
+      select: {
+        id: true,
+        runId: true,
+        count: true,
+        override: true,
+      },
+    });
+
+    await recordRunActivity(tx, {
+      runId: run.id,
+      userId,
+      events: [
+        {
+          type: RunActivityType.OVERRIDE_SET,
+          pickEntryId: pickEntry.id,
+          packingSessionId: pickEntry.packingSessionId,
+          before: { override: pickEntry.override, count: pickEntry.count },
+          after: { override: result.override, count: result.count },
+        },
+      ],
+    });
+
+    return result;
+  });
+
+  publishRunEvent(run.id, 'pick.override', {
+    pickEntryId: updated.id,
+    override: updated.override,
+    count: updated.count,
+    userId,
   });
 
   return res.json({
@@ -1401,27 +1699,46 @@ router.post('/:runId/picks/:pickId/expiry-overrides', setLogConfig({ level: 'min
     });
   }
 
-  await prisma.pickEntryExpiryOverride.upsert({
-    where: {
-      pickEntryId_expiryDate: {
+  const userId = req.auth.userId ?? null;
+  const updatedOverrides = await prisma.$transaction(async (tx) => {
+    await tx.pickEntryExpiryOverride.upsert({
+      where: {
+        pickEntryId_expiryDate: {
+          pickEntryId: pickEntry.id,
+          expiryDate: targetExpiryDate,
+        },
+      },
+      create: {
         pickEntryId: pickEntry.id,
         expiryDate: targetExpiryDate,
+        quantity: parsed.data.quantity,
       },
-    },
-    create: {
-      pickEntryId: pickEntry.id,
-      expiryDate: targetExpiryDate,
-      quantity: parsed.data.quantity,
-    },
-    update: {
-      quantity: { increment: parsed.data.quantity },
-    },
-  });
+      update: {
+        quantity: { increment: parsed.data.quantity },
+      },
+    });
 
-  const updatedOverrides = await prisma.pickEntryExpiryOverride.findMany({
-    where: { pickEntryId: pickEntry.id },
-    select: { expiryDate: true, quantity: true },
-    orderBy: { expiryDate: 'asc' },
+    const overrides = await tx.pickEntryExpiryOverride.findMany({
+      where: { pickEntryId: pickEntry.id },
+      select: { expiryDate: true, quantity: true },
+      orderBy: { expiryDate: 'asc' },
+    });
+
+    await recordRunActivity(tx, {
+      runId: pickEntry.runId,
+      userId,
+      events: [
+        {
+          type: RunActivityType.EXPIRY_OVERRIDES_CHANGED,
+          pickEntryId: pickEntry.id,
+          packingSessionId: pickEntry.packingSessionId,
+          before: { expiryOverrides: pickEntry.expiryOverrides },
+          after: { expiryOverrides: overrides },
+        },
+      ],
+    });
+
+    return overrides;
   });
 
   const expiryDates = Array.from(new Set([baseExpiryDate, ...updatedOverrides.map((row) => row.expiryDate)]))
@@ -1514,7 +1831,22 @@ router.put('/:runId/picks/:pickId/expiry-overrides', setLogConfig({ level: 'mini
 
   const overrideDates = uniqueOverrides.map((row) => row.expiryDate);
 
+  const userId = req.auth.userId ?? null;
   await prisma.$transaction(async (tx) => {
+    await recordRunActivity(tx, {
+      runId: pickEntry.runId,
+      userId,
+      events: [
+        {
+          type: RunActivityType.EXPIRY_OVERRIDES_CHANGED,
+          pickEntryId: pickEntry.id,
+          packingSessionId: pickEntry.packingSessionId,
+          before: { expiryOverrides: pickEntry.expiryOverrides },
+          after: { expiryOverrides: uniqueOverrides },
+        },
+      ],
+    });
+
     if (!overrideDates.length) {
       await tx.pickEntryExpiryOverride.deleteMany({
         where: {
@@ -1600,7 +1932,7 @@ router.patch('/:runId/picks/:pickId/substitute', setLogConfig({ level: 'minimal'
 
   const sku = await prisma.sKU.findFirst({
     where: { id: parsed.data.skuId, companyId: req.auth.companyId },
-    select: { id: true },
+    select: { id: true, code: true },
   });
   if (!sku) {
     return res.status(404).json({ error: 'SKU not found' });
@@ -1626,11 +1958,38 @@ router.patch('/:runId/picks/:pickId/substitute', setLogConfig({ level: 'minimal'
     select: { id: true },
   });
 
+  const userId = req.auth.userId ?? null;
   try {
-    const updated = await prisma.pickEntry.update({
-      where: { id: pickEntry.id },
-      data: { coilItemId: nextCoilItem.id },
-      select: { id: true, runId: true, coilItemId: true },
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.pickEntry.update({
+        where: { id: pickEntry.id },
+        data: { coilItemId: nextCoilItem.id },
+        select: { id: true, runId: true, coilItemId: true },
+      });
+
+      await recordRunActivity(tx, {
+        runId: run.id,
+        userId,
+        events: [
+          {
+            type: RunActivityType.SKU_SUBSTITUTED,
+            pickEntryId: pickEntry.id,
+            packingSessionId: pickEntry.packingSessionId,
+            before: { coilItemId: pickEntry.coilItemId, skuId: pickEntry.coilItem.skuId, skuCode: pickEntry.coilItem.sku.code },
+            after: { coilItemId: result.coilItemId, skuId: sku.id, skuCode: sku.code },
+          },
+        ],
+      });
+
+      return result;
+    });
+
+    publishRunEvent(run.id, 'pick.substituted', {
+      pickEntryId: updated.id,
+      coilItemId: updated.coilItemId,
+      skuId: sku.id,
+      skuCode: sku.code,
+      userId,
     });
 
     return res.json(updated);
@@ -1673,8 +2032,24 @@ router.delete('/:runId/picks/:pickId', async (req, res) => {
     return res.status(404).json({ error: 'Pick entry not found' });
   }
 
-  await prisma.pickEntry.delete({
-    where: { id: pickEntry.id }
+  const userId = req.auth.userId ?? null;
+  await prisma.$transaction(async (tx) => {
+    await tx.pickEntry.delete({
+      where: { id: pickEntry.id }
+    });
+
+    await recordRunActivity(tx, {
+      runId: run.id,
+      userId,
+      events: [
+        {
+          type: RunActivityType.PICK_ENTRY_DELETED,
+          pickEntryId: pickEntry.id,
+          packingSessionId: pickEntry.packingSessionId,
+          before: snapshotPickEntry(pickEntry),
+        },
+      ],
+    });
   });
 
   await updateRunCompletionStatus(run.id);
@@ -1742,23 +2117,40 @@ router.post('/:runId/picks', setLogConfig({ level: 'minimal' }), async (req, res
     expiryDays: coilItem.sku.expiryDays ?? 0,
   });
 
-  const created = await prisma.pickEntry.create({
-    data: {
+  const userId = req.auth.userId ?? null;
+  const created = await prisma.$transaction(async (tx) => {
+    const entry = await tx.pickEntry.create({
+      data: {
+        runId: run.id,
+        coilItemId: parsed.data.coilItemId,
+        count: parsed.data.count,
+        override: parsed.data.count,
+        par: coilItem.par,
+        expiryDate,
+      },
+      select: {
+        id: true,
+        runId: true,
+        coilItemId: true,
+        count: true,
+        override: true,
+        expiryDate: true,
+      },
+    });
+
+    await recordRunActivity(tx, {
       runId: run.id,
-      coilItemId: parsed.data.coilItemId,
-      count: parsed.data.count,
-      override: parsed.data.count,
-      par: coilItem.par,
-      expiryDate,
-    },
-    select: {
-      id: true,
-      runId: true,
-      coilItemId: true,
-      count: true,
-      override: true,
-      expiryDate: true,
-    },
+      userId,
+      events: [
+        {
+          type: RunActivityType.PICK_ENTRY_ADDED,
+          pickEntryId: entry.id,
+          after: { coilItemId: entry.coilItemId, count: entry.count, override: entry.override, expiryDate: entry.expiryDate },
+        },
+      ],
+    });
+
+    return entry;
   });
 
   await prisma.note.create({
@@ -1836,11 +2228,36 @@ router.delete('/:runId/locations/:locationId', setLogConfig({ level: 'minimal' }
         },
       };
 
+  const userId = req.auth.userId ?? null;
   const { deletedCount } = await prisma.$transaction(async (tx) => {
+    const removedEntries = await tx.pickEntry.findMany({
+      where: deleteWhere,
+      select: {
+        id: true,
+        packingSessionId: true,
+        coilItemId: true,
+        count: true,
+        override: true,
+        isPicked: true,
+        expiryDate: true,
+      },
+    });
+
     const deleted = await tx.pickEntry.deleteMany({
       where: deleteWhere,
     });
 
+    await recordRunActivity(tx, {
+      runId: run.id,
+      userId,
+      events: removedEntries.map((entry) => ({
+        type: RunActivityType.PICK_ENTRY_DELETED,
+        pickEntryId: entry.id,
+        packingSessionId: entry.packingSessionId,
+        before: snapshotPickEntry(entry),
+      })),
+    });
+
     await tx.runLocationOrder.deleteMany({
       where: {
         runId: normalizedRunId,
@@ -1856,6 +2273,125 @@ router.delete('/:runId/locations/:locationId', setLogConfig({ level: 'minimal' }
   return res.json({ deletedCount });
 });
 
+// Moves the chosen locations, with their picks, boxes, notes and packing sessions, onto a new run for the same day.
+router.post('/:runId/split', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (!req.auth.companyId) {
+    return res.status(403).json({ error: 'Company membership required to split runs' });
+  }
+
+  if (!isCompanyManager(req.auth.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions to split runs' });
+  }
+
+  const parsed = splitRunSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+
+  const run = await prisma.run.findFirst({
+    where: { id: req.params.runId?.trim() || '', companyId: req.auth.companyId },
+  });
+  if (!run) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+
+  const runnerId = parsed.data.runnerId ?? null;
+  if (runnerId && !(await ensureMembership(req.auth.companyId, runnerId))) {
+    return res.status(404).json({ error: 'Runner not found in company' });
+  }
+
+  const actorId = req.auth.userId ?? null;
+  try {
+    const { newRun, summary, statusChanges } = await prisma.$transaction((tx) =>
+      splitRun(tx, { run, locationIds: parsed.data.locationIds, runnerId, actorId }),
+    );
+
+    statusChanges.forEach((change) => publishRunEvent(newRun.id, 'run.status', { ...change, actorId }));
+    await updateRunCompletionStatus(run.id);
+    await updateRunCompletionStatus(newRun.id);
+
+    return res.status(201).json({
+      run: await getRunDetailPayload(req.auth.companyId, run.id),
+      newRun: await getRunDetailPayload(req.auth.companyId, newRun.id),
+      summary,
+    });
+  } catch (error) {
+    if (error instanceof RunRestructureError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    throw error;
+  }
+});
+
+// Folds another run scheduled for the same day into this one and deletes it.
+router.post('/:runId/merge', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (!req.auth.companyId) {
+    return res.status(403).json({ error: 'Company membership required to merge runs' });
+  }
+
+  if (!isCompanyManager(req.auth.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions to merge runs' });
+  }
+
+  const parsed = mergeRunsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+  const { sourceRunId, onConflict } = parsed.data;
+
+  const targetRunId = req.params.runId?.trim() || '';
+  if (sourceRunId === targetRunId) {
+    return res.status(400).json({ error: 'A run cannot be merged into itself' });
+  }
+
+  const [targetRun, sourceRun] = await Promise.all([
+    prisma.run.findFirst({ where: { id: targetRunId, companyId: req.auth.companyId } }),
+    prisma.run.findFirst({ where: { id: sourceRunId, companyId: req.auth.companyId } }),
+  ]);
+  if (!targetRun || !sourceRun) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+
+  const timeZone = await resolveCompanyTimezone(req.auth.companyId);
+  if (
+    !targetRun.scheduledFor ||
+    !sourceRun.scheduledFor ||
+    formatDateInTimezone(targetRun.scheduledFor, timeZone) !== formatDateInTimezone(sourceRun.scheduledFor, timeZone)
+  ) {
+    return res.status(400).json({ error: 'Only runs scheduled for the same day can be merged' });
+  }
+
+  const actorId = req.auth.userId ?? null;
+  try {
+    const { summary, statusChange } = await prisma.$transaction((tx) =>
+      mergeRuns(tx, { targetRun, sourceRunId: sourceRun.id, onConflict, actorId }),
+    );
+
+    if (statusChange) {
+      publishRunEvent(targetRun.id, 'run.status', { ...statusChange, actorId });
+    }
+    await updateRunCompletionStatus(targetRun.id);
+
+    return res.json({
+      run: await getRunDetailPayload(req.auth.companyId, targetRun.id),
+      summary,
+    });
+  } catch (error) {
+    if (error instanceof RunRestructureError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    throw error;
+  }
+});
+
 // Deletes a run and all related records.
 router.delete('/:runId', async (req, res) => {
   if (!req.auth) {
@@ -1972,20 +2508,36 @@ router.post('/:runId/chocolate-boxes', async (req, res) => {
     return res.status(409).json({ error: 'Chocolate box number already exists for this run' });
   }
 
-  const chocolateBox = await prisma.chocolateBox.create({
-    data: {
-      runId,
-      machineId: parsed.data.machineId,
-      number: parsed.data.number,
-    },
-    include: {
-      machine: {
-        include: {
-          location: true,
-          machineType: true,
+  const userId = req.auth.userId ?? null;
+  const chocolateBox = await prisma.$transaction(async (tx) => {
+    const box = await tx.chocolateBox.create({
+      data: {
+        runId,
+        machineId: parsed.data.machineId,
+        number: parsed.data.number,
+      },
+      include: {
+        machine: {
+          include: {
+            location: true,
+            machineType: true,
+          },
         },
       },
-    },
+    });
+
+    await recordRunActivity(tx, {
+      runId: run.id,
+      userId,
+      events: [
+        {
+          type: RunActivityType.CHOCOLATE_BOX_CREATED,
+          after: { chocolateBoxId: box.id, number: box.number, machineId: box.machineId },
+        },
+      ],
+    });
+
+    return box;
   });
 
   return res.status(201).json({
@@ -2065,17 +2617,34 @@ router.patch('/:runId/chocolate-boxes/:boxId', async (req, res) => {
     }
   }
 
-  const chocolateBox = await prisma.chocolateBox.update({
-    where: { id: boxId },
-    data: parsed.data as Prisma.ChocolateBoxUpdateInput,
-    include: {
-      machine: {
-        include: {
-          location: true,
-          machineType: true,
+  const userId = req.auth.userId ?? null;
+  const chocolateBox = await prisma.$transaction(async (tx) => {
+    const box = await tx.chocolateBox.update({
+      where: { id: boxId },
+      data: parsed.data as Prisma.ChocolateBoxUpdateInput,
+      include: {
+        machine: {
+          include: {
+            location: true,
+            machineType: true,
+          },
         },
       },
-    },
+    });
+
+    await recordRunActivity(tx, {
+      runId: run.id,
+      userId,
+      events: [
+        {
+          type: RunActivityType.CHOCOLATE_BOX_UPDATED,
+          before: { chocolateBoxId: existingBox.id, number: existingBox.number, machineId: existingBox.machineId },
+          after: { chocolateBoxId: box.id, number: box.number, machineId: box.machineId },
+        },
+      ],
+    });
+
+    return box;
   });
 
   return res.json({
@@ -2127,8 +2696,22 @@ router.delete('/:runId/chocolate-boxes/:boxId', async (req, res) => {
     return res.status(404).json({ error: 'Chocolate box not found' });
   }
 
-  await prisma.chocolateBox.delete({
-    where: { id: boxId },
+  const userId = req.auth.userId ?? null;
+  await prisma.$transaction(async (tx) => {
+    await tx.chocolateBox.delete({
+      where: { id: boxId },
+    });
+
+    await recordRunActivity(tx, {
+      runId: run.id,
+      userId,
+      events: [
+        {
+          type: RunActivityType.CHOCOLATE_BOX_DELETED,
+          before: { chocolateBoxId: existingBox.id, number: existingBox.number, machineId: existingBox.machineId },
+        },
+      ],
+    });
   });
 
   return res.status(204).send();
@@ -2177,6 +2760,7 @@ type PickItemPayload = {
   expiryOverrides: Array<{ expiryDate: string; quantity: number }>;
   isPicked: boolean;
   pickedAt: Date | null;
+  removedAt: Date | null;
   packingSessionId: string | null;
   coilItem: {
     id: string;
@@ -2214,6 +2798,7 @@ type RunDetailPayload = {
     firstName: string | null;
     lastName: string | null;
   };
+  participants: RunParticipantPayload[];
   locations: LocationPayload[];
   machines: MachinePayload[];
   pickItems: PickItemPayload[];
@@ -2231,6 +2816,10 @@ type RunDetailPayload = {
 	    expiryOverrides: Array<{ expiryDate: string; quantity: number }>;
 	    isPicked: boolean;
 	    pickedAt: Date | null;
+	    removedAt: Date | null;
+	    pickedCount: number | null;
+	    shortageCount: number | null;
+	    shortageReason: PickShortageReason | null;
 	    coilItem: {
 	      id: string;
 	      par: number;
@@ -2255,53 +2844,20 @@ type RunDetailPayload = {
     machine: MachinePayload | null;
   }>;
   locationOrders: LocationOrderPayload[];
-};
-
-type PickEntryCountSource = {
-  count: number;
-  override: number | null;
-  current: number | null;
-  par: number | null;
-  need: number | null;
-  forecast: number | null;
-  total: number | null;
-  coilItem: {
-    sku: {
-      countNeededPointer: string | null;
-    } | null;
+  shortfalls: {
+    totalShortage: number;
+    entries: Array<{
+      pickEntryId: string;
+      skuId: string | null;
+      skuCode: string | null;
+      skuName: string | null;
+      pickedCount: number | null;
+      shortageCount: number;
+      shortageReason: PickShortageReason | null;
+    }>;
   };
 };
 
-const hasOverrideValue = (value: number | null | undefined): value is number =>
-  value !== null && value !== undefined;
-
-const resolvePointerCount = (entry: PickEntryCountSource, fallbackCount?: number): number => {
-  const pointer = (entry.coilItem.sku?.countNeededPointer || 'total').toLowerCase();
-  const safeFallback = fallbackCount ?? entry.count;
-
-  switch (pointer) {
-    case 'current':
-      return entry.current ?? safeFallback;
-    case 'par':
-      return entry.par ?? safeFallback;
-    case 'need':
-      return entry.need ?? safeFallback;
-    case 'forecast':
-      return entry.forecast ?? safeFallback;
-    case 'total':
-    default:
-      return entry.total ?? safeFallback;
-  }
-};
-
-const resolvePickEntryCount = (entry: PickEntryCountSource): number => {
-  if (hasOverrideValue(entry.override)) {
-    return entry.override;
-  }
-
-  return resolvePointerCount(entry);
-};
-
 function buildRunDetailPayload(run: RunDetailSource): RunDetailPayload {
   const machinesById = new Map<string, MachinePayload>();
   const locationsById = new Map<string, LocationPayload>();
@@ -2398,6 +2954,7 @@ function buildRunDetailPayload(run: RunDetailSource): RunDetailPayload {
       expiryOverrides,
       isPicked: !!entry.isPicked,
       pickedAt: entry.pickedAt,
+      removedAt: entry.removedAt,
       packingSessionId: entry.packingSessionId,
       coilItem: {
         id: entry.coilItem.id,
@@ -2473,6 +3030,7 @@ function buildRunDetailPayload(run: RunDetailSource): RunDetailPayload {
           lastName: run.runner.lastName,
         }
       : null,
+    participants: run.participants.map(serializeRunParticipant),
     locations: Array.from(locationsById.values()),
     machines: Array.from(machinesById.values()),
     pickItems,
@@ -2503,6 +3061,10 @@ function buildRunDetailPayload(run: RunDetailSource): RunDetailPayload {
         expiryOverrides,
         isPicked: !!entry.isPicked,
         pickedAt: entry.pickedAt,
+        removedAt: entry.removedAt,
+        pickedCount: entry.pickedCount,
+        shortageCount: entry.shortageCount,
+        shortageReason: entry.shortageReason,
         packingSessionId: entry.packingSessionId,
         coilItem: {
           id: entry.coilItem.id,
@@ -2544,6 +3106,26 @@ function buildRunDetailPayload(run: RunDetailSource): RunDetailPayload {
     }),
     chocolateBoxes,
     locationOrders,
+    shortfalls: buildRunShortfalls(run),
+  };
+}
+
+function buildRunShortfalls(run: RunDetailSource): RunDetailPayload['shortfalls'] {
+  const entries = run.pickEntries
+    .filter((entry) => entry.isPicked && (entry.shortageCount ?? 0) > 0)
+    .map((entry) => ({
+      pickEntryId: entry.id,
+      skuId: entry.coilItem.sku?.id ?? null,
+      skuCode: entry.coilItem.sku?.code ?? null,
+      skuName: entry.coilItem.sku?.name ?? null,
+      pickedCount: entry.pickedCount,
+      shortageCount: entry.shortageCount ?? 0,
+      shortageReason: entry.shortageReason,
+    }));
+
+  return {
+    totalShortage: entries.reduce((total, entry) => total + entry.shortageCount, 0),
+    entries,
   };
 }
 
@@ -2607,6 +3189,8 @@ type RunDailyResponse = {
     firstName: string | null;
     lastName: string | null;
   };
+  participants: RunParticipantPayload[];
+  currentUserRoles: RunParticipantRole[];
 };
 
 type RunRangeFilters = {
@@ -2671,6 +3255,7 @@ async function buildRunResponses(rows: RunDailyLocationRow[], currentUserId?: st
         })
       : [];
   const runIdsWithPackingSessionsForUser = new Set(runsWithPackingSessionsForUser.map((session) => session.runId));
+  const participantsByRun = await loadRunParticipantsByRun(runIds);
   const chocolateBoxes =
     runIds.length > 0
       ? await prisma.chocolateBox.findMany({
@@ -2703,20 +3288,25 @@ async function buildRunResponses(rows: RunDailyLocationRow[], currentUserId?: st
     });
   });
 
-  return rows.map((row) => ({
-    id: row.run_id,
-    companyId: row.company_id,
-    status: row.run_status,
-    scheduledFor: row.scheduled_for,
-    pickingStartedAt: row.picking_started_at,
-    pickingEndedAt: row.picking_ended_at,
-    createdAt: row.run_created_at,
-    runnerId: row.runner_id,
-    hasPackingSessionForCurrentUser: runIdsWithPackingSessionsForUser.has(row.run_id),
-    locationCount: Number(row.location_count ?? 0),
-    chocolateBoxes: chocolateBoxesByRun.get(row.run_id) || [],
-    runner: buildParticipant(row.runner_id, row.runner_first_name, row.runner_last_name),
-  }));
+  return rows.map((row) => {
+    const participants = participantsByRun.get(row.run_id) ?? [];
+    return {
+      id: row.run_id,
+      companyId: row.company_id,
+      status: row.run_status,
+      scheduledFor: row.scheduled_for,
+      pickingStartedAt: row.picking_started_at,
+      pickingEndedAt: row.picking_ended_at,
+      createdAt: row.run_created_at,
+      runnerId: row.runner_id,
+      hasPackingSessionForCurrentUser: runIdsWithPackingSessionsForUser.has(row.run_id),
+      locationCount: Number(row.location_count ?? 0),
+      chocolateBoxes: chocolateBoxesByRun.get(row.run_id) || [],
+      runner: buildParticipant(row.runner_id, row.runner_first_name, row.runner_last_name),
+      participants,
+      currentUserRoles: getUserRunRoles(participants, currentUserId),
+    };
+  });
 }
 
 function buildParticipant(
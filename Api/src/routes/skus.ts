@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { Prisma, type SKU } from '@prisma/client';
+import { Prisma, type SKU, type SkuCategoryMapping } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
 import { authenticate } from '../middleware/authenticate.js';
 import { setLogConfig } from '../middleware/logging.js';
@@ -7,6 +7,7 @@ import { isCompanyManager } from './helpers/authorization.js';
 
 import { AuthContext } from '../types/enums.js';
 import { resolveCompanyTimezone } from './helpers/timezone.js';
+import { addSkuBarcodeSchema, serializeSkuBarcode } from './helpers/sku-barcodes.js';
 import { formatAppDate, formatAppExclusiveRange, formatAppIsoDate } from './helpers/app-dates.js';
 import {
   ONE_DAY_MS,
@@ -24,6 +25,7 @@ type SkuStatsPeriod = StatsPeriod;
 
 const router = Router();
 const HEX_COLOUR_REGEX = /^[0-9a-fA-F]{6}([0-9a-fA-F]{2})?$/;
+const MAX_CATEGORY_MAPPING_LENGTH = 191;
 
 router.use(authenticate);
 
@@ -210,6 +212,148 @@ router.post('/bulk/cold-chest', setLogConfig({ level: 'minimal' }), async (req,
   return res.json({ updatedCount: updateResult.count });
 });
 
+// List the company's SKU category mappings used by run imports and packing-session category filters
+router.get('/category-mappings', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const companyId = req.auth.companyId;
+  if (!companyId) {
+    return res.status(403).json({ error: 'Forbidden' });
+  }
+
+  const category = typeof req.query.category === 'string' ? req.query.category.trim() : '';
+
+  const mappings = await prisma.skuCategoryMapping.findMany({
+    where: {
+      companyId,
+      ...(category ? { category } : {}),
+    },
+    orderBy: [{ category: 'asc' }, { skuCode: 'asc' }],
+  });
+
+  return res.json(mappings.map(serializeCategoryMapping));
+});
+
+// Create a SKU category mapping and apply it to the matching SKU
+router.post('/category-mappings', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const companyId = req.auth.companyId;
+  if (!companyId) {
+    return res.status(403).json({ error: 'Forbidden' });
+  }
+
+  if (!isCompanyManager(req.auth.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions to update SKU category mappings' });
+  }
+
+  const { skuCode, category } = req.body as { skuCode?: unknown; category?: unknown };
+  const normalizedCode = typeof skuCode === 'string' ? skuCode.trim() : '';
+  const normalizedCategory = typeof category === 'string' ? category.trim() : '';
+  if (!normalizedCode || normalizedCode.length > MAX_CATEGORY_MAPPING_LENGTH) {
+    return res.status(400).json({ error: 'skuCode must be a non-empty string' });
+  }
+  if (!normalizedCategory || normalizedCategory.length > MAX_CATEGORY_MAPPING_LENGTH) {
+    return res.status(400).json({ error: 'category must be a non-empty string' });
+  }
+
+  try {
+    const mapping = await prisma.$transaction(async (tx) => {
+      const created = await tx.skuCategoryMapping.create({
+        data: { companyId, skuCode: normalizedCode, category: normalizedCategory },
+      });
+      await tx.sKU.updateMany({
+        where: { companyId, code: normalizedCode },
+        data: { category: normalizedCategory },
+      });
+      return created;
+    });
+    return res.status(201).json(serializeCategoryMapping(mapping));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'A category mapping already exists for that SKU code' });
+    }
+    throw error;
+  }
+});
+
+// Change the category of a SKU category mapping and apply it to the matching SKU
+router.patch('/category-mappings/:mappingId', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const companyId = req.auth.companyId;
+  if (!companyId) {
+    return res.status(403).json({ error: 'Forbidden' });
+  }
+
+  if (!isCompanyManager(req.auth.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions to update SKU category mappings' });
+  }
+
+  const { mappingId } = req.params;
+  if (!mappingId) {
+    return res.status(400).json({ error: 'Mapping ID is required' });
+  }
+  const { category } = req.body as { category?: unknown };
+  const normalizedCategory = typeof category === 'string' ? category.trim() : '';
+  if (!normalizedCategory || normalizedCategory.length > MAX_CATEGORY_MAPPING_LENGTH) {
+    return res.status(400).json({ error: 'category must be a non-empty string' });
+  }
+
+  const existing = await prisma.skuCategoryMapping.findUnique({ where: { id: mappingId } });
+  if (!existing || existing.companyId !== companyId) {
+    return res.status(404).json({ error: 'Category mapping not found' });
+  }
+
+  const mapping = await prisma.$transaction(async (tx) => {
+    const updated = await tx.skuCategoryMapping.update({
+      where: { id: existing.id },
+      data: { category: normalizedCategory },
+    });
+    await tx.sKU.updateMany({
+      where: { companyId, code: existing.skuCode },
+      data: { category: normalizedCategory },
+    });
+    return updated;
+  });
+
+  return res.json(serializeCategoryMapping(mapping));
+});
+
+// Delete a SKU category mapping; the SKU keeps its current category until a workbook changes it
+router.delete('/category-mappings/:mappingId', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const companyId = req.auth.companyId;
+  if (!companyId) {
+    return res.status(403).json({ error: 'Forbidden' });
+  }
+
+  if (!isCompanyManager(req.auth.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions to update SKU category mappings' });
+  }
+
+  const { mappingId } = req.params;
+  if (!mappingId) {
+    return res.status(400).json({ error: 'Mapping ID is required' });
+  }
+  const existing = await prisma.skuCategoryMapping.findUnique({ where: { id: mappingId } });
+  if (!existing || existing.companyId !== companyId) {
+    return res.status(404).json({ error: 'Category mapping not found' });
+  }
+
+  await prisma.skuCategoryMapping.delete({ where: { id: existing.id } });
+  return res.status(204).send();
+});
+
 // Update SKU isFreshOrFrozen field
 router.patch('/:skuId/fresh-or-frozen', setLogConfig({ level: 'minimal' }), async (req, res) => {
   if (!req.auth) {
@@ -420,6 +564,11 @@ router.get('/:skuId', setLogConfig({ level: 'minimal' }), async (req, res) => {
     return res.status(403).json({ error: 'SKU does not belong to your company' });
   }
 
+  const barcodes = await prisma.skuBarcode.findMany({
+    where: { skuId: skuResult.sku.id },
+    orderBy: { createdAt: 'asc' },
+  });
+
   return res.json({
     id: skuResult.sku.id,
     code: skuResult.sku.code,
@@ -431,6 +580,7 @@ router.get('/:skuId', setLogConfig({ level: 'minimal' }), async (req, res) => {
     labelColour: skuResult.sku.labelColour,
     countNeededPointer: skuResult.sku.countNeededPointer,
     expiryDays: skuResult.sku.expiryDays,
+    barcodes: barcodes.map(serializeSkuBarcode),
   });
 });
 
@@ -553,6 +703,80 @@ router.patch('/:skuId/label-colour', setLogConfig({ level: 'minimal' }), async (
   });
 });
 
+// Add a barcode to a SKU; a SKU can carry several (multipacks, supplier changes)
+router.post('/:skuId/barcodes', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { skuId } = req.params;
+  if (!skuId) {
+    return res.status(400).json({ error: 'SKU ID is required' });
+  }
+
+  const parsed = addSkuBarcodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid payload', details: parsed.error.flatten() });
+  }
+
+  const skuResult = await getSkuForCompany(skuId, req.auth.companyId);
+  if (skuResult.status === 'not_found') {
+    return res.status(404).json({ error: 'SKU not found' });
+  }
+  if (skuResult.status === 'forbidden') {
+    return res.status(403).json({ error: 'SKU does not belong to your company' });
+  }
+
+  if (!isCompanyManager(req.auth.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions to update SKU' });
+  }
+
+  try {
+    const barcode = await prisma.skuBarcode.create({
+      data: { skuId, code: parsed.data.code },
+    });
+    return res.status(201).json(serializeSkuBarcode(barcode));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'That barcode is already on this SKU' });
+    }
+    throw error;
+  }
+});
+
+// Remove a barcode from a SKU
+router.delete('/:skuId/barcodes/:barcodeId', setLogConfig({ level: 'minimal' }), async (req, res) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { skuId, barcodeId } = req.params;
+  if (!skuId || !barcodeId) {
+    return res.status(400).json({ error: 'SKU ID and barcode ID are required' });
+  }
+
+  const skuResult = await getSkuForCompany(skuId, req.auth.companyId);
+  if (skuResult.status === 'not_found') {
+    return res.status(404).json({ error: 'SKU not found' });
+  }
+  if (skuResult.status === 'forbidden') {
+    return res.status(403).json({ error: 'SKU does not belong to your company' });
+  }
+
+  if (!isCompanyManager(req.auth.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions to update SKU' });
+  }
+
+  const deleted = await prisma.skuBarcode.deleteMany({
+    where: { id: barcodeId, skuId },
+  });
+  if (deleted.count === 0) {
+    return res.status(404).json({ error: 'Barcode not found' });
+  }
+
+  return res.status(204).send();
+});
+
 // Get SKU statistics
 router.get('/:skuId/stats', setLogConfig({ level: 'minimal' }), async (req, res) => {
   if (!req.auth) {
@@ -1122,4 +1346,12 @@ function buildSkuCompanyWhere(companyId: string): Prisma.SKUWhereInput {
   };
 }
 
+const serializeCategoryMapping = (mapping: SkuCategoryMapping) => ({
+  id: mapping.id,
+  skuCode: mapping.skuCode,
+  category: mapping.category,
+  createdAt: mapping.createdAt,
+  updatedAt: mapping.updatedAt,
+});
+
 export const skuRouter = router;
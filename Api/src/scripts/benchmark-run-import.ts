@@ -0,0 +1,128 @@
+import { parseArgs } from 'node:util';
+import { prisma } from '../lib/prisma.js';
+import { flattenPickEntries } from '../lib/run-import-parser.js';
+import { persistRunsFromWorkbook, reconcileRunFromWorkbook } from '../routes/helpers/run-imports.js';
+import type { ParsedRun, ParsedRunMachine } from '../types/run-import.js';
+
+// Times the run import persistence against a company from `npm run seed:data`, using a synthetic workbook with
+// BENCH- machine codes so the seeded machines are left alone.
+//
+//   npm run benchmark:import -- --machines 500 --coils 40 --company "River City Logistics"
+
+const BENCH_MACHINE_PREFIX = 'BENCH-';
+
+const { values: options } = parseArgs({
+  options: {
+    company: { type: 'string', default: 'Metro Snacks Co.' },
+    machines: { type: 'string', default: '300' },
+    coils: { type: 'string', default: '30' },
+    keep: { type: 'boolean', default: false },
+  },
+});
+
+const readPositiveInteger = (value: string, label: string) => {
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed < 1) {
+    throw new Error(`--${label} must be a positive integer`);
+  }
+  return parsed;
+};
+
+async function buildRun(companyId: string, machineCount: number, coilCount: number): Promise<ParsedRun> {
+  const [locations, skus, machineTypes] = await Promise.all([
+    prisma.location.findMany({ where: { companyId }, orderBy: { name: 'asc' } }),
+    prisma.sKU.findMany({ where: { OR: [{ companyId }, { companyId: null }] }, orderBy: { code: 'asc' } }),
+    prisma.machineType.findMany({ orderBy: { name: 'asc' } }),
+  ]);
+  if (!locations.length || !skus.length || !machineTypes.length) {
+    throw new Error('The company has no seeded locations, SKUs or machine types. Run `npm run seed:data` first.');
+  }
+
+  const machines: ParsedRunMachine[] = Array.from({ length: machineCount }, (_, machineIndex) => {
+    const location = locations[machineIndex % locations.length]!;
+    const machineType = machineTypes[machineIndex % machineTypes.length]!;
+    return {
+      locationName: location.name,
+      machineCode: `${BENCH_MACHINE_PREFIX}${String(machineIndex + 1).padStart(4, '0')}`,
+      machineName: `Benchmark machine ${machineIndex + 1}`,
+      runDate: null,
+      location: { name: location.name, address: location.address },
+      machineType: { name: machineType.name, category: machineType.description },
+      coilItems: Array.from({ length: coilCount }, (_, coilIndex) => {
+        const sku = skus[(machineIndex + coilIndex) % skus.length]!;
+        const par = 8 + (coilIndex % 5);
+        const current = (machineIndex + coilIndex) % par;
+        return {
+          coilCode: String(coilIndex + 1),
+          sku: { code: sku.code, name: sku.name, type: sku.type, category: sku.category },
+          current,
+          par,
+          need: par - current,
+          forecast: par - current,
+          total: par - current + 1,
+          notes: null,
+        };
+      }),
+    };
+  });
+
+  return { runDate: new Date(), pickEntries: flattenPickEntries(machines) };
+}
+
+const time = async <T>(label: string, task: () => Promise<T>) => {
+  const startedAt = performance.now();
+  const result = await task();
+  console.log(`${label}: ${((performance.now() - startedAt) / 1000).toFixed(2)}s`);
+  return result;
+};
+
+async function main() {
+  const machineCount = readPositiveInteger(options.machines, 'machines');
+  const coilCount = readPositiveInteger(options.coils, 'coils');
+
+  const company = await prisma.company.findFirst({ where: { name: options.company } });
+  if (!company) {
+    throw new Error(`Company "${options.company}" not found. Run \`npm run seed:data\` first.`);
+  }
+
+  const run = await buildRun(company.id, machineCount, coilCount);
+  console.log(
+    `Importing ${run.pickEntries.length} pick entries across ${machineCount} machines for ${company.name}.`,
+  );
+
+  const runIds: string[] = [];
+  try {
+    // The first import creates every machine, coil and coil item; the second resolves them all as existing rows.
+    const [created] = await time('Import (new machines)', () =>
+      persistRunsFromWorkbook({ runs: [run], companyId: company.id }),
+    );
+    runIds.push(created!.id);
+
+    const [repeated] = await time('Import (existing machines)', () =>
+      persistRunsFromWorkbook({ runs: [run], companyId: company.id }),
+    );
+    runIds.push(repeated!.id);
+
+    const { summary } = await time('Re-import into existing run', () =>
+      reconcileRunFromWorkbook({ run, companyId: company.id, runId: repeated!.id }),
+    );
+    console.log('Reconciliation:', summary);
+  } finally {
+    if (!options.keep) {
+      await prisma.run.deleteMany({ where: { id: { in: runIds } } });
+      await prisma.machine.deleteMany({
+        where: { companyId: company.id, code: { startsWith: BENCH_MACHINE_PREFIX } },
+      });
+      console.log('Removed benchmark runs and machines.');
+    }
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Failed to benchmark run import:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,5 +1,44 @@
 export interface ParsedRunWorkbook {
   run: ParsedRun | null;
+  issues: RunImportIssue[];
+  /** SKU categories listed on the workbook's category sheet, to be merged into the company's mappings. */
+  skuCategories: ParsedSkuCategoryMapping[];
+  /** Every coil item in the workbook, including those with nothing to pick, for planogram imports. */
+  planogram: ParsedPickEntry[];
+}
+
+export interface ParsedSkuCategoryMapping {
+  skuCode: string;
+  category: string;
+  sheetName: string;
+  row: number;
+}
+
+export type RunImportIssueSeverity = 'error' | 'warning';
+
+export interface RunImportIssue {
+  severity: RunImportIssueSeverity;
+  sheetName: string | null;
+  /** 1-based worksheet row number, or null for workbook-level issues. */
+  row: number | null;
+  /** 1-based worksheet column number, or null when the issue spans the row. */
+  column: number | null;
+  message: string;
+}
+
+export type RunImportColumn = 'coil' | 'sku' | 'current' | 'par' | 'need' | 'forecast' | 'total' | 'notes';
+
+export interface RunImportLayout {
+  /** Text the first cell of a location sheet starts with, followed by the location name and run date. */
+  locationPrefix: string;
+  /** Text separating the location name from the machine code in a machine header row. */
+  machineHeaderMarker: string;
+  /** Heading expected in the coil column of the row that starts a machine's coil table. */
+  coilHeaderLabel: string;
+  /** Number of leading reference sheets (such as the SKU category list) before the location sheets. */
+  referenceSheetCount: number;
+  /** 1-based worksheet column numbers of the coil table; notes is optional. */
+  columns: Record<Exclude<RunImportColumn, 'notes'>, number> & { notes: number | null };
 }
 
 export interface ParsedRun {
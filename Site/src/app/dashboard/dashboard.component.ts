@@ -1,8 +1,18 @@
 import { CommonModule } from '@angular/common';
-import { ChangeDetectorRef, Component, inject } from '@angular/core';
+import { ChangeDetectorRef, Component, OnInit, inject } from '@angular/core';
 import { finalize } from 'rxjs';
 import { AuthService } from '../auth/auth.service';
-import { RunImportResponse, RunImportService, RunImportSummary } from '../run-imports/run-import.service';
+import {
+  RunImportIssue,
+  RunImportJob,
+  RunImportJobPhase,
+  RunImportPreview,
+  RunImportRequestError,
+  RunImportResponse,
+  RunImportService,
+  RunImportSummary,
+  RunImportTemplate,
+} from '../run-imports/run-import.service';
 
 @Component({
   selector: 'app-dashboard',
@@ -10,7 +20,7 @@ import { RunImportResponse, RunImportService, RunImportSummary } from '../run-im
   imports: [CommonModule],
   templateUrl: './dashboard.component.html',
 })
-export class DashboardComponent {
+export class DashboardComponent implements OnInit {
   private readonly authService = inject(AuthService);
   private readonly runImportService = inject(RunImportService);
   private readonly cdr = inject(ChangeDetectorRef);
@@ -23,6 +33,34 @@ export class DashboardComponent {
   feedbackVariant: 'success' | 'error' | '' = '';
   lastUploadedFile = '';
   uploadSummary: RunImportSummary | null = null;
+  uploadedRuns: RunImportResponse['runs'] = [];
+  pendingFile: File | null = null;
+  pendingPreviews: RunImportPreview[] = [];
+  importIssues: RunImportIssue[] = [];
+  importProgress: Pick<RunImportJob<unknown>, 'phase' | 'percent'> | null = null;
+  templates: RunImportTemplate[] = [];
+  selectedTemplateId: string | null = null;
+
+  ngOnInit(): void {
+    this.runImportService.listTemplates().subscribe({
+      next: ({ builtIn, templates }) => {
+        // Only offer a choice once the company has templates of its own.
+        this.templates = templates.length ? [builtIn, ...templates] : [];
+        this.selectedTemplateId = templates.length
+          ? (templates.find((template) => template.isDefault)?.id ?? builtIn.id)
+          : null;
+        this.markViewForCheck();
+      },
+      error: () => {
+        this.templates = [];
+      },
+    });
+  }
+
+  onTemplateChange(event: Event): void {
+    const value = (event.target as HTMLSelectElement | null)?.value ?? '';
+    this.selectedTemplateId = value || null;
+  }
 
   handleDragOver(event: DragEvent): void {
     event.preventDefault();
@@ -62,11 +100,68 @@ export class DashboardComponent {
     if (!file) {
       return;
     }
-    if (!this.isExcelFile(file)) {
-      this.setFeedback('Please choose a .xlsx or .xls workbook.', 'error');
+    if (!this.isImportFile(file)) {
+      this.setFeedback('Please choose a .xlsx or .xls workbook or a .csv file.', 'error');
+      return;
+    }
+    this.previewFile(file);
+  }
+
+  confirmPendingUpload(): void {
+    if (!this.pendingFile) {
+      return;
+    }
+    this.uploadFile(this.pendingFile);
+  }
+
+  cancelPendingUpload(): void {
+    this.pendingFile = null;
+    this.pendingPreviews = [];
+    this.importIssues = [];
+    this.setFeedback('', '');
+  }
+
+  private previewFile(file: File): void {
+    if (this.isUploading) {
       return;
     }
-    this.uploadFile(file);
+    this.isUploading = true;
+    this.setFeedback('', '');
+    this.uploadSummary = null;
+    this.uploadedRuns = [];
+    this.pendingFile = null;
+    this.pendingPreviews = [];
+    this.importIssues = [];
+    this.lastUploadedFile = file.name;
+
+    this.runImportService
+      .previewRuns(file, this.selectedTemplateId)
+      .pipe(
+        finalize(() => {
+          this.isUploading = false;
+          this.importProgress = null;
+          this.markViewForCheck();
+        }),
+      )
+      .subscribe({
+        next: (job) => {
+          this.importProgress = { phase: job.phase, percent: job.percent };
+          const response = job.result;
+          if (response) {
+            this.pendingFile = file;
+            this.pendingPreviews = response.previews ?? [];
+            this.importIssues = response.issues ?? [];
+          }
+          this.markViewForCheck();
+        },
+        error: (error: unknown) => {
+          const message =
+            error instanceof Error ? error.message : 'Unable to preview the run. Please try again.';
+          this.importIssues = error instanceof RunImportRequestError ? error.issues : [];
+          this.setFeedback(message, 'error');
+          this.markViewForCheck();
+        },
+      });
   }
 
   private uploadFile(file: File): void {
@@ -76,31 +171,59 @@ export class DashboardComponent {
     this.isUploading = true;
     this.setFeedback('', '');
     this.uploadSummary = null;
+    this.uploadedRuns = [];
+    this.pendingFile = null;
+    this.pendingPreviews = [];
+    this.importIssues = [];
     this.lastUploadedFile = file.name;
 
     this.runImportService
-      .uploadRuns(file)
+      .uploadRuns(file, this.selectedTemplateId)
       .pipe(
         finalize(() => {
           this.isUploading = false;
+          this.importProgress = null;
           this.markViewForCheck();
         }),
       )
       .subscribe({
-        next: (response) => {
-          this.setFeedback(`Successfully uploaded ${file.name}.`, 'success');
-          this.uploadSummary = response.summary;
+        next: (job) => {
+          this.importProgress = { phase: job.phase, percent: job.percent };
+          const response = job.result;
+          if (response) {
+            this.setFeedback(`Successfully uploaded ${file.name}.`, 'success');
+            this.uploadSummary = response.summary;
+            this.uploadedRuns = response.runs ?? [];
+            this.importIssues = response.issues ?? [];
+          }
           this.markViewForCheck();
         },
         error: (error: unknown) => {
           const message =
             error instanceof Error ? error.message : 'Unable to upload the run. Please try again.';
+          this.importIssues = error instanceof RunImportRequestError ? error.issues : [];
           this.setFeedback(message, 'error');
           this.markViewForCheck();
         },
       });
   }
 
+  phaseLabel(phase: RunImportJobPhase): string {
+    switch (phase) {
+      case 'queued':
+        return 'Waiting for other imports to finish';
+      case 'parsing':
+        return 'Reading';
+      case 'previewing':
+        return 'Checking';
+      case 'persisting':
+        return 'Importing';
+      case 'finalizing':
+      case 'done':
+        return 'Finishing';
+    }
+  }
+
   private getFileFromDrop(dataTransfer: DataTransfer | null): File | null {
     if (!dataTransfer) {
       return null;
@@ -125,7 +248,7 @@ export class DashboardComponent {
       const item = items[i];
       if (item.kind === 'file') {
         const file = item.getAsFile();
-        if (file && this.isExcelFile(file)) {
+        if (file && this.isImportFile(file)) {
           return true;
         }
       }
@@ -133,9 +256,9 @@ export class DashboardComponent {
     return false;
   }
 
-  private isExcelFile(file: File): boolean {
+  private isImportFile(file: File): boolean {
     const name = file.name.toLowerCase();
-    return name.endsWith('.xlsx') || name.endsWith('.xls');
+    return name.endsWith('.xlsx') || name.endsWith('.xls') || name.endsWith('.csv');
   }
 
   private resetDragState(): void {
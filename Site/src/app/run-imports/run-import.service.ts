@@ -1,28 +1,99 @@
 import { inject, Injectable } from '@angular/core';
 import { HttpClient, HttpErrorResponse } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { catchError } from 'rxjs/operators';
+import { Observable, throwError, timer } from 'rxjs';
+import { catchError, exhaustMap, map, switchMap, takeWhile } from 'rxjs/operators';
 import { buildApiUrl } from '../config/runtime-env';
 
+const JOB_POLL_INTERVAL_MS = 1000;
+
 @Injectable({
   providedIn: 'root',
 })
 export class RunImportService {
   private readonly http = inject(HttpClient);
 
-  uploadRuns(file: File): Observable<RunImportResponse> {
-    const formData = new FormData();
-    formData.append('file', file);
+  listTemplates(): Observable<RunImportTemplateList> {
+    return this.http.get<RunImportTemplateList>(buildApiUrl('/run-imports/templates')).pipe(
+      catchError((error: HttpErrorResponse) =>
+        throwError(() => toRunImportError(error, 'Unable to load import templates.')),
+      ),
+    );
+  }
+
+  previewRuns(
+    file: File,
+    templateId: string | null = null,
+  ): Observable<RunImportJob<RunImportPreviewResponse>> {
+    const formData = buildUploadForm(file, templateId);
+    formData.append('dryRun', 'true');
+
+    return this.startImportJob<RunImportPreviewResponse>(formData, 'Unable to preview the run. Please try again.');
+  }
+
+  uploadRuns(file: File, templateId: string | null = null): Observable<RunImportJob<RunImportResponse>> {
+    const formData = buildUploadForm(file, templateId);
+
+    return this.startImportJob<RunImportResponse>(formData, 'Unable to upload the run. Please try again.');
+  }
 
-    return this.http.post<RunImportResponse>(buildApiUrl('/run-imports/runs'), formData).pipe(
-      catchError((error: HttpErrorResponse) => {
-        const message = error.error?.error ?? 'Unable to upload the run. Please try again.';
-        return throwError(() => new Error(message));
+  // Uploads are processed as background jobs; emits the job on every poll until it finishes, then completes.
+  // A failed job errors with its message and issues, the same as a rejected upload.
+  private startImportJob<T>(formData: FormData, fallbackMessage: string): Observable<RunImportJob<T>> {
+    return this.http.post<RunImportJobAccepted>(buildApiUrl('/run-imports/runs'), formData).pipe(
+      switchMap(({ jobId }) =>
+        timer(0, JOB_POLL_INTERVAL_MS).pipe(
+          exhaustMap(() => this.http.get<RunImportJob<T>>(buildApiUrl(`/run-imports/jobs/${jobId}`))),
+          takeWhile((job) => job.status === 'queued' || job.status === 'running', true),
+        ),
+      ),
+      map((job) => {
+        if (job.status === 'failed') {
+          throw new RunImportRequestError(job.error ?? fallbackMessage, job.issues ?? []);
+        }
+        return job;
       }),
+      catchError((error: unknown) =>
+        throwError(() =>
+          error instanceof HttpErrorResponse ? toRunImportError(error, fallbackMessage) : error,
+        ),
+      ),
     );
   }
 }
 
+export class RunImportRequestError extends Error {
+  constructor(
+    message: string,
+    readonly issues: RunImportIssue[],
+  ) {
+    super(message);
+    this.name = 'RunImportRequestError';
+  }
+}
+
+const buildUploadForm = (file: File, templateId: string | null): FormData => {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (templateId) {
+    formData.append('templateId', templateId);
+  }
+  return formData;
+};
+
+const toRunImportError = (error: HttpErrorResponse, fallbackMessage: string): RunImportRequestError => {
+  const message = error.error?.error ?? fallbackMessage;
+  const issues = Array.isArray(error.error?.issues) ? (error.error.issues as RunImportIssue[]) : [];
+  return new RunImportRequestError(message, issues);
+};
+
+export type RunImportIssue = {
+  severity: 'error' | 'warning';
+  sheetName: string | null;
+  row: number | null;
+  column: number | null;
+  message: string;
+};
+
 export type RunImportSummary = {
   runs: number;
   machines: number;
@@ -31,4 +102,69 @@ export type RunImportSummary = {
 
 export type RunImportResponse = {
   summary: RunImportSummary;
+  issues: RunImportIssue[];
+  runs: Array<{
+    id: string;
+    status: string;
+    scheduledFor: string | null;
+    action: 'created' | 'updated';
+    machines: number;
+    pickEntries: number;
+  }>;
+};
+
+export type RunImportPreviewBucket<T> = {
+  toCreate: T[];
+  matched: Array<T & { id: string }>;
+};
+
+export type RunImportPreview = {
+  scheduledFor: string;
+  timeZone: string;
+  existingRunsForDay: Array<{ id: string; status: string; scheduledFor: string | null; createdAt: string }>;
+  locations: RunImportPreviewBucket<{ name: string; address: string | null }>;
+  machines: RunImportPreviewBucket<{ code: string; description: string | null; locationName: string | null }>;
+  coils: RunImportPreviewBucket<{ machineCode: string; code: string }>;
+  skus: RunImportPreviewBucket<{ code: string; name: string }>;
+  coilItems: RunImportPreviewBucket<{ machineCode: string; coilCode: string; skuCode: string; par: number }>;
+  pickEntries: Array<{ machineCode: string; coilCode: string; skuCode: string; count: number }>;
+};
+
+export type RunImportPreviewResponse = {
+  dryRun: true;
+  summary: RunImportSummary;
+  issues: RunImportIssue[];
+  previews: RunImportPreview[];
+};
+
+export type RunImportJobAccepted = {
+  jobId: string;
+  importId: string;
+};
+
+export type RunImportJobPhase = 'queued' | 'parsing' | 'previewing' | 'persisting' | 'finalizing' | 'done';
+
+export type RunImportJob<T> = {
+  id: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed';
+  phase: RunImportJobPhase;
+  percent: number;
+  warnings: RunImportIssue[];
+  issues: RunImportIssue[];
+  runId: string | null;
+  error: string | null;
+  result: T | null;
+};
+
+export type RunImportTemplate = {
+  // The built-in layout has the id 'builtin'.
+  id: string;
+  name: string;
+  isDefault: boolean;
+  isBuiltIn: boolean;
+};
+
+export type RunImportTemplateList = {
+  builtIn: RunImportTemplate;
+  templates: RunImportTemplate[];
 };